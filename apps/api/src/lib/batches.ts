@@ -0,0 +1,116 @@
+/**
+ * Job batches: generation jobs for several shots of a project, queued
+ * together by POST /jobs/batch. Each job records the shot and field its
+ * asset is for. When the last job settles the batch gets its final status
+ * and, with auto-commit on, one commit on the batch's branch places every
+ * generated asset into its shot.
+ */
+import { asc, eq } from 'drizzle-orm';
+import { jobBatches, jobs } from '@phork/db';
+import type IORedis from 'ioredis';
+import type { BatchFailure, BatchJob, JobBatch, JobBatchStatus } from '@phork/shared';
+import { isTerminalJobStatus } from '@phork/shared';
+import { commitShotAssets } from './branches';
+import { jobEvent, publishJobEvent } from './events';
+
+function batchJob(job: any): BatchJob {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    shotId: job.request.shotId,
+    field: job.request.field,
+    result: job.result ?? null,
+    error: job.error ?? null,
+  };
+}
+
+/** A batch row with its jobs, per-status counts and the jobs that did not succeed */
+export function describeBatch(batch: any, batchJobs: any[]): JobBatch {
+  const jobList = batchJobs.map(batchJob);
+  const counts: JobBatch['counts'] = {};
+  const failures: BatchFailure[] = [];
+  for (const job of jobList) {
+    counts[job.status] = (counts[job.status] || 0) + 1;
+    if (isTerminalJobStatus(job.status) && job.status !== 'succeeded') {
+      failures.push({
+        jobId: job.id,
+        shotId: job.shotId,
+        field: job.field,
+        status: job.status,
+        message: job.error?.message || job.status,
+      });
+    }
+  }
+  return {
+    ...batch,
+    skippedShotIds: batch.skippedShotIds || [],
+    jobs: jobList,
+    counts,
+    failures,
+  };
+}
+
+export async function loadBatchJobs(db: any, batchId: string) {
+  return db.select().from(jobs).where(eq(jobs.batchId, batchId)).orderBy(asc(jobs.createdAt));
+}
+
+/** Commit the succeeded jobs' assets into their shots on the batch's branch */
+async function commitBatchAssets(db: any, batch: any, succeeded: any[]) {
+  const placed = await commitShotAssets(db, {
+    projectId: batch.projectId,
+    workspaceId: batch.workspaceId,
+    branch: batch.branch,
+    userId: batch.userId,
+    message: batch.commitMessage || `Generate ${succeeded.length} asset${succeeded.length === 1 ? '' : 's'} (batch)`,
+    placements: succeeded.map((job) => ({ shotId: job.request.shotId, field: job.request.field, assetId: job.result.assetId })),
+  });
+  return { commitId: placed.commitId, skippedShotIds: placed.skippedShotIds, commitError: placed.error ?? null };
+}
+
+/**
+ * Finish a batch once none of its jobs are queued or running. The batch row
+ * is locked while checking, so when two of its jobs settle at once exactly
+ * one caller finalizes it. Returns the settled batch, or null if it is
+ * still running or was already settled.
+ */
+export async function settleBatch(db: any, batchId: string) {
+  return db.transaction(async (tx: any) => {
+    const [batch] = await tx.select().from(jobBatches).where(eq(jobBatches.id, batchId)).for('update');
+    if (!batch || batch.status !== 'running') return null;
+
+    const batchJobs = await loadBatchJobs(tx, batchId);
+    if (!batchJobs.every((job: any) => isTerminalJobStatus(job.status))) return null;
+
+    const succeeded = batchJobs.filter((job: any) => job.status === 'succeeded');
+    const status: JobBatchStatus = succeeded.length === batchJobs.length
+      ? 'succeeded'
+      : succeeded.length === 0 ? 'failed' : 'partial';
+
+    const { commitId, skippedShotIds, commitError } = batch.autoCommit && succeeded.length > 0
+      ? await commitBatchAssets(tx, batch, succeeded)
+      : { commitId: null, skippedShotIds: [], commitError: null };
+
+    const [settled] = await tx.update(jobBatches)
+      .set({ status, commitId, skippedShotIds, commitError, updatedAt: new Date() })
+      .where(eq(jobBatches.id, batchId))
+      .returning();
+    return settled;
+  });
+}
+
+/**
+ * Announce a job that reached a terminal status. A batch job settles its
+ * batch first, so by the time clients see the batch's last job finish, the
+ * batch status and auto-commit are in place.
+ */
+export async function announceSettledJob(db: any, connection: IORedis, job: any) {
+  if (job.batchId) {
+    try {
+      await settleBatch(db, job.batchId);
+    } catch (err: any) {
+      console.error(`Failed to settle batch ${job.batchId}:`, err.message);
+    }
+  }
+  publishJobEvent(connection, jobEvent(job));
+}
@@ -0,0 +1,70 @@
+/**
+ * Shot blame: for each field of each shot in a commit, the commit that
+ * last changed it. Walks the first-parent chain newest first, so changes
+ * brought in by a merge are attributed to the merge commit.
+ */
+import { inArray } from 'drizzle-orm';
+import { users } from '@phork/db';
+import type { BlameEntry, ShotSnapshot, SnapshotBlame } from '@phork/shared';
+import { SHOT_DIFF_FIELDS, sameValue, upgradeSnapshot } from '@phork/shared';
+import { loadCommits, firstParentChain } from './commits';
+
+const shotsById = (commit: any) =>
+  new Map<string, ShotSnapshot>(upgradeSnapshot(commit.snapshot).timeline.map((s) => [s.shot_id, s]));
+
+export async function blameCommit(db: any, projectId: string, commitId: string): Promise<SnapshotBlame> {
+  const chain = firstParentChain(await loadCommits(db, projectId), commitId);
+  const target = upgradeSnapshot(chain[0].snapshot).timeline;
+
+  // shot_id → field → index into `chain` of the commit that set the current value
+  const blamed = new Map<string, Map<string, number>>(target.map((s) => [s.shot_id, new Map()]));
+  const pending = new Map<string, Set<string>>(target.map((s) => [s.shot_id, new Set<string>(SHOT_DIFF_FIELDS)]));
+
+  let shots = shotsById(chain[0]);
+  for (let i = 0; i < chain.length && pending.size > 0; i++) {
+    // Past the root, every remaining field was set by the root commit
+    const parentShots = i + 1 < chain.length ? shotsById(chain[i + 1]) : new Map<string, ShotSnapshot>();
+    for (const [shotId, fields] of pending) {
+      // The shot exists here: had it been missing, its fields were blamed on the child
+      const shot = shots.get(shotId) as any;
+      const before = parentShots.get(shotId) as any;
+      for (const field of fields) {
+        if (!before || !sameValue(before[field], shot[field])) {
+          blamed.get(shotId)!.set(field, i);
+          fields.delete(field);
+        }
+      }
+      if (fields.size === 0) pending.delete(shotId);
+    }
+    shots = parentShots;
+  }
+
+  const authorIds = [...new Set(chain.map((c) => c.createdBy).filter(Boolean))] as string[];
+  const authors = authorIds.length > 0
+    ? await db.select({ id: users.id, displayName: users.displayName }).from(users).where(inArray(users.id, authorIds))
+    : [];
+  const authorNames = new Map<string, string | null>(authors.map((a: any) => [a.id, a.displayName]));
+
+  const entry = (index: number): BlameEntry => {
+    const commit = chain[index];
+    return {
+      commitId: commit.id,
+      message: commit.message,
+      authorId: commit.createdBy,
+      authorName: commit.createdBy ? authorNames.get(commit.createdBy) ?? null : null,
+      createdAt: commit.createdAt,
+    };
+  };
+
+  return {
+    commitId,
+    shots: target.map((shot) => {
+      const fields = blamed.get(shot.shot_id)!;
+      return {
+        shot_id: shot.shot_id,
+        fields: Object.fromEntries(SHOT_DIFF_FIELDS.map((field) => [field, entry(fields.get(field)!)])),
+        lastChange: entry(Math.min(...fields.values())),
+      };
+    }),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Branches are named heads within a project. Every project has a default
+ * branch (`projects.default_branch`, "main" unless changed) which stands in
+ * for the old single project head: anything that asks for "the project's
+ * head" without naming a branch gets the default branch's head. Tags name
+ * fixed commits and only move when explicitly updated.
+ */
+import { and, eq, sql, TransactionRollbackError } from 'drizzle-orm';
+import { branches, commits, projects, tags } from '@phork/db';
+import type { BatchJobField } from '@phork/shared';
+import { createSnapshot, upgradeSnapshot } from '@phork/shared';
+import { checkSnapshotAssets, insertCommit, projectHasCommit } from './commits';
+import type { NewCommit } from './commits';
+
+export async function getBranch(db: any, projectId: string, name: string) {
+  const [branch] = await db.select().from(branches)
+    .where(and(eq(branches.projectId, projectId), eq(branches.name, name)))
+    .limit(1);
+  return branch || null;
+}
+
+/** Head commit ID of a branch, or of the default branch when `name` is omitted */
+export async function getBranchHeadCommitId(db: any, projectId: string, name?: string): Promise<string | null> {
+  let branchName = name;
+  if (!branchName) {
+    const [project] = await db.select({ defaultBranch: projects.defaultBranch })
+      .from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) return null;
+    branchName = project.defaultBranch;
+  }
+  const branch = await getBranch(db, projectId, branchName!);
+  return branch?.headCommitId || null;
+}
+
+export async function getTag(db: any, projectId: string, name: string) {
+  const [tag] = await db.select().from(tags)
+    .where(and(eq(tags.projectId, projectId), eq(tags.name, name)))
+    .limit(1);
+  return tag || null;
+}
+
+export interface CommitRef {
+  commitId?: string;
+  branch?: string;
+  tag?: string;
+}
+
+/**
+ * Resolve a `commitId`, `branch` or `tag` reference to a commit ID in the
+ * project. When both `branch` and `tag` are given (a free-form ref), a
+ * branch of that name wins. Returns null if the commit isn't in the
+ * project's history (including history a fork shares with its parent) or
+ * the name doesn't exist.
+ */
+export async function resolveCommitRef(db: any, projectId: string, ref: CommitRef): Promise<string | null> {
+  if (ref.commitId) {
+    return (await projectHasCommit(db, projectId, ref.commitId)) ? ref.commitId : null;
+  }
+  if (ref.branch) {
+    const headCommitId = await getBranchHeadCommitId(db, projectId, ref.branch);
+    if (headCommitId) return headCommitId;
+  }
+  if (ref.tag) {
+    const tag = await getTag(db, projectId, ref.tag);
+    return tag?.commitId || null;
+  }
+  return null;
+}
+
+/** Describe a ref for "not found" messages */
+export function describeCommitRef(ref: CommitRef): string {
+  if (ref.commitId) return `Commit ${ref.commitId}`;
+  if (ref.branch && ref.tag) return `Branch or tag "${ref.branch}"`;
+  if (ref.branch) return `Branch "${ref.branch}"`;
+  return `Tag "${ref.tag}"`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Interpret a free-form ref (query string) as a commit ID if it looks like one, else a branch or tag name */
+export function parseCommitRef(ref: string): CommitRef {
+  return UUID_PATTERN.test(ref) ? { commitId: ref } : { branch: ref, tag: ref };
+}
+
+/**
+ * Point a branch at a new commit. With `expectedHeadCommitId`, the move only
+ * happens if the branch is still at that commit (compare-and-set). Returns
+ * whether the branch moved.
+ */
+export async function advanceBranch(
+  db: any,
+  projectId: string,
+  name: string,
+  commitId: string,
+  expectedHeadCommitId?: string,
+): Promise<boolean> {
+  const conditions = [eq(branches.projectId, projectId), eq(branches.name, name)];
+  if (expectedHeadCommitId) conditions.push(eq(branches.headCommitId, expectedHeadCommitId));
+  const moved = await db.update(branches)
+    .set({ headCommitId: commitId, updatedAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: branches.id });
+  return moved.length > 0;
+}
+
+/**
+ * Insert a commit and move the branch to it in one transaction. Returns
+ * null, writing nothing, if the branch no longer points at
+ * `expectedHeadCommitId`.
+ */
+export async function commitToBranch(db: any, branchName: string, expectedHeadCommitId: string | undefined, values: NewCommit) {
+  try {
+    return await db.transaction(async (tx: any) => {
+      const created = await insertCommit(tx, values);
+      if (!(await advanceBranch(tx, values.projectId, branchName, created.id, expectedHeadCommitId))) tx.rollback();
+      return created;
+    });
+  } catch (err) {
+    if (!(err instanceof TransactionRollbackError)) throw err;
+    return null;
+  }
+}
+
+export interface ShotAssetPlacement {
+  shotId: string;
+  field: BatchJobField;
+  assetId: string;
+}
+
+const SHOT_ASSET_FIELDS: Record<BatchJobField, 'visual_asset_id' | 'audio_asset_id'> = {
+  visual: 'visual_asset_id',
+  audio: 'audio_asset_id',
+};
+
+// Other saves can move the branch while this commits; retry on a fresh head
+const PLACEMENT_ATTEMPTS = 3;
+
+/**
+ * Commit generated assets into their shots on a branch head. Shots no
+ * longer on the branch are skipped. `commitId` is null, with an `error`,
+ * if nothing could be committed.
+ */
+export async function commitShotAssets(db: any, opts: {
+  projectId: string;
+  workspaceId: string;
+  branch: string;
+  userId: string;
+  message: string;
+  placements: ShotAssetPlacement[];
+}): Promise<{ commitId: string | null; skippedShotIds: string[]; error?: string }> {
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const branch = await getBranch(db, opts.projectId, opts.branch);
+    if (!branch) return { commitId: null, skippedShotIds: [], error: `Branch "${opts.branch}" not found` };
+    const [head] = await db.select().from(commits).where(eq(commits.id, branch.headCommitId)).limit(1);
+    const snapshot = upgradeSnapshot(head.snapshot);
+
+    const shotIds = new Set(snapshot.timeline.map((s) => s.shot_id));
+    const placed = opts.placements.filter((p) => shotIds.has(p.shotId));
+    const skippedShotIds = [...new Set(opts.placements.filter((p) => !shotIds.has(p.shotId)).map((p) => p.shotId))];
+    if (placed.length === 0) return { commitId: null, skippedShotIds, error: 'None of the shots are on the branch' };
+
+    const timeline = snapshot.timeline.map((shot) => {
+      const updated = { ...shot };
+      for (const p of placed) {
+        if (p.shotId === shot.shot_id) updated[SHOT_ASSET_FIELDS[p.field]] = p.assetId;
+      }
+      return updated;
+    });
+    const next = createSnapshot(timeline, snapshot.tracks);
+
+    const assetError = await checkSnapshotAssets(db, next, [opts.workspaceId]);
+    if (assetError) return { commitId: null, skippedShotIds, error: assetError.message };
+
+    const commit = await commitToBranch(db, opts.branch, head.id, {
+      projectId: opts.projectId,
+      parentCommitId: head.id,
+      message: opts.message,
+      createdBy: opts.userId,
+      snapshot: next,
+    });
+    if (commit) return { commitId: commit.id, skippedShotIds };
+  }
+  return { commitId: null, skippedShotIds: [], error: `Branch "${opts.branch}" kept moving` };
+}
+
+/**
+ * One-time backfill: give every project that only has a legacy
+ * `project_heads` row a default branch at that head. Idempotent.
+ */
+export async function backfillBranchesFromProjectHeads(db: any) {
+  await db.execute(sql`
+    INSERT INTO branches (project_id, name, head_commit_id)
+    SELECT ph.project_id, p.default_branch, ph.head_commit_id
+    FROM project_heads ph
+    JOIN projects p ON p.id = ph.project_id
+    ON CONFLICT (project_id, name) DO NOTHING
+  `);
+}
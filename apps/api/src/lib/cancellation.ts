@@ -0,0 +1,36 @@
+/**
+ * Job cancellation across processes. The API marks a job cancelled and
+ * publishes its ID on a Redis channel; every worker process subscribes and
+ * aborts the job if it is running there, which kills its FFmpeg process.
+ */
+import type IORedis from 'ioredis';
+
+export const JOB_CANCEL_CHANNEL = 'phork:job-cancel';
+
+// Jobs running in this process, by job ID
+const running = new Map<string, AbortController>();
+
+/** Register a job as running here; the signal aborts when it is cancelled */
+export function trackJob(jobId: string): AbortSignal {
+  const controller = new AbortController();
+  running.set(jobId, controller);
+  return controller.signal;
+}
+
+export function untrackJob(jobId: string) {
+  running.delete(jobId);
+}
+
+/** Subscribe a worker process to cancellations. Uses its own connection, as subscribers can't issue commands. */
+export async function listenForCancellations(connection: IORedis) {
+  const subscriber = connection.duplicate();
+  subscriber.on('message', (channel, jobId) => {
+    if (channel === JOB_CANCEL_CHANNEL) running.get(jobId)?.abort();
+  });
+  await subscriber.subscribe(JOB_CANCEL_CHANNEL);
+  return subscriber;
+}
+
+export async function publishCancellation(connection: IORedis, jobId: string) {
+  await connection.publish(JOB_CANCEL_CHANNEL, jobId);
+}
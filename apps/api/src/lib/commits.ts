@@ -0,0 +1,182 @@
+/**
+ * Commit helpers shared by plain saves, merges, reverts and cherry-picks.
+ * Every snapshot written to a branch goes through checkSnapshotAssets, and
+ * every commit is stored through insertCommit.
+ *
+ * Commits are never copied: a fork's branches point at its parent's commits,
+ * so a project's history is its own commits plus whatever its fork point
+ * descends from (see loadCommits).
+ */
+import { createHash } from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { assets, assetGrants, commits, projects } from '@phork/db';
+import type { TimelineSnapshot } from '@phork/shared';
+import { createSnapshot, snapshotAssetIds, upgradeSnapshot } from '@phork/shared';
+import { getProjectLineage } from './projects';
+
+export interface NewCommit {
+  projectId: string;
+  parentCommitId: string | null;
+  mergeParentCommitId?: string | null;
+  message?: string | null;
+  createdBy: string | null;
+  snapshot: unknown;
+}
+
+/** JSON with object keys sorted, so equal content always serializes the same */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((k) => value[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 over everything that makes a commit what it is, except its ID and
+ * time. `projectId` is part of it because a commit row belongs to exactly
+ * one project: history, branches and blame select commits by project_id.
+ * Forks share their parent's history by pointing at its rows (via
+ * fork_base_commit_id), not by saving the same content again, so identical
+ * saves in two projects must stay two commits.
+ */
+export function commitHash(commit: NewCommit): string {
+  return createHash('sha256').update(canonicalJson([
+    commit.projectId,
+    commit.parentCommitId,
+    commit.mergeParentCommitId ?? null,
+    commit.message ?? null,
+    commit.createdBy,
+    commit.snapshot,
+  ])).digest('hex');
+}
+
+/**
+ * Store a commit under its content hash. Saving identical content again
+ * (same project, parents, message, author and snapshot) returns the
+ * existing commit rather than a duplicate. Works inside a transaction.
+ */
+export async function insertCommit(db: any, values: NewCommit) {
+  const hash = commitHash(values);
+  const [created] = await db.insert(commits).values({ ...values, hash })
+    .onConflictDoNothing({ target: commits.hash })
+    .returning();
+  if (created) return created;
+  const [existing] = await db.select().from(commits).where(eq(commits.hash, hash)).limit(1);
+  return existing;
+}
+
+/** Whether one of `workspaceIds` holds a grant for an asset it doesn't own */
+export async function hasAssetGrant(db: any, assetId: string, workspaceIds: string[]): Promise<boolean> {
+  const [grant] = await db.select().from(assetGrants)
+    .where(and(eq(assetGrants.assetId, assetId), inArray(assetGrants.workspaceId, workspaceIds)))
+    .limit(1);
+  return Boolean(grant);
+}
+
+/**
+ * Every asset a snapshot references must be platform-minted and owned by
+ * (or granted to) one of `workspaceIds`. Returns an error body to send, or
+ * null if all pass.
+ */
+export async function checkSnapshotAssets(db: any, snapshot: TimelineSnapshot, workspaceIds: string[]) {
+  for (const assetId of snapshotAssetIds(snapshot)) {
+    const [asset] = await db.select().from(assets).where(eq(assets.id, assetId)).limit(1);
+    if (!asset || !asset.mintReceiptSig) {
+      return {
+        error: 'Bad Request',
+        message: `Asset ${assetId} not found or missing mint receipt. Only platform-generated assets are allowed.`,
+        statusCode: 400,
+      };
+    }
+    if (!workspaceIds.includes(asset.workspaceId) && !(await hasAssetGrant(db, assetId, workspaceIds))) {
+      return { error: 'Forbidden', message: 'Asset belongs to a different workspace', statusCode: 403 };
+    }
+  }
+  return null;
+}
+
+/** Snapshot of a commit's first parent; an empty timeline for a root commit */
+export async function parentSnapshot(db: any, commit: { parentCommitId: string | null }): Promise<TimelineSnapshot> {
+  if (!commit.parentCommitId) return createSnapshot();
+  const [parent] = await db.select({ snapshot: commits.snapshot })
+    .from(commits).where(eq(commits.id, commit.parentCommitId)).limit(1);
+  return parent ? upgradeSnapshot(parent.snapshot) : createSnapshot();
+}
+
+/**
+ * All commits in a project's history keyed by ID: the ones made in it, and
+ * for a fork every commit its fork point (or an upstream sync's merge
+ * parent) descends from in its ancestors.
+ * Forks made before history was shared hold their own copies instead.
+ */
+export async function loadCommits(db: any, projectId: string): Promise<Map<string, any>> {
+  const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  if (!project) return new Map();
+  const shared = Boolean(project.forkBaseCommitId && project.forkedFromCommitId);
+  const lineage = shared ? await getProjectLineage(db, projectId) : [projectId];
+  const rows = await db.select().from(commits).where(inArray(commits.projectId, lineage));
+
+  const all = new Map<string, any>(rows.map((c: any) => [c.id, c]));
+  const own = rows.filter((c: any) => c.projectId === projectId);
+  const byId = new Map<string, any>(own.map((c: any) => [c.id, c]));
+  // Inherited: the fork point's ancestry, and that of every upstream commit a sync merged in
+  const pending: string[] = shared
+    ? [project.forkedFromCommitId, ...own.map((c: any) => c.mergeParentCommitId).filter(Boolean)]
+    : [];
+  while (pending.length > 0) {
+    const commit = all.get(pending.pop()!);
+    if (!commit || byId.has(commit.id)) continue;
+    byId.set(commit.id, commit);
+    if (commit.parentCommitId) pending.push(commit.parentCommitId);
+    if (commit.mergeParentCommitId) pending.push(commit.mergeParentCommitId);
+  }
+  return byId;
+}
+
+/** Whether a commit is part of a project's history, made in it or inherited from its fork point */
+export async function projectHasCommit(db: any, projectId: string, commitId: string): Promise<boolean> {
+  const [commit] = await db.select({ projectId: commits.projectId }).from(commits).where(eq(commits.id, commitId)).limit(1);
+  if (!commit) return false;
+  if (commit.projectId === projectId) return true;
+
+  const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  if (!project?.forkBaseCommitId || !project.forkedFromCommitId) return false;
+  // Same walk as loadCommits, over the commit graph only (no snapshots)
+  const lineage = await getProjectLineage(db, projectId);
+  const edges = await db.select({
+    id: commits.id,
+    projectId: commits.projectId,
+    parentCommitId: commits.parentCommitId,
+    mergeParentCommitId: commits.mergeParentCommitId,
+  }).from(commits).where(inArray(commits.projectId, lineage));
+  const all = new Map<string, any>(edges.map((c: any) => [c.id, c]));
+
+  const pending: string[] = [
+    project.forkedFromCommitId,
+    ...edges.filter((c: any) => c.projectId === projectId).map((c: any) => c.mergeParentCommitId).filter(Boolean),
+  ];
+  const seen = new Set<string>();
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === commitId) return true;
+    const current = all.get(id);
+    if (!current || seen.has(id)) continue;
+    seen.add(id);
+    if (current.parentCommitId) pending.push(current.parentCommitId);
+    if (current.mergeParentCommitId) pending.push(current.mergeParentCommitId);
+  }
+  return false;
+}
+
+/** Commits from `commitId` back to the root following first parents, newest first */
+export function firstParentChain(byId: Map<string, any>, commitId: string): any[] {
+  const chain: any[] = [];
+  let current = byId.get(commitId);
+  while (current) {
+    chain.push(current);
+    current = current.parentCommitId ? byId.get(current.parentCommitId) : undefined;
+  }
+  return chain;
+}
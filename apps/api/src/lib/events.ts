@@ -0,0 +1,101 @@
+/**
+ * Job status changes and progress, fanned out over Redis pub/sub. Workers
+ * and the jobs routes publish; each API process holds one subscriber that
+ * feeds its open SSE streams (GET /jobs/events).
+ */
+import type IORedis from 'ioredis';
+import type { JobEvent, JobProgress } from '@phork/shared';
+
+export const JOB_EVENTS_CHANNEL = 'phork:job-events';
+
+/** Build the event for a `jobs` row, optionally with the running stage */
+export function jobEvent(job: any, progress: JobProgress | null = null): JobEvent {
+  return {
+    jobId: job.id,
+    workspaceId: job.workspaceId,
+    projectId: job.projectId,
+    type: job.type,
+    status: job.status,
+    progress,
+    result: job.result ?? null,
+    error: job.error ?? null,
+  };
+}
+
+/** Fire and forget: a lost event only delays a client until the next one */
+export function publishJobEvent(connection: IORedis, event: JobEvent) {
+  connection.publish(JOB_EVENTS_CHANNEL, JSON.stringify(event)).catch((err) => {
+    console.warn(`publishJobEvent: ${event.jobId} —`, err.message);
+  });
+}
+
+/**
+ * Reports a running job's progress as a series of stages, each covering a
+ * slice of 0–100%. Updates are throttled to whole-percent steps.
+ */
+export function createProgressReporter(connection: IORedis, job: any) {
+  let current: JobProgress = { stage: '', percent: -1 };
+
+  const report = (stage: string, percent: number) => {
+    const rounded = Math.floor(percent);
+    if (stage === current.stage && rounded <= current.percent) return;
+    current = { stage, percent: rounded };
+    publishJobEvent(connection, jobEvent(job, current));
+  };
+
+  return {
+    /** Enter a stage spanning `from`–`to` percent; the callback takes a 0–1 fraction within it */
+    stage(name: string, from: number, to: number) {
+      report(name, from);
+      return (fraction: number) => report(name, from + (to - from) * Math.min(1, Math.max(0, fraction)));
+    },
+  };
+}
+
+export type ProgressReporter = ReturnType<typeof createProgressReporter>;
+
+type JobEventListener = (event: JobEvent) => void;
+
+const listeners = new Set<JobEventListener>();
+// Resolves once the shared subscription is open; every caller awaits the same one
+let subscribed: Promise<unknown> | null = null;
+
+/**
+ * Receive every job event in this process. The Redis subscription opens
+ * with the first listener and is shared by all of them. Returns an
+ * unsubscribe function once the subscription is open.
+ */
+export async function subscribeJobEvents(connection: IORedis, listener: JobEventListener) {
+  if (!subscribed) {
+    const subscriber = connection.duplicate();
+    subscriber.on('message', (channel, message) => {
+      if (channel !== JOB_EVENTS_CHANNEL) return;
+      let event: JobEvent;
+      try {
+        event = JSON.parse(message) as JobEvent;
+      } catch (err: any) {
+        console.warn('subscribeJobEvents: unreadable event —', err.message);
+        return;
+      }
+      // One broken stream must not keep the event from the others
+      for (const notify of listeners) {
+        try {
+          notify(event);
+        } catch (err: any) {
+          console.warn(`subscribeJobEvents: listener failed on ${event.jobId} —`, err.message);
+        }
+      }
+    });
+    subscribed = subscriber.subscribe(JOB_EVENTS_CHANNEL).catch((err) => {
+      // Let the next caller try again on a fresh connection
+      subscribed = null;
+      subscriber.disconnect();
+      throw err;
+    });
+  }
+  await subscribed;
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Merges between a fork and its parent project: merge requests carry fork
+ * commits upstream, upstream syncs pull parent commits into the fork.
+ * The common ancestor is the last commit exchanged between the two
+ * histories (a merged merge request or a sync), or else the commit the
+ * fork's history starts from: the fork point it shares with its parent, or
+ * the truncated copy made at fork time. Older forks copied their history
+ * with new commit IDs; for those the fork's copy of the fork point is found
+ * by its depth.
+ */
+import { and, desc, eq } from 'drizzle-orm';
+import { commits, mergeRequests, projects } from '@phork/db';
+import type { MergeResolution, MergeResult, TimelineSnapshot } from '@phork/shared';
+import { createSnapshot, mergeSnapshots, upgradeSnapshot } from '@phork/shared';
+import { getBranchHeadCommitId } from './branches';
+import { loadCommits, firstParentChain } from './commits';
+
+export interface ForkMergeBase {
+  /** Commit whose snapshot is the merge base (in either project) */
+  commitId: string;
+  snapshot: TimelineSnapshot;
+  /** The upstream commit the fork already contains; later upstream commits are new to the fork */
+  upstreamCommitId: string;
+}
+
+/**
+ * Common ancestor of a fork commit and an upstream (parent project) commit.
+ * Walks the fork's history newest first and stops at the first commit that
+ * was exchanged with the upstream history: a commit merged upstream by a
+ * merge request, or a sync merge that pulled an upstream commit in. Falls
+ * back to the fork's copy of the commit it was forked from. Returns null if
+ * no common ancestor can be located.
+ */
+export async function findForkMergeBase(
+  db: any,
+  fork: { id: string; parentProjectId: string | null; forkedFromCommitId: string | null; forkBaseCommitId?: string | null },
+  forkCommitId: string,
+  upstreamHeadCommitId: string,
+): Promise<ForkMergeBase | null> {
+  if (!fork.parentProjectId) return null;
+
+  const forkCommits = await loadCommits(db, fork.id);
+  const upstreamCommits = await loadCommits(db, fork.parentProjectId);
+  const forkChain = firstParentChain(forkCommits, forkCommitId);
+  const upstreamIds = new Set(firstParentChain(upstreamCommits, upstreamHeadCommitId).map((c) => c.id));
+
+  const merged = await db.select().from(mergeRequests)
+    .where(and(
+      eq(mergeRequests.sourceProjectId, fork.id),
+      eq(mergeRequests.targetProjectId, fork.parentProjectId),
+      eq(mergeRequests.status, 'merged'),
+    ))
+    .orderBy(desc(mergeRequests.mergedAt));
+  const mergedBySource = new Map<string, any>();
+  for (const mr of merged) {
+    if (mr.mergeCommitId && upstreamIds.has(mr.mergeCommitId) && !mergedBySource.has(mr.sourceCommitId)) {
+      mergedBySource.set(mr.sourceCommitId, mr);
+    }
+  }
+
+  for (const commit of forkChain) {
+    // Merged upstream: the upstream merge commit contains this fork commit
+    const mr = mergedBySource.get(commit.id);
+    if (mr) {
+      return { commitId: commit.id, snapshot: upgradeSnapshot(commit.snapshot), upstreamCommitId: mr.mergeCommitId };
+    }
+    // Synced from upstream: this fork commit contains the upstream commit
+    if (commit.mergeParentCommitId && upstreamIds.has(commit.mergeParentCommitId)) {
+      const upstream = upstreamCommits.get(commit.mergeParentCommitId);
+      return { commitId: upstream.id, snapshot: upgradeSnapshot(upstream.snapshot), upstreamCommitId: upstream.id };
+    }
+    // Where the fork's shared history starts; a truncation commit sits on top of the fork point
+    if (commit.id === fork.forkBaseCommitId) {
+      const upstreamCommitId = commit.projectId === fork.id ? commit.parentCommitId : commit.id;
+      return { commitId: commit.id, snapshot: upgradeSnapshot(commit.snapshot), upstreamCommitId };
+    }
+  }
+  if (fork.forkBaseCommitId) return null;
+
+  if (!fork.forkedFromCommitId || !upstreamCommits.has(fork.forkedFromCommitId)) return null;
+
+  // A copied history: the fork's copy of the fork point sits at the same depth as the original
+  const depth = firstParentChain(upstreamCommits, fork.forkedFromCommitId).length - 1;
+  const fromRoot = [...forkChain].reverse();
+  const base = fromRoot.length > depth ? fromRoot[depth] : upstreamCommits.get(fork.forkedFromCommitId);
+  return { commitId: base.id, snapshot: upgradeSnapshot(base.snapshot), upstreamCommitId: fork.forkedFromCommitId };
+}
+
+/** Upstream commits after `sinceCommitId` on the first-parent chain of `headCommitId`, newest first */
+export async function upstreamCommitsSince(db: any, projectId: string, headCommitId: string, sinceCommitId: string | null) {
+  const chain = firstParentChain(await loadCommits(db, projectId), headCommitId);
+  const index = sinceCommitId ? chain.findIndex((c) => c.id === sinceCommitId) : -1;
+  return index >= 0 ? chain.slice(0, index) : chain;
+}
+
+export interface MergePreview {
+  baseCommitId: string | null;
+  targetHeadCommitId: string;
+  targetSnapshot: TimelineSnapshot;
+  result: MergeResult;
+}
+
+/**
+ * Three-way merge of a merge request's source commit into the current head
+ * of its target branch. Returns null if the target branch no longer exists.
+ */
+export async function previewMergeRequest(
+  db: any,
+  mr: any,
+  resolutions: Record<string, MergeResolution> = {},
+): Promise<MergePreview | null> {
+  const targetHeadCommitId = await getBranchHeadCommitId(db, mr.targetProjectId, mr.targetBranch);
+  if (!targetHeadCommitId) return null;
+
+  const [fork] = await db.select().from(projects).where(eq(projects.id, mr.sourceProjectId)).limit(1);
+  const [targetHead] = await db.select().from(commits).where(eq(commits.id, targetHeadCommitId)).limit(1);
+  const [source] = await db.select().from(commits).where(eq(commits.id, mr.sourceCommitId)).limit(1);
+
+  const base = await findForkMergeBase(db, fork, mr.sourceCommitId, targetHeadCommitId);
+  const targetSnapshot = upgradeSnapshot(targetHead.snapshot);
+  // Without a known ancestor every shot on either side counts as an addition
+  const result = mergeSnapshots(
+    base?.snapshot || createSnapshot(),
+    targetSnapshot,
+    upgradeSnapshot(source.snapshot),
+    resolutions,
+  );
+
+  return { baseCommitId: base?.commitId || null, targetHeadCommitId, targetSnapshot, result };
+}
+
+export interface SyncPreview extends MergePreview {
+  upstreamHeadCommitId: string;
+  /** Upstream commits the fork branch doesn't contain yet, newest first */
+  behind: any[];
+}
+
+/**
+ * Three-way merge of an upstream commit (a parent branch head, by default
+ * the default branch's) into a fork branch: the fork is the target, the
+ * upstream commit the source. Returns null if either doesn't exist.
+ */
+export async function previewUpstreamSync(
+  db: any,
+  fork: any,
+  branchName: string,
+  upstream: { branch?: string; commitId?: string },
+  resolutions: Record<string, MergeResolution> = {},
+): Promise<SyncPreview | null> {
+  const targetHeadCommitId = await getBranchHeadCommitId(db, fork.id, branchName);
+  const upstreamHeadCommitId = upstream.commitId || await getBranchHeadCommitId(db, fork.parentProjectId, upstream.branch);
+  if (!targetHeadCommitId || !upstreamHeadCommitId) return null;
+
+  const [targetHead] = await db.select().from(commits).where(eq(commits.id, targetHeadCommitId)).limit(1);
+  const [upstreamHead] = await db.select().from(commits).where(eq(commits.id, upstreamHeadCommitId)).limit(1);
+
+  const base = await findForkMergeBase(db, fork, targetHeadCommitId, upstreamHeadCommitId);
+  const behind = await upstreamCommitsSince(db, fork.parentProjectId, upstreamHeadCommitId, base?.upstreamCommitId || null);
+  const targetSnapshot = upgradeSnapshot(targetHead.snapshot);
+  const result = mergeSnapshots(
+    base?.snapshot || createSnapshot(),
+    targetSnapshot,
+    upgradeSnapshot(upstreamHead.snapshot),
+    resolutions,
+  );
+
+  return { baseCommitId: base?.commitId || null, targetHeadCommitId, targetSnapshot, result, upstreamHeadCommitId, behind };
+}
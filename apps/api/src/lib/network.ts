@@ -0,0 +1,100 @@
+/**
+ * Fork network: a project's ancestors (via `projects.parent_project_id`) and
+ * every fork below it, each with its fork point, default-branch head,
+ * publish state and render count. Loaded level by level, a few batched
+ * queries per generation.
+ */
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { projects, commits, branches, publishedRenders, jobs, workspaceMembers } from '@phork/db';
+import type { ForkNetwork, ForkNetworkCommit, ForkNetworkNode } from '@phork/shared';
+import { getProjectLineage } from './projects';
+
+export async function buildForkNetwork(db: any, projectId: string, userId: string): Promise<ForkNetwork> {
+  // Nearest first: [project, parent, ..., root]
+  const lineage = await getProjectLineage(db, projectId);
+  const ancestorIds = lineage.slice(1).reverse();
+
+  const descendantIds: string[] = [];
+  let frontier = [projectId];
+  const seen = new Set(lineage);
+  while (frontier.length > 0) {
+    const children = await db.select({ id: projects.id }).from(projects)
+      .where(inArray(projects.parentProjectId, frontier));
+    frontier = children.map((c: any) => c.id).filter((id: string) => !seen.has(id));
+    for (const id of frontier) {
+      seen.add(id);
+      descendantIds.push(id);
+    }
+  }
+
+  const ids = [...ancestorIds, projectId, ...descendantIds];
+  const rows = await db.select().from(projects).where(inArray(projects.id, ids));
+  const byId = new Map<string, any>(rows.map((p: any) => [p.id, p]));
+
+  const workspaceIds: string[] = [...new Set<string>(rows.map((p: any) => p.workspaceId))];
+  const memberships = await db.select({ workspaceId: workspaceMembers.workspaceId }).from(workspaceMembers)
+    .where(and(eq(workspaceMembers.userId, userId), inArray(workspaceMembers.workspaceId, workspaceIds)));
+  const memberOf = new Set(memberships.map((m: any) => m.workspaceId));
+
+  const branchRows = await db.select().from(branches).where(inArray(branches.projectId, ids));
+  const headIds = new Map<string, string>();
+  for (const b of branchRows) {
+    if (b.name === byId.get(b.projectId)?.defaultBranch) headIds.set(b.projectId, b.headCommitId);
+  }
+
+  const commitIds = [...new Set([
+    ...headIds.values(),
+    ...rows.map((p: any) => p.forkedFromCommitId).filter(Boolean),
+  ])] as string[];
+  const commitRows = commitIds.length > 0
+    ? await db.select({ id: commits.id, message: commits.message, createdAt: commits.createdAt })
+      .from(commits).where(inArray(commits.id, commitIds))
+    : [];
+  const commitById = new Map<string, ForkNetworkCommit>(commitRows.map((c: any) => [c.id, c]));
+
+  const published = await db.select({
+    projectId: publishedRenders.projectId,
+    title: publishedRenders.title,
+    publishedAt: publishedRenders.publishedAt,
+  }).from(publishedRenders).where(inArray(publishedRenders.projectId, ids));
+  const publishedById = new Map<string, any>(published.map((p: any) => [p.projectId, p]));
+
+  const renders = await db.select({ projectId: jobs.projectId, count: sql<number>`count(*)::int` })
+    .from(jobs)
+    .where(and(inArray(jobs.projectId, ids), eq(jobs.type, 'render'), eq(jobs.status, 'succeeded')))
+    .groupBy(jobs.projectId);
+  const renderCounts = new Map<string, number>(renders.map((r: any) => [r.projectId, r.count]));
+
+  const forks = await db.select({ parentProjectId: projects.parentProjectId, count: sql<number>`count(*)::int` })
+    .from(projects)
+    .where(inArray(projects.parentProjectId, ids))
+    .groupBy(projects.parentProjectId);
+  const forkCounts = new Map<string, number>(forks.map((f: any) => [f.parentProjectId, f.count]));
+
+  const depths = new Map<string, number>();
+  const nodes: ForkNetworkNode[] = ids.filter((id) => byId.has(id)).map((id) => {
+    const project = byId.get(id);
+    const depth = project.parentProjectId && depths.has(project.parentProjectId)
+      ? depths.get(project.parentProjectId)! + 1
+      : 0;
+    depths.set(id, depth);
+    const accessible = memberOf.has(project.workspaceId);
+    const pub = publishedById.get(id);
+    return {
+      projectId: id,
+      name: project.name,
+      parentProjectId: project.parentProjectId,
+      depth,
+      relation: id === projectId ? 'self' : ancestorIds.includes(id) ? 'ancestor' : 'descendant',
+      accessible,
+      createdAt: project.createdAt,
+      forkPoint: accessible && project.forkedFromCommitId ? commitById.get(project.forkedFromCommitId) || null : null,
+      head: accessible ? commitById.get(headIds.get(id) || '') || null : null,
+      published: accessible && pub ? { title: pub.title, publishedAt: pub.publishedAt } : null,
+      renderCount: renderCounts.get(id) || 0,
+      forkCount: forkCounts.get(id) || 0,
+    };
+  });
+
+  return { projectId, rootProjectId: lineage[lineage.length - 1], nodes };
+}
@@ -0,0 +1,289 @@
+/**
+ * Pipelines: a graph of steps in which later steps take earlier steps'
+ * outputs through `{ "$ref": "<step>.<output>" }` params. Steps are grouped
+ * into levels by depth, and each level is added as one BullMQ flow: its
+ * steps are the children of an `advance` job on the pipeline queue, which
+ * runs once they have all finished. That job records their outcomes, skips
+ * (and refunds) every step downstream of one that did not succeed, and adds
+ * the next level.
+ *
+ * Generation and render steps are ordinary jobs, charged when the pipeline
+ * is created; commit and publish steps run in the pipeline worker.
+ */
+import type { FlowChildJob, FlowProducer } from 'bullmq';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { jobs, pipelines, pipelineSteps } from '@phork/db';
+import type IORedis from 'ioredis';
+import type { Pipeline, PipelineStep, PipelineStepType } from '@phork/shared';
+import { PIPELINE_STEP_OUTPUTS, isJobStep, isTerminalJobStatus } from '@phork/shared';
+import { resolveCommitRef } from './branches';
+import { announceSettledJob } from './batches';
+import { jobEvent, publishJobEvent } from './events';
+import { refundJob } from './refund';
+
+export const PIPELINE_QUEUE = 'pipeline';
+
+// An advance job is keyed by pipeline and level, so a retry can't launch the next level twice
+const ADVANCE_ATTEMPTS = 5;
+const ADVANCE_BACKOFF = { type: 'exponential', delay: 2000 };
+
+export interface StepDefinition {
+  id: string;
+  type: PipelineStepType;
+  dependsOn?: string[];
+  params: Record<string, unknown>;
+}
+
+/** Every `$ref` in a step's params, as [step, output] pairs */
+export function stepRefs(params: unknown): Array<[string, string]> {
+  if (Array.isArray(params)) return params.flatMap(stepRefs);
+  if (params && typeof params === 'object') {
+    const ref = (params as any).$ref;
+    if (typeof ref === 'string') return [ref.split('.') as [string, string]];
+    return Object.values(params).flatMap(stepRefs);
+  }
+  return [];
+}
+
+/** Replace `$ref` params with the outputs they point at */
+export function resolveStepRefs(params: any, outputs: Map<string, any>): any {
+  if (Array.isArray(params)) return params.map((p) => resolveStepRefs(p, outputs));
+  if (params && typeof params === 'object') {
+    if (typeof params.$ref === 'string') {
+      const [stepId, output] = params.$ref.split('.');
+      return outputs.get(stepId)?.[output] ?? null;
+    }
+    return Object.fromEntries(Object.entries(params).map(([k, v]) => [k, resolveStepRefs(v, outputs)]));
+  }
+  return params;
+}
+
+/**
+ * Check the step graph and work out each step's dependencies (explicit ones
+ * plus every step it references) and level. Returns an error message for
+ * unknown steps, outputs a step doesn't produce, and cycles.
+ */
+export function planPipeline(steps: StepDefinition[]):
+  { error: string } | { plan: Map<string, { dependsOn: string[]; level: number }> } {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  if (byId.size !== steps.length) return { error: 'Step IDs must be unique' };
+
+  const deps = new Map<string, string[]>();
+  for (const step of steps) {
+    for (const [refId, output] of stepRefs(step.params)) {
+      const target = byId.get(refId);
+      if (!target) return { error: `Step "${step.id}" references unknown step "${refId}"` };
+      if (!PIPELINE_STEP_OUTPUTS[target.type].includes(output)) {
+        return { error: `Step "${step.id}" references "${refId}.${output}", but ${target.type} steps output ${PIPELINE_STEP_OUTPUTS[target.type].join(', ')}` };
+      }
+    }
+    const stepDeps = [...new Set([...(step.dependsOn || []), ...stepRefs(step.params).map(([refId]) => refId)])];
+    const unknown = stepDeps.find((id) => !byId.has(id));
+    if (unknown) return { error: `Step "${step.id}" depends on unknown step "${unknown}"` };
+    deps.set(step.id, stepDeps);
+  }
+
+  // Level = longest dependency chain below the step
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  const levelOf = (id: string): number | null => {
+    if (levels.has(id)) return levels.get(id)!;
+    if (visiting.has(id)) return null;
+    visiting.add(id);
+    let level = 0;
+    for (const dep of deps.get(id)!) {
+      const depLevel = levelOf(dep);
+      if (depLevel === null) return null;
+      level = Math.max(level, depLevel + 1);
+    }
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+  const plan = new Map<string, { dependsOn: string[]; level: number }>();
+  for (const step of steps) {
+    const level = levelOf(step.id);
+    if (level === null) return { error: `Steps depend on each other in a cycle (through "${step.id}")` };
+    plan.set(step.id, { dependsOn: deps.get(step.id)!, level });
+  }
+  return { plan };
+}
+
+export async function loadPipelineSteps(db: any, pipelineId: string) {
+  return db.select().from(pipelineSteps)
+    .where(eq(pipelineSteps.pipelineId, pipelineId))
+    .orderBy(asc(pipelineSteps.position));
+}
+
+/** Outputs of the steps that have succeeded so far, by step ID */
+export function stepOutputs(steps: any[]) {
+  return new Map(steps.filter((s) => s.status === 'succeeded').map((s) => [s.stepId, s.output || {}]));
+}
+
+async function updateStep(db: any, step: any, values: Record<string, unknown>) {
+  await db.update(pipelineSteps).set({ ...values, updatedAt: new Date() }).where(eq(pipelineSteps.id, step.id));
+}
+
+/**
+ * Settle a step that will never run. A generation or render step's job is
+ * closed out (failed, or cancelled when skipped) and refunded.
+ */
+async function abandonStep(db: any, connection: IORedis, step: any, status: 'failed' | 'skipped', message: string) {
+  await updateStep(db, step, { status, error: { message } });
+  if (!step.jobId) return;
+  const [job] = await db.update(jobs).set({
+    status: status === 'skipped' ? 'cancelled' : 'failed',
+    error: { message },
+    updatedAt: new Date(),
+  }).where(and(eq(jobs.id, step.jobId), eq(jobs.status, 'queued'))).returning();
+  if (!job) return;
+  await announceSettledJob(db, connection, job);
+  await refundJob(db, job, `${job.type} ${status === 'skipped' ? 'skipped' : 'failed'} in pipeline: ${message.substring(0, 100)}`);
+}
+
+/**
+ * Queue the pending steps of one level, with `$ref` params filled in from
+ * earlier outputs, as a flow under that level's `advance` job.
+ */
+export async function launchPipelineLevel(db: any, connection: IORedis, flows: FlowProducer, pipeline: any, level: number) {
+  const steps = await loadPipelineSteps(db, pipeline.id);
+  const outputs = stepOutputs(steps);
+  const children: FlowChildJob[] = [];
+  // The advance job still runs if a step's queue job errors out, and reads the outcome from the database
+  const childOpts = { ignoreDependencyOnFailure: true };
+
+  for (const step of steps.filter((s: any) => s.level === level && s.status === 'pending')) {
+    const params = resolveStepRefs(step.params, outputs);
+
+    if (!isJobStep(step.type)) {
+      await updateStep(db, step, { status: 'queued' });
+      children.push({ name: step.type, queueName: PIPELINE_QUEUE, data: { pipelineId: pipeline.id, stepId: step.stepId }, opts: childOpts });
+      continue;
+    }
+
+    let request = params;
+    if (step.type === 'render') {
+      // As with POST /jobs/render, a branch or tag is pinned to its commit when queued
+      const commitId = await resolveCommitRef(db, pipeline.projectId, { commitId: params.commitId, branch: params.branch, tag: params.tag });
+      if (!commitId) {
+        await abandonStep(db, connection, step, 'failed', 'Commit to render not found');
+        continue;
+      }
+      request = { ...params, commitId };
+    }
+
+    const [job] = await db.update(jobs).set({ request, updatedAt: new Date() })
+      .where(and(eq(jobs.id, step.jobId), eq(jobs.status, 'queued')))
+      .returning();
+    if (!job) {
+      // Cancelled while waiting for its turn
+      const [current] = await db.select().from(jobs).where(eq(jobs.id, step.jobId)).limit(1);
+      await updateStep(db, step, { status: current.status, error: current.error });
+      continue;
+    }
+    await updateStep(db, step, { status: 'queued' });
+    children.push({
+      name: job.type,
+      queueName: job.type === 'render' ? 'render' : 'generation',
+      data: { jobId: job.id },
+      opts: { ...childOpts, jobId: job.id },
+    });
+    publishJobEvent(connection, jobEvent(job));
+  }
+
+  await flows.add({
+    name: 'advance',
+    queueName: PIPELINE_QUEUE,
+    data: { pipelineId: pipeline.id, level },
+    opts: { jobId: `${pipeline.id}-${level}`, attempts: ADVANCE_ATTEMPTS, backoff: ADVANCE_BACKOFF },
+    children,
+  });
+}
+
+/**
+ * Runs when every step of `level` has finished: record their outcomes, skip
+ * whatever depends on a step that did not succeed, then launch the next
+ * level or settle the pipeline.
+ */
+export async function advancePipeline(db: any, connection: IORedis, flows: FlowProducer, pipelineId: string, level: number) {
+  const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, pipelineId)).limit(1);
+  if (!pipeline || pipeline.status !== 'running') return;
+
+  const steps = await loadPipelineSteps(db, pipelineId);
+  const jobIds = steps.filter((s: any) => s.level === level && s.jobId).map((s: any) => s.jobId);
+  const stepJobs = jobIds.length > 0 ? await db.select().from(jobs).where(inArray(jobs.id, jobIds)) : [];
+  const jobsById = new Map(stepJobs.map((j: any) => [j.id, j]));
+
+  for (const step of steps.filter((s: any) => s.level === level && !['succeeded', 'skipped'].includes(s.status))) {
+    const job: any = step.jobId && jobsById.get(step.jobId);
+    if (job && isTerminalJobStatus(job.status)) {
+      Object.assign(step, { status: job.status, output: job.result, error: job.error });
+      await updateStep(db, step, { status: job.status, output: job.result, error: job.error });
+    } else if (!isTerminalJobStatus(step.status)) {
+      // Its queue job gave up without settling it
+      step.status = 'failed';
+      await abandonStep(db, connection, step, 'failed', 'Step did not finish');
+    }
+  }
+
+  // In level order, so a skip carries on to the steps that depend on the skipped one
+  const byId = new Map(steps.map((s: any) => [s.stepId, s]));
+  const didNotSucceed = (s: any) => s.status === 'skipped' || (s.level <= level && s.status !== 'succeeded');
+  for (const step of [...steps].sort((a: any, b: any) => a.level - b.level)) {
+    if (step.status !== 'pending') continue;
+    const upstream: any = step.dependsOn.map((id: string) => byId.get(id)).find(didNotSucceed);
+    if (upstream) {
+      step.status = 'skipped';
+      await abandonStep(db, connection, step, 'skipped', `Upstream step "${upstream.stepId}" ${upstream.status}`);
+    }
+  }
+
+  const lastLevel = Math.max(...steps.map((s: any) => s.level));
+  if (level < lastLevel) {
+    await launchPipelineLevel(db, connection, flows, pipeline, level + 1);
+    return;
+  }
+  await db.update(pipelines).set({
+    status: steps.every((s: any) => s.status === 'succeeded') ? 'succeeded' : 'failed',
+    updatedAt: new Date(),
+  }).where(and(eq(pipelines.id, pipelineId), eq(pipelines.status, 'running')));
+}
+
+/**
+ * Give up on a pipeline whose advance job failed for good: it ends
+ * `failed`, and every step still waiting for its level is skipped and
+ * refunded.
+ */
+export async function failPipeline(db: any, connection: IORedis, pipelineId: string, message: string) {
+  const [failed] = await db.update(pipelines).set({ status: 'failed', updatedAt: new Date() })
+    .where(and(eq(pipelines.id, pipelineId), eq(pipelines.status, 'running')))
+    .returning();
+  if (!failed) return;
+  const steps = await loadPipelineSteps(db, pipelineId);
+  for (const step of steps.filter((s: any) => s.status === 'pending')) {
+    await abandonStep(db, connection, step, 'skipped', `Pipeline failed: ${message}`);
+  }
+}
+
+/** A pipeline with its steps; a queued or running step reports its job's live status */
+export function describePipeline(pipeline: any, steps: any[], stepJobs: any[]): Pipeline {
+  const jobsById = new Map(stepJobs.map((j) => [j.id, j]));
+  return {
+    ...pipeline,
+    steps: steps.map((step): PipelineStep => {
+      const job = step.jobId && jobsById.get(step.jobId);
+      const live = job && (step.status === 'queued' || step.status === 'running');
+      return {
+        id: step.stepId,
+        type: step.type,
+        dependsOn: step.dependsOn,
+        level: step.level,
+        params: step.params,
+        status: live ? job.status : step.status,
+        jobId: step.jobId,
+        output: (live ? job.result : step.output) ?? null,
+        error: (live ? job.error : step.error) ?? null,
+      };
+    }),
+  };
+}
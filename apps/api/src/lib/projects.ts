@@ -0,0 +1,38 @@
+import { and, eq } from 'drizzle-orm';
+import { projects, publishedRenders, workspaceMembers } from '@phork/db';
+
+/** Load a project and the caller's membership in its workspace */
+export async function getProjectForMember(db: any, projectId: string, userId: string) {
+  const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  if (!project) return { project: null, membership: null };
+  const [membership] = await db.select().from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, project.workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+  return { project, membership: membership || null };
+}
+
+/**
+ * A project followed by its fork ancestors, nearest first. The last entry
+ * is the root of the fork family.
+ */
+export async function getProjectLineage(db: any, projectId: string): Promise<string[]> {
+  const lineage: string[] = [];
+  let currentId: string | null = projectId;
+  while (currentId && !lineage.includes(currentId)) {
+    lineage.push(currentId);
+    const [project]: any[] = await db.select({ parentProjectId: projects.parentProjectId })
+      .from(projects).where(eq(projects.id, currentId)).limit(1);
+    currentId = project?.parentProjectId || null;
+  }
+  return lineage;
+}
+
+/**
+ * The commit a project shares with people outside its workspace: the one
+ * behind its published render, if that has a share link. It is the only
+ * commit outsiders may fork, sync from or cherry-pick.
+ */
+export async function getSharedCommitId(db: any, projectId: string): Promise<string | null> {
+  const [pub] = await db.select().from(publishedRenders).where(eq(publishedRenders.projectId, projectId)).limit(1);
+  return pub?.shareToken ? pub.commitId : null;
+}
@@ -0,0 +1,34 @@
+import { randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { publishedRenders } from '@phork/db';
+
+/**
+ * Publish a render of a commit, replacing the project's current published
+ * render (there is one per project). The caller checks the render asset and
+ * that the commit is in the project.
+ */
+export async function publishRender(db: any, opts: {
+  project: any;
+  renderAssetId: string;
+  commitId: string;
+  userId: string;
+  title?: string;
+  description?: string;
+  enableShareLink?: boolean;
+}) {
+  const shareToken = opts.enableShareLink ? randomBytes(24).toString('base64url') : null;
+
+  // Upsert (delete existing + insert, since one published render per project)
+  await db.delete(publishedRenders).where(eq(publishedRenders.projectId, opts.project.id));
+
+  const [pub] = await db.insert(publishedRenders).values({
+    projectId: opts.project.id,
+    renderAssetId: opts.renderAssetId,
+    commitId: opts.commitId,
+    title: opts.title || opts.project.name,
+    description: opts.description || opts.project.description,
+    shareToken,
+    publishedBy: opts.userId,
+  }).returning();
+  return pub;
+}
@@ -1,4 +1,4 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, FlowProducer } from 'bullmq';
 import IORedis from 'ioredis';
 import { config } from '../config';
 
@@ -6,6 +6,8 @@ const connection = new IORedis(config.redisUrl, { maxRetriesPerRequest: null });
 
 export const generationQueue = new Queue('generation', { connection });
 export const renderQueue = new Queue('render', { connection });
+// Pipelines add their steps to the queues above as BullMQ flows
+export const flowProducer = new FlowProducer({ connection });
 
 export function getConnection() {
   return connection;
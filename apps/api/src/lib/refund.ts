@@ -21,8 +21,8 @@
 import type { Database } from '@phork/db';
 import { sql } from 'drizzle-orm';
 
-// Cost table — must match jobs.ts
-const JOB_COSTS: Record<string, number> = {
+// Cost table, charged up front by the jobs and pipelines routes
+export const JOB_COSTS: Record<string, number> = {
   gen_image: 10,
   gen_video: 25,
   gen_audio: 5,
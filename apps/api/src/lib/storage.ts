@@ -14,6 +14,11 @@ export async function saveAsset(assetId: string, data: Buffer, extension: string
   return filepath;
 }
 
+/** Remove a stored file; a file that is already gone is not an error */
+export async function deleteAsset(filepath: string): Promise<void> {
+  await fs.rm(filepath, { force: true });
+}
+
 export async function getAssetPath(assetId: string, extension: string): Promise<string> {
   const dir = path.join(STORAGE_ROOT, assetId.substring(0, 2));
   return path.join(dir, `${assetId}.${extension}`);
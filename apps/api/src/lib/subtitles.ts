@@ -0,0 +1,108 @@
+import type { ShotSnapshot, SubtitleStyle } from '@phork/shared';
+import { shotStartTimesMs, transitionOverlapMs } from '@phork/shared';
+
+export interface SubtitleCue {
+  index: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontName: 'Arial',
+  fontSize: 24,
+  primaryColor: '#FFFFFF',
+  outlineColor: '#000000',
+  outline: 2,
+  position: 'bottom',
+  marginV: 30,
+};
+
+/**
+ * One cue per shot with a subtitle. A cue runs from the shot's start on the
+ * output timeline until the next shot's transition begins.
+ */
+export function buildSubtitleCues(timeline: ShotSnapshot[]): SubtitleCue[] {
+  const starts = shotStartTimesMs(timeline);
+  const cues: SubtitleCue[] = [];
+
+  timeline.forEach((shot, i) => {
+    const text = shot.subtitle?.trim();
+    if (!text) return;
+    const endMs = starts[i] + shot.duration_ms - transitionOverlapMs(timeline, i + 1);
+    cues.push({ index: cues.length + 1, startMs: starts[i], endMs, text });
+  });
+
+  return cues;
+}
+
+function formatTimestamp(ms: number, fractionSeparator: ',' | '.'): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * A cue's text as non-blank lines, since a blank line ends the cue. A line
+ * of digits alone would read as the next cue's number, so it gets a
+ * trailing no-break space.
+ */
+function cueLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => (/^\d+$/.test(line) ? `${line}\u00A0` : line));
+}
+
+/** SRT has no escapes; an arrow in the text would read as a timing line */
+function srtText(text: string): string {
+  return cueLines(text).map((line) => line.replace(/-->/g, '->')).join('\n');
+}
+
+/** WebVTT cue text is markup: escaping `<` and `>` also covers `-->` */
+function webVttText(text: string): string {
+  return cueLines(text)
+    .map((line) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'))
+    .join('\n');
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((c) => `${c.index}\n${formatTimestamp(c.startMs, ',')} --> ${formatTimestamp(c.endMs, ',')}\n${srtText(c.text)}\n`)
+    .join('\n');
+}
+
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((c) => `${c.index}\n${formatTimestamp(c.startMs, '.')} --> ${formatTimestamp(c.endMs, '.')}\n${webVttText(c.text)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/** '#RRGGBB' → ASS '&H00BBGGRR' */
+function toAssColor(hex: string): string {
+  const rgb = hex.replace('#', '');
+  return `&H00${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+}
+
+const ASS_ALIGNMENT: Record<SubtitleStyle['position'], number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+/** force_style value for FFmpeg's subtitles filter */
+export function toForceStyle(style: SubtitleStyle): string {
+  return [
+    `FontName=${style.fontName}`,
+    `FontSize=${style.fontSize}`,
+    `PrimaryColour=${toAssColor(style.primaryColor)}`,
+    `OutlineColour=${toAssColor(style.outlineColor)}`,
+    `BorderStyle=1`,
+    `Outline=${style.outline}`,
+    `Alignment=${ASS_ALIGNMENT[style.position]}`,
+    `MarginV=${style.marginV}`,
+  ].join(',');
+}
@@ -1,9 +1,18 @@
 import { FastifyInstance } from 'fastify';
 import { eq, and, desc } from 'drizzle-orm';
 import { createReadStream, existsSync } from 'fs';
-import { assets, workspaceMembers, projectHeads, commits } from '@phork/db';
+import { assets, workspaceMembers, commits } from '@phork/db';
 import { generateSignedUrl, validateSignedUrl } from '../lib/storage';
-import type { TimelineSnapshot } from '@phork/shared';
+import { getBranchHeadCommitId } from '../lib/branches';
+import { hasAssetGrant } from '../lib/commits';
+import { upgradeSnapshot, snapshotAssetIds } from '@phork/shared';
+
+/** Whether the asset is granted to any workspace the user belongs to (cross-workspace forks) */
+async function isGrantedToMember(db: any, assetId: string, userId: string): Promise<boolean> {
+  const memberships = await db.select({ workspaceId: workspaceMembers.workspaceId }).from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId));
+  return memberships.length > 0 && hasAssetGrant(db, assetId, memberships.map((m: any) => m.workspaceId));
+}
 
 export async function assetRoutes(app: FastifyInstance) {
   // List assets with optional classification (requires auth + workspace membership)
@@ -12,6 +21,7 @@ export async function assetRoutes(app: FastifyInstance) {
     const userId = request.user.userId;
     const workspaceId = (request.query as any).workspaceId;
     const projectId = (request.query as any).projectId;
+    const branch = (request.query as any).branch;
     const classification = (request.query as any).classification || 'all';
 
     if (!workspaceId) {
@@ -29,18 +39,14 @@ export async function assetRoutes(app: FastifyInstance) {
       .where(eq(assets.workspaceId, workspaceId))
       .orderBy(desc(assets.createdAt));
 
-    // Determine used set from project head if projectId provided
+    // Determine used set from the branch head (default branch unless ?branch=) if projectId provided
     const usedAssetIds = new Set<string>();
     if (projectId) {
-      const [head] = await db.select().from(projectHeads).where(eq(projectHeads.projectId, projectId)).limit(1);
-      if (head) {
-        const [headCommit] = await db.select().from(commits).where(eq(commits.id, head.headCommitId)).limit(1);
-        const snapshot = headCommit?.snapshot as TimelineSnapshot | undefined;
-        if (snapshot?.timeline) {
-          for (const shot of snapshot.timeline) {
-            if (shot.visual_asset_id) usedAssetIds.add(shot.visual_asset_id);
-            if (shot.audio_asset_id) usedAssetIds.add(shot.audio_asset_id);
-          }
+      const headCommitId = await getBranchHeadCommitId(db, projectId, branch);
+      if (headCommitId) {
+        const [headCommit] = await db.select().from(commits).where(eq(commits.id, headCommitId)).limit(1);
+        if (headCommit) {
+          for (const id of snapshotAssetIds(upgradeSnapshot(headCommit.snapshot))) usedAssetIds.add(id);
         }
       }
     }
@@ -79,7 +85,7 @@ export async function assetRoutes(app: FastifyInstance) {
       ))
       .limit(1);
 
-    if (!membership) {
+    if (!membership && !(await isGrantedToMember(db, assetId, userId))) {
       return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this asset\'s workspace', statusCode: 403 });
     }
 
@@ -0,0 +1,182 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { eq, and, asc } from 'drizzle-orm';
+import { projects, branches } from '@phork/db';
+import { BRANCH_NAME_PATTERN } from '@phork/shared';
+import { getBranch, resolveCommitRef } from '../lib/branches';
+import { getProjectForMember } from '../lib/projects';
+
+const branchNameSchema = z.string().regex(BRANCH_NAME_PATTERN, 'Branch names may contain letters, digits, ".", "_" and "-" (max 63 chars)');
+
+const createBranchSchema = z.object({
+  name: branchNameSchema,
+  // Start point: a commit, or another branch's head. Defaults to the default branch.
+  fromCommitId: z.string().uuid().optional(),
+  fromBranch: z.string().optional(),
+});
+
+const renameBranchSchema = z.object({
+  name: branchNameSchema,
+});
+
+const setDefaultBranchSchema = z.object({
+  name: z.string(),
+});
+
+export async function branchRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', (app as any).authenticate);
+
+  // GET /projects/:id/branches — list branches, default first
+  app.get('/:id/branches', async (request: any, reply) => {
+    const db = (app as any).db;
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const result = await db.select().from(branches)
+      .where(eq(branches.projectId, project.id))
+      .orderBy(asc(branches.name));
+
+    const data = result.map((b: any) => ({ ...b, isDefault: b.name === project.defaultBranch }));
+    data.sort((a: any, b: any) => Number(b.isDefault) - Number(a.isDefault));
+    return { data, defaultBranch: project.defaultBranch };
+  });
+
+  // POST /projects/:id/branches — create a branch
+  app.post('/:id/branches', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = createBranchSchema.parse(request.body);
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    if (await getBranch(db, project.id, body.name)) {
+      return reply.status(409).send({ error: 'Conflict', message: `Branch "${body.name}" already exists`, statusCode: 409 });
+    }
+
+    const headCommitId = await resolveCommitRef(db, project.id, {
+      commitId: body.fromCommitId,
+      branch: body.fromCommitId ? undefined : body.fromBranch || project.defaultBranch,
+    });
+    if (!headCommitId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Start point commit or branch not found in this project', statusCode: 400 });
+    }
+
+    const [branch] = await db.insert(branches).values({
+      projectId: project.id,
+      name: body.name,
+      headCommitId,
+      createdBy: userId,
+    }).onConflictDoNothing().returning();
+    if (!branch) {
+      // Lost a race with a concurrent create of the same name
+      return reply.status(409).send({ error: 'Conflict', message: `Branch "${body.name}" already exists`, statusCode: 409 });
+    }
+
+    return reply.status(201).send({ ...branch, isDefault: false });
+  });
+
+  // PATCH /projects/:id/branches/:name — rename a branch
+  app.patch('/:id/branches/:name', async (request: any, reply) => {
+    const db = (app as any).db;
+    const body = renameBranchSchema.parse(request.body);
+    const oldName = request.params.name;
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const branch = await getBranch(db, project.id, oldName);
+    if (!branch) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+    if (body.name === oldName) {
+      return { ...branch, isDefault: oldName === project.defaultBranch };
+    }
+    if (await getBranch(db, project.id, body.name)) {
+      return reply.status(409).send({ error: 'Conflict', message: `Branch "${body.name}" already exists`, statusCode: 409 });
+    }
+
+    const isDefault = oldName === project.defaultBranch;
+    let renamed: any;
+    await db.transaction(async (tx: any) => {
+      [renamed] = await tx.update(branches)
+        .set({ name: body.name, updatedAt: new Date() })
+        .where(eq(branches.id, branch.id))
+        .returning();
+      // Keep the project's default pointing at the same branch
+      if (isDefault) {
+        await tx.update(projects).set({ defaultBranch: body.name }).where(eq(projects.id, project.id));
+      }
+    });
+
+    return { ...renamed, isDefault };
+  });
+
+  // DELETE /projects/:id/branches/:name — delete a branch (not the default)
+  app.delete('/:id/branches/:name', async (request: any, reply) => {
+    const db = (app as any).db;
+    const name = request.params.name;
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    if (name === project.defaultBranch) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Cannot delete the default branch', statusCode: 400 });
+    }
+
+    const deleted = await db.delete(branches)
+      .where(and(eq(branches.projectId, project.id), eq(branches.name, name)))
+      .returning();
+    if (deleted.length === 0) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+
+    return { success: true };
+  });
+
+  // PUT /projects/:id/default-branch — choose the default branch (owner/admin)
+  app.put('/:id/default-branch', async (request: any, reply) => {
+    const db = (app as any).db;
+    const body = setDefaultBranchSchema.parse(request.body);
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Only owners/admins can change the default branch', statusCode: 403 });
+    }
+
+    const branch = await getBranch(db, project.id, body.name);
+    if (!branch) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+
+    const [updated] = await db.update(projects)
+      .set({ defaultBranch: branch.name })
+      .where(eq(projects.id, project.id))
+      .returning();
+
+    return { project: updated, branch: { ...branch, isDefault: true } };
+  });
+}
@@ -1,18 +1,20 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { eq, and, desc, sql } from 'drizzle-orm';
-import { jobs, creditAccounts, creditLedger, workspaceMembers } from '@phork/db';
-import { generationQueue, renderQueue } from '../lib/queue';
+import type { Queue } from 'bullmq';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { jobs, jobBatches, commits, creditAccounts, creditLedger, workspaceMembers } from '@phork/db';
+import { generationQueue, renderQueue, getConnection } from '../lib/queue';
+import { publishCancellation } from '../lib/cancellation';
+import { jobEvent, publishJobEvent, subscribeJobEvents } from '../lib/events';
+import { announceSettledJob, describeBatch, loadBatchJobs } from '../lib/batches';
+import { getProjectForMember } from '../lib/projects';
+import { JOB_COSTS, refundJob } from '../lib/refund';
+import { DEFAULT_SUBTITLE_STYLE } from '../lib/subtitles';
+import { getBranch, resolveCommitRef, describeCommitRef } from '../lib/branches';
+import type { JobEvent } from '@phork/shared';
+import { DEFAULT_RENDER_PROFILE_ID, getRenderProfile, upgradeSnapshot } from '@phork/shared';
 import { nanoid } from 'nanoid';
 
-// Cost table (stub pricing for Phase 1)
-const JOB_COSTS: Record<string, number> = {
-  gen_image: 10,
-  gen_video: 25,
-  gen_audio: 5,
-  render: 15,
-};
-
 const genVideoSchema = z.object({
   projectId: z.string().uuid(),
   workspaceId: z.string().uuid(),
@@ -22,6 +24,13 @@ const genVideoSchema = z.object({
   idempotencyKey: z.string().optional(),
 });
 
+const genImageSchema = z.object({
+  projectId: z.string().uuid(),
+  workspaceId: z.string().uuid(),
+  prompt: z.string().min(1).max(2000),
+  idempotencyKey: z.string().optional(),
+});
+
 const genAudioSchema = z.object({
   projectId: z.string().uuid(),
   workspaceId: z.string().uuid(),
@@ -31,13 +40,66 @@ const genAudioSchema = z.object({
   idempotencyKey: z.string().optional(),
 });
 
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const subtitleOptionsSchema = z.object({
+  burnIn: z.boolean().default(false),
+  style: z.object({
+    // Restricted charset: the font name ends up inside an FFmpeg filter argument
+    fontName: z.string().regex(/^[\w -]{1,64}$/).optional(),
+    fontSize: z.number().int().min(8).max(96).optional(),
+    primaryColor: hexColor.optional(),
+    outlineColor: hexColor.optional(),
+    outline: z.number().int().min(0).max(8).optional(),
+    position: z.enum(['bottom', 'middle', 'top']).optional(),
+    marginV: z.number().int().min(0).max(300).optional(),
+  }).optional().default({}),
+});
+
 const renderSchema = z.object({
   projectId: z.string().uuid(),
   workspaceId: z.string().uuid(),
-  commitId: z.string().uuid(),
+  // Render a specific commit, the current head of a branch, or a tagged commit
+  commitId: z.string().uuid().optional(),
+  branch: z.string().optional(),
+  tag: z.string().optional(),
+  profileId: z.string().optional().default(DEFAULT_RENDER_PROFILE_ID),
+  subtitles: subtitleOptionsSchema.optional(),
+  idempotencyKey: z.string().optional(),
+}).refine((b) => [b.commitId, b.branch, b.tag].filter(Boolean).length === 1, {
+  message: 'Provide exactly one of commitId, branch or tag',
+});
+
+const batchSchema = z.object({
+  projectId: z.string().uuid(),
+  workspaceId: z.string().uuid(),
+  // Shots are looked up on this branch (default branch if omitted), and the auto-commit lands on it
+  branch: z.string().optional(),
+  shots: z.array(z.object({
+    shotId: z.string().min(1),
+    // Visual prompt and/or dialogue text for the shot's audio
+    prompt: z.string().min(1).max(2000).optional(),
+    text: z.string().min(1).max(5000).optional(),
+    voice: z.string().optional().default('default'),
+  }).refine((s) => s.prompt || s.text, { message: 'Each shot needs a prompt or text' })).min(1).max(50),
+  // Generate videos, or stills, for the visual prompts
+  visual: z.enum(['video', 'image']).optional().default('video'),
+  aspectRatio: z.string().optional().default('16:9'),
+  autoCommit: z.boolean().optional().default(false),
+  commitMessage: z.string().max(500).optional(),
   idempotencyKey: z.string().optional(),
 });
 
+const eventsQuerySchema = z.object({
+  workspaceId: z.string().uuid().optional(),
+  projectId: z.string().uuid().optional(),
+}).refine((q) => Boolean(q.workspaceId) !== Boolean(q.projectId), {
+  message: 'Provide exactly one of workspaceId or projectId',
+});
+
+// Comment lines keep idle event streams open through proxies
+const SSE_HEARTBEAT_MS = 25000;
+
 export async function jobRoutes(app: FastifyInstance) {
   app.addHook('preHandler', (app as any).authenticate);
 
@@ -110,6 +172,12 @@ export async function jobRoutes(app: FastifyInstance) {
     return { job, duplicate: false, cost };
   }
 
+  // Helper: queue a new job under its own ID (so cancel can find it) and announce it
+  async function enqueue(queue: Queue, job: any) {
+    await queue.add(job.type, { jobId: job.id }, { jobId: job.id });
+    publishJobEvent(getConnection(), jobEvent(job));
+  }
+
   // Generate video
   app.post('/gen-video', async (request: any, reply) => {
     const db = (app as any).db;
@@ -125,7 +193,30 @@ export async function jobRoutes(app: FastifyInstance) {
       }, idempotencyKey);
 
       if (!duplicate) {
-        await generationQueue.add('gen_video', { jobId: job.id });
+        await enqueue(generationQueue, job);
+      }
+
+      return reply.status(duplicate ? 200 : 201).send(job);
+    } catch (err: any) {
+      if (err.statusCode) return reply.status(err.statusCode).send({ error: err.message, statusCode: err.statusCode });
+      throw err;
+    }
+  });
+
+  // Generate still image
+  app.post('/gen-image', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = genImageSchema.parse(request.body);
+    const idempotencyKey = body.idempotencyKey || `gen-image-${nanoid()}`;
+
+    try {
+      const { job, duplicate } = await createJob(db, userId, body.workspaceId, body.projectId, 'gen_image', {
+        prompt: body.prompt,
+      }, idempotencyKey);
+
+      if (!duplicate) {
+        await enqueue(generationQueue, job);
       }
 
       return reply.status(duplicate ? 200 : 201).send(job);
@@ -150,7 +241,7 @@ export async function jobRoutes(app: FastifyInstance) {
       }, idempotencyKey);
 
       if (!duplicate) {
-        await generationQueue.add('gen_audio', { jobId: job.id });
+        await enqueue(generationQueue, job);
       }
 
       return reply.status(duplicate ? 200 : 201).send(job);
@@ -167,13 +258,27 @@ export async function jobRoutes(app: FastifyInstance) {
     const body = renderSchema.parse(request.body);
     const idempotencyKey = body.idempotencyKey || `render-${nanoid()}`;
 
+    if (!getRenderProfile(body.profileId)) {
+      return reply.status(400).send({ error: 'Bad Request', message: `Unknown render profile: ${body.profileId}`, statusCode: 400 });
+    }
+
+    // Branches and tags are resolved now, so the job renders the commit as of queueing
+    const commitId = await resolveCommitRef(db, body.projectId, { commitId: body.commitId, branch: body.branch, tag: body.tag });
+    if (!commitId) {
+      return reply.status(400).send({ error: 'Bad Request', message: body.commitId ? 'Invalid commit' : `${describeCommitRef(body)} not found`, statusCode: 400 });
+    }
+
     try {
       const { job, duplicate } = await createJob(db, userId, body.workspaceId, body.projectId, 'render', {
-        commitId: body.commitId,
+        commitId,
+        branch: body.branch,
+        tag: body.tag,
+        profileId: body.profileId,
+        subtitles: body.subtitles ? { burnIn: body.subtitles.burnIn, style: { ...DEFAULT_SUBTITLE_STYLE, ...body.subtitles.style } } : undefined,
       }, idempotencyKey);
 
       if (!duplicate) {
-        await renderQueue.add('render', { jobId: job.id });
+        await enqueue(renderQueue, job);
       }
 
       return reply.status(duplicate ? 200 : 201).send(job);
@@ -183,6 +288,230 @@ export async function jobRoutes(app: FastifyInstance) {
     }
   });
 
+  // Queue visual and audio generation for many shots at once, charged up front as one debit
+  app.post('/batch', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = batchSchema.parse(request.body);
+    const batchKey = body.idempotencyKey || `batch-${nanoid()}`;
+
+    const { project, membership } = await getProjectForMember(db, body.projectId, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (project.workspaceId !== body.workspaceId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Project does not belong to this workspace', statusCode: 400 });
+    }
+
+    const [existing] = await db.select().from(jobBatches).where(
+      and(eq(jobBatches.workspaceId, body.workspaceId), eq(jobBatches.idempotencyKey, batchKey))
+    ).limit(1);
+    if (existing) {
+      return reply.status(200).send(describeBatch(existing, await loadBatchJobs(db, existing.id)));
+    }
+
+    const branchName = body.branch || project.defaultBranch;
+    const branch = await getBranch(db, project.id, branchName);
+    if (!branch) {
+      return reply.status(404).send({ error: 'Not Found', message: `Branch "${branchName}" not found`, statusCode: 404 });
+    }
+    const [head] = await db.select().from(commits).where(eq(commits.id, branch.headCommitId)).limit(1);
+    const shotsById = new Map(upgradeSnapshot(head.snapshot).timeline.map((s) => [s.shot_id, s]));
+
+    const requestedIds = body.shots.map((s) => s.shotId);
+    const duplicates = requestedIds.filter((id, i) => requestedIds.indexOf(id) !== i);
+    if (duplicates.length > 0) {
+      return reply.status(400).send({ error: 'Bad Request', message: `Shots listed more than once: ${[...new Set(duplicates)].join(', ')}`, statusCode: 400 });
+    }
+    const unknown = requestedIds.filter((id) => !shotsById.has(id));
+    if (unknown.length > 0) {
+      return reply.status(400).send({ error: 'Bad Request', message: `Shots not on branch "${branchName}": ${unknown.join(', ')}`, statusCode: 400 });
+    }
+
+    // One job per shot field, each tagged with where its asset goes
+    const visualType = body.visual === 'video' ? 'gen_video' : 'gen_image';
+    const specs: Array<{ type: string; request: any; idempotencyKey: string }> = [];
+    for (const shot of body.shots) {
+      if (shot.prompt) {
+        const durationMs = shotsById.get(shot.shotId)!.duration_ms;
+        specs.push({
+          type: visualType,
+          request: visualType === 'gen_video'
+            ? { prompt: shot.prompt, duration: Math.min(10000, Math.max(1000, durationMs)), aspectRatio: body.aspectRatio, shotId: shot.shotId, field: 'visual' }
+            : { prompt: shot.prompt, shotId: shot.shotId, field: 'visual' },
+          idempotencyKey: `${batchKey}:${shot.shotId}:visual`,
+        });
+      }
+      if (shot.text) {
+        specs.push({
+          type: 'gen_audio',
+          request: { text: shot.text, voice: shot.voice, speed: 1.0, shotId: shot.shotId, field: 'audio' },
+          idempotencyKey: `${batchKey}:${shot.shotId}:audio`,
+        });
+      }
+    }
+    const totalCost = specs.reduce((sum, spec) => sum + (JOB_COSTS[spec.type] || 10), 0);
+
+    let batch: any;
+    const created: any[] = [];
+    try {
+      await db.transaction(async (tx: any) => {
+        // Debit the whole batch at once: either every job is paid for or none is queued
+        const debitRows = await tx.execute(
+          sql`UPDATE credit_accounts SET balance = balance - ${totalCost} WHERE workspace_id = ${body.workspaceId} AND balance >= ${totalCost} RETURNING workspace_id, balance`
+        );
+        if (!debitRows || (debitRows as any).count === 0) {
+          throw { statusCode: 402, message: `Insufficient credits: this batch costs ${totalCost}` };
+        }
+
+        [batch] = await tx.insert(jobBatches).values({
+          workspaceId: body.workspaceId,
+          userId,
+          projectId: project.id,
+          branch: branchName,
+          autoCommit: body.autoCommit,
+          commitMessage: body.commitMessage,
+          idempotencyKey: batchKey,
+        }).returning();
+
+        for (const spec of specs) {
+          const [job] = await tx.insert(jobs).values({
+            workspaceId: body.workspaceId,
+            userId,
+            projectId: project.id,
+            type: spec.type,
+            status: 'queued',
+            request: spec.request,
+            idempotencyKey: spec.idempotencyKey,
+            batchId: batch.id,
+          }).returning();
+          created.push(job);
+
+          // Per-job ledger entries, so refunds of individual failures match their charge
+          await tx.insert(creditLedger).values({
+            workspaceId: body.workspaceId,
+            userId,
+            jobId: job.id,
+            projectId: project.id,
+            delta: -(JOB_COSTS[spec.type] || 10),
+            reason: `${spec.type} job (batch)`,
+          });
+        }
+      });
+    } catch (err: any) {
+      if (err.statusCode) return reply.status(err.statusCode).send({ error: err.message, statusCode: err.statusCode, cost: totalCost });
+      throw err;
+    }
+
+    for (const job of created) {
+      await enqueue(generationQueue, job);
+    }
+
+    return reply.status(201).send({ ...describeBatch(batch, created), cost: totalCost });
+  });
+
+  // Aggregated status of a batch, with the jobs that failed
+  app.get('/batch/:id', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+
+    const [batch] = await db.select().from(jobBatches).where(eq(jobBatches.id, request.params.id)).limit(1);
+    if (!batch) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Batch not found', statusCode: 404 });
+    }
+    const [membership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, batch.workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    return describeBatch(batch, await loadBatchJobs(db, batch.id));
+  });
+
+  // Stream status changes and progress of a workspace's or project's jobs (Server-Sent Events)
+  app.get('/events', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const query = eventsQuerySchema.parse(request.query);
+
+    let workspaceId = query.workspaceId;
+    if (query.projectId) {
+      const { project, membership } = await getProjectForMember(db, query.projectId, userId);
+      if (!project) {
+        return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+      }
+      if (!membership) {
+        return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+      }
+      workspaceId = project.workspaceId;
+    } else {
+      const [membership] = await db.select().from(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, workspaceId!), eq(workspaceMembers.userId, userId)))
+        .limit(1);
+      if (!membership) {
+        return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+      }
+    }
+    const inScope = (event: JobEvent) =>
+      query.projectId ? event.projectId === query.projectId : event.workspaceId === workspaceId;
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      // Keep the CORS headers the plugin already set on the reply
+      ...(reply.getHeaders() as Record<string, string>),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const send = (event: JobEvent) => reply.raw.write(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+
+    // Listen for the hang-up before awaiting anything: the client can leave mid-subscribe
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    reply.raw.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+
+    // Subscribe before reading current state, so no change falls between the two.
+    // The reply is hijacked, so failures end the stream here instead of reaching Fastify.
+    try {
+      const stop = await subscribeJobEvents(getConnection(), (event) => {
+        if (inScope(event)) send(event);
+      });
+      if (closed) {
+        stop();
+        return;
+      }
+      unsubscribe = stop;
+    } catch (err: any) {
+      console.warn('GET /jobs/events: subscribe failed —', err.message);
+      reply.raw.end();
+      return;
+    }
+    heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+    // Headers go out only once subscribed, so a client that saw them can't miss an event
+    reply.raw.flushHeaders();
+
+    try {
+      const active = await db.select().from(jobs).where(and(
+        query.projectId ? eq(jobs.projectId, query.projectId) : eq(jobs.workspaceId, workspaceId!),
+        inArray(jobs.status, ['queued', 'running']),
+      ));
+      if (closed) return;
+      for (const job of active) send(jobEvent(job));
+    } catch (err: any) {
+      console.warn('GET /jobs/events: reading active jobs failed —', err.message);
+      reply.raw.end();
+    }
+  });
+
   // Get job status
   app.get('/:id', async (request: any, reply) => {
     const db = (app as any).db;
@@ -196,6 +525,48 @@ export async function jobRoutes(app: FastifyInstance) {
     return job;
   });
 
+  // Cancel a queued or running job and refund its credits
+  app.post('/:id/cancel', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const jobId = request.params.id;
+
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+    if (!job) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Job not found', statusCode: 404 });
+    }
+    const [membership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, job.workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    // Conditional, so a job that just finished keeps its result and its charge
+    const [cancelled] = await db.update(jobs).set({
+      status: 'cancelled',
+      error: { message: 'Cancelled by user' },
+      updatedAt: new Date(),
+    }).where(and(eq(jobs.id, jobId), inArray(jobs.status, ['queued', 'running']))).returning();
+    if (!cancelled) {
+      return reply.status(409).send({ error: 'Conflict', message: `Job is already ${job.status}`, statusCode: 409 });
+    }
+
+    // Drop it from the queue if no worker has picked it up yet. A job a
+    // worker holds is locked and can't be removed; the worker aborts it.
+    const queue = job.type === 'render' ? renderQueue : generationQueue;
+    try {
+      await (await queue.getJob(jobId))?.remove();
+    } catch {
+      // Active: handled by the cancellation signal below
+    }
+    await publishCancellation(getConnection(), jobId);
+    await announceSettledJob(db, getConnection(), cancelled);
+
+    const { refunded } = await refundJob(db, job, `${job.type} cancelled by user`);
+    return { ...cancelled, refunded };
+  });
+
   // List jobs for project
   app.get('/', async (request: any) => {
     const db = (app as any).db;
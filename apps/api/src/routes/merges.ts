@@ -0,0 +1,414 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { eq, and, or, desc, inArray, TransactionRollbackError } from 'drizzle-orm';
+import { projects, mergeRequests } from '@phork/db';
+import { diffSnapshots } from '@phork/shared';
+import { getBranch, resolveCommitRef, advanceBranch } from '../lib/branches';
+import { getProjectForMember, getSharedCommitId } from '../lib/projects';
+import { checkSnapshotAssets, insertCommit } from '../lib/commits';
+import { previewMergeRequest, previewUpstreamSync } from '../lib/merges';
+
+const createMergeRequestSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(5000).optional(),
+  // What to propose: a fork commit, or a fork branch's current head
+  commitId: z.string().uuid().optional(),
+  branch: z.string().optional(),
+  // Branch of the parent project to merge into; defaults to its default branch
+  targetBranch: z.string().optional(),
+}).refine((b) => !(b.commitId && b.branch), { message: 'Provide commitId or branch, not both' });
+
+const syncUpstreamSchema = z.object({
+  // Fork branch to sync; defaults to the fork's default branch
+  branch: z.string().optional(),
+  // Parent branch to pull from; defaults to the parent's default branch
+  upstreamBranch: z.string().optional(),
+  // Conflict key → side that wins ('source' is upstream)
+  resolutions: z.record(z.enum(['target', 'source'])).optional(),
+  message: z.string().optional(),
+});
+
+const mergeSchema = z.object({
+  // Conflict key (see conflictKey) → side that wins
+  resolutions: z.record(z.enum(['target', 'source'])).optional(),
+  message: z.string().optional(),
+});
+
+const UPSTREAM_FORBIDDEN = 'Outside the parent\'s workspace, only its shared published commit can be synced';
+
+/**
+ * What a fork may pull from its parent. Members of the parent's workspace
+ * sync from any parent branch and may bring in its assets. Anyone else (a
+ * fork in another workspace) only gets the parent's shared published commit,
+ * with the assets their own workspace owns or was granted. Returns null if
+ * there is nothing they may sync from.
+ */
+async function upstreamAccess(db: any, fork: any, userId: string, upstreamBranch: string | undefined) {
+  const { project: upstream, membership } = await getProjectForMember(db, fork.parentProjectId, userId);
+  if (membership) {
+    return { upstream, ref: { branch: upstreamBranch }, workspaceIds: [fork.workspaceId, upstream.workspaceId] };
+  }
+  const sharedCommitId = upstream && !upstreamBranch ? await getSharedCommitId(db, upstream.id) : null;
+  if (!sharedCommitId) return null;
+  return { upstream, ref: { commitId: sharedCommitId }, workspaceIds: [fork.workspaceId] };
+}
+
+export async function mergeRequestRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', (app as any).authenticate);
+
+  /**
+   * Load a merge request through one of its projects. Members of either the
+   * source or the target workspace can see it via their own project.
+   */
+  async function getMergeRequestForMember(request: any, reply: any) {
+    const db = (app as any).db;
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+      return null;
+    }
+    if (!membership) {
+      reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+      return null;
+    }
+    const [mr] = await db.select().from(mergeRequests)
+      .where(and(
+        eq(mergeRequests.id, request.params.mrId),
+        or(eq(mergeRequests.sourceProjectId, project.id), eq(mergeRequests.targetProjectId, project.id)),
+      ))
+      .limit(1);
+    if (!mr) {
+      reply.status(404).send({ error: 'Not Found', message: 'Merge request not found', statusCode: 404 });
+      return null;
+    }
+    return { project, mr };
+  }
+
+  // POST /projects/:id/merge-requests — propose a fork commit to the parent project
+  app.post('/:id/merge-requests', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = createMergeRequestSchema.parse(request.body);
+
+    const { project: fork, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!fork) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (!fork.parentProjectId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Only forks can open merge requests', statusCode: 400 });
+    }
+
+    const sourceCommitId = await resolveCommitRef(db, fork.id, {
+      commitId: body.commitId,
+      branch: body.commitId ? undefined : body.branch || fork.defaultBranch,
+    });
+    if (!sourceCommitId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Source commit or branch not found in this project', statusCode: 400 });
+    }
+
+    const [parent] = await db.select().from(projects).where(eq(projects.id, fork.parentProjectId)).limit(1);
+    if (!parent) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Parent project not found', statusCode: 404 });
+    }
+    const targetBranch = body.targetBranch || parent.defaultBranch;
+    if (!(await getBranch(db, parent.id, targetBranch))) {
+      return reply.status(400).send({ error: 'Bad Request', message: `Branch "${targetBranch}" not found in the parent project`, statusCode: 400 });
+    }
+
+    const [mr] = await db.insert(mergeRequests).values({
+      sourceProjectId: fork.id,
+      sourceCommitId,
+      targetProjectId: parent.id,
+      targetBranch,
+      title: body.title,
+      description: body.description || null,
+      createdBy: userId,
+    }).returning();
+
+    return reply.status(201).send(mr);
+  });
+
+  // GET /projects/:id/merge-requests — incoming and outgoing merge requests
+  app.get('/:id/merge-requests', async (request: any, reply) => {
+    const db = (app as any).db;
+    const { status } = request.query as { status?: string };
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const involves = or(eq(mergeRequests.sourceProjectId, project.id), eq(mergeRequests.targetProjectId, project.id));
+    const result = await db.select().from(mergeRequests)
+      .where(status ? and(involves, eq(mergeRequests.status, status)) : involves)
+      .orderBy(desc(mergeRequests.createdAt));
+
+    // Name the other side of each request for display
+    const otherIds = [...new Set(result.map((mr: any) =>
+      mr.targetProjectId === project.id ? mr.sourceProjectId : mr.targetProjectId))] as string[];
+    const others = otherIds.length > 0
+      ? await db.select({ id: projects.id, name: projects.name }).from(projects).where(inArray(projects.id, otherIds))
+      : [];
+    const names = new Map(others.map((p: any) => [p.id, p.name]));
+
+    return {
+      data: result.map((mr: any) => {
+        const incoming = mr.targetProjectId === project.id;
+        const otherId = incoming ? mr.sourceProjectId : mr.targetProjectId;
+        return {
+          ...mr,
+          direction: incoming ? 'incoming' : 'outgoing',
+          sourceProjectName: incoming ? names.get(otherId) || null : project.name,
+          targetProjectName: incoming ? project.name : names.get(otherId) || null,
+        };
+      }),
+    };
+  });
+
+  // GET /projects/:id/merge-requests/:mrId — details plus a merge preview for open requests
+  app.get('/:id/merge-requests/:mrId', async (request: any, reply) => {
+    const db = (app as any).db;
+    const loaded = await getMergeRequestForMember(request, reply);
+    if (!loaded) return;
+    const { mr } = loaded;
+
+    if (mr.status !== 'open') {
+      return { ...mr, preview: null };
+    }
+
+    const preview = await previewMergeRequest(db, mr);
+    if (!preview) {
+      return { ...mr, preview: null, message: `Target branch "${mr.targetBranch}" no longer exists` };
+    }
+
+    return {
+      ...mr,
+      preview: {
+        baseCommitId: preview.baseCommitId,
+        targetHeadCommitId: preview.targetHeadCommitId,
+        conflicts: preview.result.conflicts,
+        mergeable: preview.result.conflicts.length === 0,
+        // What merging would change on the target branch
+        diff: diffSnapshots(preview.targetSnapshot, preview.result.snapshot),
+      },
+    };
+  });
+
+  // POST /projects/:id/merge-requests/:mrId/merge — accept as a two-parent merge commit
+  app.post('/:id/merge-requests/:mrId/merge', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = mergeSchema.parse(request.body || {});
+
+    const loaded = await getMergeRequestForMember(request, reply);
+    if (!loaded) return;
+    const { project, mr } = loaded;
+
+    if (mr.targetProjectId !== project.id) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Only members of the target project can merge', statusCode: 403 });
+    }
+    if (mr.status !== 'open') {
+      return reply.status(400).send({ error: 'Bad Request', message: `Merge request is ${mr.status}`, statusCode: 400 });
+    }
+
+    const preview = await previewMergeRequest(db, mr, body.resolutions);
+    if (!preview) {
+      return reply.status(400).send({ error: 'Bad Request', message: `Target branch "${mr.targetBranch}" no longer exists`, statusCode: 400 });
+    }
+    if (preview.result.conflicts.length > 0) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: `${preview.result.conflicts.length} unresolved conflict(s)`,
+        statusCode: 409,
+        conflicts: preview.result.conflicts,
+      });
+    }
+
+    const [source] = await db.select().from(projects).where(eq(projects.id, mr.sourceProjectId)).limit(1);
+    // Merged shots may use assets from either workspace
+    const assetError = await checkSnapshotAssets(db, preview.result.snapshot, [project.workspaceId, source?.workspaceId]);
+    if (assetError) {
+      return reply.status(assetError.statusCode).send(assetError);
+    }
+
+    let mergeCommit: any;
+    try {
+      mergeCommit = await db.transaction(async (tx: any) => {
+        const commit = await insertCommit(tx, {
+          projectId: project.id,
+          parentCommitId: preview.targetHeadCommitId,
+          mergeParentCommitId: mr.sourceCommitId,
+          message: body.message || `Merge "${mr.title}" from ${source?.name || 'fork'}`,
+          createdBy: userId,
+          snapshot: preview.result.snapshot,
+        });
+
+        // Only advance if nobody moved the branch since the preview was computed
+        const advanced = await advanceBranch(tx, project.id, mr.targetBranch, commit.id, preview.targetHeadCommitId);
+        const merged = await tx.update(mergeRequests)
+          .set({ status: 'merged', mergedBy: userId, mergeCommitId: commit.id, mergedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(mergeRequests.id, mr.id), eq(mergeRequests.status, 'open')))
+          .returning();
+        if (!advanced || merged.length === 0) tx.rollback();
+        return commit;
+      });
+    } catch (err) {
+      if (!(err instanceof TransactionRollbackError)) throw err;
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: 'The target branch or merge request changed while merging; reload and try again',
+        statusCode: 409,
+      });
+    }
+
+    return reply.status(201).send({ mergeRequestId: mr.id, commit: mergeCommit, branch: mr.targetBranch });
+  });
+
+  // POST /projects/:id/merge-requests/:mrId/close — close without merging (either side)
+  app.post('/:id/merge-requests/:mrId/close', async (request: any, reply) => {
+    const db = (app as any).db;
+    const loaded = await getMergeRequestForMember(request, reply);
+    if (!loaded) return;
+    const { mr } = loaded;
+
+    if (mr.status !== 'open') {
+      return reply.status(400).send({ error: 'Bad Request', message: `Merge request is ${mr.status}`, statusCode: 400 });
+    }
+
+    const [updated] = await db.update(mergeRequests)
+      .set({ status: 'closed', updatedAt: new Date() })
+      .where(eq(mergeRequests.id, mr.id))
+      .returning();
+
+    return updated;
+  });
+
+  // GET /projects/:id/upstream — how far a fork branch is behind its parent, with a sync preview
+  app.get('/:id/upstream', async (request: any, reply) => {
+    const db = (app as any).db;
+    const query = request.query as { branch?: string; upstreamBranch?: string };
+
+    const { project: fork, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!fork) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (!fork.parentProjectId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Project is not a fork', statusCode: 400 });
+    }
+
+    const access = await upstreamAccess(db, fork, request.user.userId, query.upstreamBranch);
+    if (!access) {
+      return reply.status(403).send({ error: 'Forbidden', message: UPSTREAM_FORBIDDEN, statusCode: 403 });
+    }
+
+    const branchName = query.branch || fork.defaultBranch;
+    const preview = await previewUpstreamSync(db, fork, branchName, access.ref);
+    if (!preview) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+
+    return {
+      branch: branchName,
+      upstreamProjectId: fork.parentProjectId,
+      upstreamHeadCommitId: preview.upstreamHeadCommitId,
+      forkedFromCommitId: fork.forkedFromCommitId,
+      baseCommitId: preview.baseCommitId,
+      behind: preview.behind.map((c: any) => ({ id: c.id, message: c.message, createdAt: c.createdAt })),
+      upToDate: preview.behind.length === 0,
+      conflicts: preview.result.conflicts,
+      mergeable: preview.result.conflicts.length === 0,
+      // What syncing would change on the fork branch
+      diff: diffSnapshots(preview.targetSnapshot, preview.result.snapshot),
+    };
+  });
+
+  // POST /projects/:id/sync-upstream — merge new parent commits into a fork branch
+  app.post('/:id/sync-upstream', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = syncUpstreamSchema.parse(request.body || {});
+
+    const { project: fork, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!fork) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (!fork.parentProjectId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Project is not a fork', statusCode: 400 });
+    }
+
+    const access = await upstreamAccess(db, fork, userId, body.upstreamBranch);
+    if (!access) {
+      return reply.status(403).send({ error: 'Forbidden', message: UPSTREAM_FORBIDDEN, statusCode: 403 });
+    }
+
+    const branchName = body.branch || fork.defaultBranch;
+    const preview = await previewUpstreamSync(db, fork, branchName, access.ref, body.resolutions);
+    if (!preview) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+    if (preview.behind.length === 0) {
+      return { upToDate: true, commit: null, branch: branchName, upstreamCommitId: preview.upstreamHeadCommitId };
+    }
+    if (preview.result.conflicts.length > 0) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: `${preview.result.conflicts.length} unresolved conflict(s)`,
+        statusCode: 409,
+        conflicts: preview.result.conflicts,
+      });
+    }
+
+    const { upstream, workspaceIds } = access;
+    const assetError = await checkSnapshotAssets(db, preview.result.snapshot, workspaceIds);
+    if (assetError) {
+      return reply.status(assetError.statusCode).send(assetError);
+    }
+
+    const count = preview.behind.length;
+    let syncCommit: any;
+    try {
+      syncCommit = await db.transaction(async (tx: any) => {
+        const commit = await insertCommit(tx, {
+          projectId: fork.id,
+          parentCommitId: preview.targetHeadCommitId,
+          mergeParentCommitId: preview.upstreamHeadCommitId,
+          message: body.message || `Sync ${count} upstream commit${count === 1 ? '' : 's'} from ${upstream?.name || 'parent'}`,
+          createdBy: userId,
+          snapshot: preview.result.snapshot,
+        });
+
+        // The sync point is recorded on this branch only, as the commit's merge parent
+        const advanced = await advanceBranch(tx, fork.id, branchName, commit.id, preview.targetHeadCommitId);
+        if (!advanced) tx.rollback();
+        return commit;
+      });
+    } catch (err) {
+      if (!(err instanceof TransactionRollbackError)) throw err;
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: `Branch "${branchName}" changed while syncing; reload and try again`,
+        statusCode: 409,
+      });
+    }
+
+    return reply.status(201).send({
+      upToDate: false,
+      commit: syncCommit,
+      branch: branchName,
+      upstreamCommitId: preview.upstreamHeadCommitId,
+      applied: preview.behind.map((c: any) => ({ id: c.id, message: c.message })),
+    });
+  });
+}
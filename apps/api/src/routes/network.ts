@@ -0,0 +1,23 @@
+import { FastifyInstance } from 'fastify';
+import { getProjectForMember } from '../lib/projects';
+import { buildForkNetwork } from '../lib/network';
+
+export async function networkRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', (app as any).authenticate);
+
+  // GET /projects/:id/network — ancestors and all descendant forks
+  app.get('/:id/network', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    return buildForkNetwork(db, project.id, userId);
+  });
+}
@@ -0,0 +1,269 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { jobs, pipelines, pipelineSteps, creditLedger, workspaceMembers } from '@phork/db';
+import { DEFAULT_RENDER_PROFILE_ID, getRenderProfile, isJobStep } from '@phork/shared';
+import { nanoid } from 'nanoid';
+import { flowProducer, getConnection } from '../lib/queue';
+import { describePipeline, launchPipelineLevel, planPipeline } from '../lib/pipelines';
+import { getProjectForMember } from '../lib/projects';
+import { JOB_COSTS } from '../lib/refund';
+import { DEFAULT_SUBTITLE_STYLE } from '../lib/subtitles';
+import { subtitleOptionsSchema } from './jobs';
+
+// `{ "$ref": "<step>.<output>" }`: filled in from an earlier step when this one is queued
+const stepRefSchema = z.object({ $ref: z.string().regex(/^[\w-]+\.\w+$/) }).strict();
+const uuidOrRef = z.union([z.string().uuid(), stepRefSchema]);
+
+const exactlyOneRef = (p: { commitId?: unknown; branch?: string; tag?: string }) =>
+  [p.commitId, p.branch, p.tag].filter(Boolean).length === 1;
+
+const stepBase = {
+  id: z.string().regex(/^[\w-]{1,40}$/),
+  dependsOn: z.array(z.string()).optional().default([]),
+};
+
+const stepSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...stepBase,
+    type: z.literal('gen_video'),
+    params: z.object({
+      prompt: z.string().min(1).max(2000),
+      duration: z.number().int().min(1000).max(10000).optional().default(4000),
+      aspectRatio: z.string().optional().default('16:9'),
+    }),
+  }),
+  z.object({
+    ...stepBase,
+    type: z.literal('gen_image'),
+    params: z.object({ prompt: z.string().min(1).max(2000) }),
+  }),
+  z.object({
+    ...stepBase,
+    type: z.literal('gen_audio'),
+    params: z.object({
+      text: z.string().min(1).max(5000),
+      voice: z.string().optional().default('default'),
+      speed: z.number().min(0.5).max(2.0).optional().default(1.0),
+    }),
+  }),
+  z.object({
+    ...stepBase,
+    type: z.literal('commit'),
+    params: z.object({
+      // Default branch if omitted
+      branch: z.string().optional(),
+      message: z.string().max(500).optional(),
+      shots: z.array(z.object({
+        shotId: z.string().min(1),
+        visualAssetId: uuidOrRef.optional(),
+        audioAssetId: uuidOrRef.optional(),
+      }).refine((s) => s.visualAssetId || s.audioAssetId, { message: 'Each shot needs a visualAssetId or audioAssetId' })).min(1).max(50),
+    }),
+  }),
+  z.object({
+    ...stepBase,
+    type: z.literal('render'),
+    params: z.object({
+      commitId: uuidOrRef.optional(),
+      branch: z.string().optional(),
+      tag: z.string().optional(),
+      profileId: z.string().optional().default(DEFAULT_RENDER_PROFILE_ID),
+      subtitles: subtitleOptionsSchema.optional(),
+    }).refine(exactlyOneRef, { message: 'Provide exactly one of commitId, branch or tag' }),
+  }),
+  z.object({
+    ...stepBase,
+    type: z.literal('publish'),
+    params: z.object({
+      renderAssetId: uuidOrRef,
+      commitId: uuidOrRef.optional(),
+      branch: z.string().optional(),
+      tag: z.string().optional(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      enableShareLink: z.boolean().optional().default(false),
+    }).refine(exactlyOneRef, { message: 'Provide exactly one of commitId, branch or tag' }),
+  }),
+]);
+
+const createPipelineSchema = z.object({
+  projectId: z.string().uuid(),
+  workspaceId: z.string().uuid(),
+  name: z.string().max(200).optional(),
+  steps: z.array(stepSchema).min(1).max(50),
+  idempotencyKey: z.string().optional(),
+});
+
+/** Pipelines with their steps and the steps' jobs, for describePipeline */
+async function loadPipelineDetails(db: any, rows: any[]) {
+  if (rows.length === 0) return [];
+  const steps = await db.select().from(pipelineSteps)
+    .where(inArray(pipelineSteps.pipelineId, rows.map((p) => p.id)))
+    .orderBy(pipelineSteps.position);
+  const jobIds = steps.map((s: any) => s.jobId).filter(Boolean);
+  const stepJobs = jobIds.length > 0 ? await db.select().from(jobs).where(inArray(jobs.id, jobIds)) : [];
+  return rows.map((pipeline) => describePipeline(pipeline, steps.filter((s: any) => s.pipelineId === pipeline.id), stepJobs));
+}
+
+export async function pipelineRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', (app as any).authenticate);
+
+  // POST /pipelines — charge and start a pipeline of steps
+  app.post('/', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = createPipelineSchema.parse(request.body);
+    const pipelineKey = body.idempotencyKey || `pipeline-${nanoid()}`;
+
+    const { project, membership } = await getProjectForMember(db, body.projectId, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (project.workspaceId !== body.workspaceId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Project does not belong to this workspace', statusCode: 400 });
+    }
+
+    const [existing] = await db.select().from(pipelines).where(
+      and(eq(pipelines.workspaceId, body.workspaceId), eq(pipelines.idempotencyKey, pipelineKey))
+    ).limit(1);
+    if (existing) {
+      const [described] = await loadPipelineDetails(db, [existing]);
+      return reply.status(200).send(described);
+    }
+
+    const planned = planPipeline(body.steps);
+    if ('error' in planned) {
+      return reply.status(400).send({ error: 'Bad Request', message: planned.error, statusCode: 400 });
+    }
+    for (const step of body.steps) {
+      if (step.type === 'render' && !getRenderProfile(step.params.profileId)) {
+        return reply.status(400).send({ error: 'Bad Request', message: `Step "${step.id}": unknown render profile ${step.params.profileId}`, statusCode: 400 });
+      }
+    }
+
+    const totalCost = body.steps.reduce((sum, step) => sum + (isJobStep(step.type) ? JOB_COSTS[step.type] || 10 : 0), 0);
+
+    let pipeline: any;
+    try {
+      await db.transaction(async (tx: any) => {
+        // Every generation and render step is paid for up front; steps that never run are refunded
+        if (totalCost > 0) {
+          const debitRows = await tx.execute(
+            sql`UPDATE credit_accounts SET balance = balance - ${totalCost} WHERE workspace_id = ${body.workspaceId} AND balance >= ${totalCost} RETURNING workspace_id, balance`
+          );
+          if (!debitRows || (debitRows as any).count === 0) {
+            throw { statusCode: 402, message: `Insufficient credits: this pipeline costs ${totalCost}` };
+          }
+        }
+
+        [pipeline] = await tx.insert(pipelines).values({
+          workspaceId: body.workspaceId,
+          userId,
+          projectId: project.id,
+          name: body.name,
+          idempotencyKey: pipelineKey,
+        }).returning();
+
+        for (const [position, step] of body.steps.entries()) {
+          // Subtitle style defaults are filled in here, as by POST /jobs/render, so the
+          // step's params carry them when the job request is rebuilt at queue time
+          const params = step.type === 'render' && step.params.subtitles
+            ? { ...step.params, subtitles: { burnIn: step.params.subtitles.burnIn, style: { ...DEFAULT_SUBTITLE_STYLE, ...step.params.subtitles.style } } }
+            : step.params;
+
+          let jobId: string | null = null;
+          if (isJobStep(step.type)) {
+            // $ref params stay in the request until the step is queued
+            const [job] = await tx.insert(jobs).values({
+              workspaceId: body.workspaceId,
+              userId,
+              projectId: project.id,
+              type: step.type,
+              status: 'queued',
+              request: params,
+              idempotencyKey: `${pipelineKey}:${step.id}`,
+            }).returning();
+            jobId = job.id;
+
+            await tx.insert(creditLedger).values({
+              workspaceId: body.workspaceId,
+              userId,
+              jobId: job.id,
+              projectId: project.id,
+              delta: -(JOB_COSTS[step.type] || 10),
+              reason: `${step.type} job (pipeline)`,
+            });
+          }
+
+          const { dependsOn, level } = planned.plan.get(step.id)!;
+          await tx.insert(pipelineSteps).values({
+            pipelineId: pipeline.id,
+            stepId: step.id,
+            position,
+            type: step.type,
+            dependsOn,
+            level,
+            params,
+            jobId,
+          });
+        }
+      });
+    } catch (err: any) {
+      if (err.statusCode) return reply.status(err.statusCode).send({ error: err.message, statusCode: err.statusCode, cost: totalCost });
+      throw err;
+    }
+
+    await launchPipelineLevel(db, getConnection(), flowProducer, pipeline, 0);
+
+    const [described] = await loadPipelineDetails(db, [pipeline]);
+    return reply.status(201).send({ ...described, cost: totalCost });
+  });
+
+  // GET /pipelines?projectId= — a project's pipelines, newest first
+  app.get('/', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const projectId = (request.query as any).projectId;
+    if (!projectId) {
+      return { data: [] };
+    }
+
+    const { project, membership } = await getProjectForMember(db, projectId, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const rows = await db.select().from(pipelines)
+      .where(eq(pipelines.projectId, projectId))
+      .orderBy(desc(pipelines.createdAt))
+      .limit(50);
+    return { data: await loadPipelineDetails(db, rows) };
+  });
+
+  // GET /pipelines/:id — per-step status and outputs
+  app.get('/:id', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, request.params.id)).limit(1);
+    if (!pipeline) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Pipeline not found', statusCode: 404 });
+    }
+    const [membership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, pipeline.workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const [described] = await loadPipelineDetails(db, [pipeline]);
+    return described;
+  });
+}
@@ -1,9 +1,23 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { eq, and, desc } from 'drizzle-orm';
-import { projects, commits, projectHeads, workspaceMembers, assets, sourceReleases, sourceReleaseAssets, analyticsEvents } from '@phork/db';
-import type { TimelineSnapshot, ShotSnapshot } from '@phork/shared';
+import {
+  projects, commits, branches, workspaceMembers, assets, assetGrants,
+  sourceReleases, sourceReleaseAssets, analyticsEvents,
+} from '@phork/db';
+import type { TimelineSnapshot, ShotSnapshot, MergeResolution } from '@phork/shared';
+import {
+  createSnapshot, upgradeSnapshot, snapshotAssetIds, timelineDurationMs, diffSnapshots, mergeSnapshots,
+  snapshotSchema, v1SnapshotSchema, AUDIO_TRACK_KINDS, DEFAULT_BRANCH,
+} from '@phork/shared';
 import { TEMPLATES, getTemplate } from '../lib/templates';
+import { buildSubtitleCues, formatSrt, formatWebVtt } from '../lib/subtitles';
+import { getBranch, commitToBranch, resolveCommitRef, parseCommitRef, describeCommitRef } from '../lib/branches';
+import { getProjectForMember, getProjectLineage, getSharedCommitId } from '../lib/projects';
+import {
+  checkSnapshotAssets, firstParentChain, hasAssetGrant, insertCommit, loadCommits, parentSnapshot, projectHasCommit,
+} from '../lib/commits';
+import { blameCommit } from '../lib/blame';
 
 const createProjectSchema = z.object({
   workspaceId: z.string().uuid(),
@@ -12,29 +26,135 @@ const createProjectSchema = z.object({
   templateId: z.string().optional(),
 });
 
+// v2 is tried first; v1 (no schema_version, shots only) is still accepted and upgraded on write
 const createCommitSchema = z.object({
+  // Branch to commit to; defaults to the project's default branch
+  branch: z.string().optional(),
   parentCommitId: z.string().uuid().nullable().optional(),
+  // Only commit if the branch head is still this commit; 409 with the current head otherwise
+  expectedHeadCommitId: z.string().uuid().optional(),
   message: z.string().min(1),
-  snapshot: z.object({
-    timeline: z.array(z.object({
-      shot_id: z.string(),
-      visual_asset_id: z.string().nullable(),
-      audio_asset_id: z.string().nullable(),
-      duration_ms: z.number().int().positive(),
-      trim_in_ms: z.number().int().min(0),
-      trim_out_ms: z.number().int().min(0),
-      subtitle: z.string().nullable(),
-    })),
-  }),
+  snapshot: z.union([snapshotSchema, v1SnapshotSchema]),
+});
+
+const replaySchema = z.object({
+  // Branch to commit to; defaults to the project's default branch
+  branch: z.string().optional(),
+  expectedHeadCommitId: z.string().uuid().optional(),
+  // Conflict key (see conflictKey) → side that wins ('source' applies the replayed change)
+  resolutions: z.record(z.enum(['target', 'source'])).optional(),
+  message: z.string().min(1).optional(),
+});
+
+const cherryPickSchema = replaySchema.extend({
+  // Commit to apply; may belong to any project in the same fork family
+  commitId: z.string().uuid(),
 });
 
 const forkProjectSchema = z.object({
-  fromCommitId: z.string().uuid(),
+  // Fork point: a commit, or a tag naming one
+  fromCommitId: z.string().uuid().optional(),
+  fromTag: z.string().optional(),
   name: z.string().min(1),
   truncateAtShotIndex: z.number().int().min(0).optional(),
   sourceReleaseId: z.string().uuid().optional(),
+  // Workspace to create the fork in; defaults to the source project's
+  targetWorkspaceId: z.string().uuid().optional(),
+}).refine((b) => Boolean(b.fromCommitId) !== Boolean(b.fromTag), {
+  message: 'Provide exactly one of fromCommitId or fromTag',
 });
 
+/**
+ * Keep shots up to and including `shotIndex`. Lane clips that start after
+ * the new end are dropped; the renderer cuts any overhang.
+ */
+function truncateSnapshot(snapshot: TimelineSnapshot, shotIndex: number): TimelineSnapshot | null {
+  if (shotIndex >= snapshot.timeline.length) return null;
+  const timeline = snapshot.timeline.slice(0, shotIndex + 1);
+  const endMs = timelineDurationMs(timeline);
+  const tracks = { ...snapshot.tracks };
+  for (const kind of AUDIO_TRACK_KINDS) {
+    tracks[kind] = snapshot.tracks[kind].filter((c) => c.start_ms < endMs);
+  }
+  return createSnapshot(timeline, tracks);
+}
+
+/**
+ * Apply the change from `before` to `after` onto a branch head as a new
+ * commit: a three-way merge with `before` as the base, the head as the
+ * target and `after` as the source. Used by revert (before/after swapped)
+ * and cherry-pick. Conflicts with later edits return 409 until resolved.
+ */
+async function replayOntoBranch(db: any, reply: any, opts: {
+  project: any;
+  body: z.infer<typeof replaySchema>;
+  userId: string;
+  before: TimelineSnapshot;
+  after: TimelineSnapshot;
+  /** Workspaces whose assets the result may reference */
+  workspaceIds: string[];
+  defaultMessage: string;
+}) {
+  const { project, body } = opts;
+  const branchName = body.branch || project.defaultBranch;
+  const branch = await getBranch(db, project.id, branchName);
+  if (!branch) {
+    return reply.status(404).send({ error: 'Not Found', message: `Branch "${branchName}" not found`, statusCode: 404 });
+  }
+  if (body.expectedHeadCommitId && body.expectedHeadCommitId !== branch.headCommitId) {
+    return sendHeadMoved(db, reply, project.id, branchName);
+  }
+
+  const [head] = await db.select().from(commits).where(eq(commits.id, branch.headCommitId)).limit(1);
+  const headSnapshot = upgradeSnapshot(head.snapshot);
+  const result = mergeSnapshots(opts.before, headSnapshot, opts.after, body.resolutions as Record<string, MergeResolution> | undefined);
+  if (result.conflicts.length > 0) {
+    return reply.status(409).send({
+      error: 'Conflict',
+      message: `${result.conflicts.length} unresolved conflict(s)`,
+      statusCode: 409,
+      conflicts: result.conflicts,
+    });
+  }
+
+  const assetError = await checkSnapshotAssets(db, result.snapshot, opts.workspaceIds);
+  if (assetError) {
+    return reply.status(assetError.statusCode).send(assetError);
+  }
+
+  // Guard on the head the merge was computed against, even without expectedHeadCommitId
+  const commit = await commitToBranch(db, branchName, head.id, {
+    projectId: project.id,
+    parentCommitId: head.id,
+    message: body.message || opts.defaultMessage,
+    createdBy: opts.userId,
+    snapshot: result.snapshot,
+  });
+  if (!commit) {
+    return sendHeadMoved(db, reply, project.id, branchName);
+  }
+
+  return reply.status(201).send({ ...commit, branch: branchName, diff: diffSnapshots(headSnapshot, result.snapshot) });
+}
+
+/** 409 for a stale save, with the current branch head so the client can rebase or diff */
+async function sendHeadMoved(db: any, reply: any, projectId: string, branchName: string) {
+  const branch = await getBranch(db, projectId, branchName);
+  const [head] = branch
+    ? await db.select().from(commits).where(eq(commits.id, branch.headCommitId)).limit(1)
+    : [];
+  return reply.status(409).send({
+    error: 'Conflict',
+    message: branch
+      ? `Branch "${branchName}" has moved since you loaded it`
+      : `Branch "${branchName}" no longer exists`,
+    statusCode: 409,
+    branch: branchName,
+    currentHeadCommitId: head?.id || null,
+    currentHead: head ? { ...head, snapshot: upgradeSnapshot(head.snapshot) } : null,
+  });
+}
+
 export async function projectRoutes(app: FastifyInstance) {
   // All project routes require auth (except templates)
   app.addHook('preHandler', (app as any).authenticate);
@@ -66,7 +186,7 @@ export async function projectRoutes(app: FastifyInstance) {
     }).returning();
 
     // Create initial commit — use template if provided, otherwise empty
-    let initialSnapshot: TimelineSnapshot = { timeline: [] };
+    let initialSnapshot: TimelineSnapshot = createSnapshot();
     let commitMessage = 'Initial commit';
 
     if (body.templateId) {
@@ -74,8 +194,8 @@ export async function projectRoutes(app: FastifyInstance) {
       if (!template) {
         return reply.status(400).send({ error: 'Bad Request', message: `Unknown template: ${body.templateId}`, statusCode: 400 });
       }
-      initialSnapshot = {
-        timeline: template.shots.map((s) => ({
+      initialSnapshot = createSnapshot(
+        template.shots.map((s) => ({
           shot_id: s.shot_id,
           visual_asset_id: null,
           audio_asset_id: null,
@@ -83,29 +203,32 @@ export async function projectRoutes(app: FastifyInstance) {
           trim_in_ms: 0,
           trim_out_ms: s.duration_ms,
           subtitle: s.subtitle,
+          chapter: s.label,
         })),
-      };
+      );
       commitMessage = `Initial commit from template: ${template.name}`;
     }
 
-    const [commit] = await db.insert(commits).values({
+    const commit = await insertCommit(db, {
       projectId: project.id,
       parentCommitId: null,
       message: commitMessage,
       createdBy: userId,
       snapshot: initialSnapshot,
-    }).returning();
+    });
 
-    // Set project head
-    await db.insert(projectHeads).values({
+    // Start the default branch at the initial commit
+    await db.insert(branches).values({
       projectId: project.id,
+      name: project.defaultBranch || DEFAULT_BRANCH,
       headCommitId: commit.id,
+      createdBy: userId,
     });
 
-    return reply.status(201).send({ project, headCommit: commit });
+    return reply.status(201).send({ project, headCommit: commit, branch: project.defaultBranch || DEFAULT_BRANCH });
   });
 
-  // Get project
+  // Get project, with the head of ?branch= (default branch if omitted)
   app.get('/:id', async (request: any, reply) => {
     const db = (app as any).db;
     const projectId = request.params.id;
@@ -115,13 +238,19 @@ export async function projectRoutes(app: FastifyInstance) {
       return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
     }
 
-    const [head] = await db.select().from(projectHeads).where(eq(projectHeads.projectId, projectId)).limit(1);
+    const branchName = (request.query as any).branch || project.defaultBranch;
+    const branch = await getBranch(db, projectId, branchName);
+    if (!branch && (request.query as any).branch) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+    }
+
     let headCommit = null;
-    if (head) {
-      [headCommit] = await db.select().from(commits).where(eq(commits.id, head.headCommitId)).limit(1);
+    if (branch) {
+      [headCommit] = await db.select().from(commits).where(eq(commits.id, branch.headCommitId)).limit(1);
+      if (headCommit) headCommit = { ...headCommit, snapshot: upgradeSnapshot(headCommit.snapshot) };
     }
 
-    return { project, headCommit };
+    return { project, headCommit, branch: branchName };
   });
 
   // List projects in workspace
@@ -154,66 +283,123 @@ export async function projectRoutes(app: FastifyInstance) {
 
     const projectWorkspaceId = project.workspaceId;
 
-    // Validate all referenced asset IDs have valid mint receipts
-    const snapshot = body.snapshot as TimelineSnapshot;
-    for (const shot of snapshot.timeline) {
-      if (shot.visual_asset_id) {
-        const [asset] = await db.select().from(assets).where(eq(assets.id, shot.visual_asset_id)).limit(1);
-        if (!asset || !asset.mintReceiptSig) {
-          return reply.status(400).send({
-            error: 'Bad Request',
-            message: `Asset ${shot.visual_asset_id} not found or missing mint receipt. Only platform-generated assets are allowed.`,
-            statusCode: 400,
-          });
-        }
-        if (asset.workspaceId !== projectWorkspaceId) {
-          return reply.status(403).send({
-            error: 'Forbidden',
-            message: 'Asset belongs to a different workspace',
-            statusCode: 403,
-          });
-        }
-      }
-      if (shot.audio_asset_id) {
-        const [asset] = await db.select().from(assets).where(eq(assets.id, shot.audio_asset_id)).limit(1);
-        if (!asset || !asset.mintReceiptSig) {
-          return reply.status(400).send({
-            error: 'Bad Request',
-            message: `Asset ${shot.audio_asset_id} not found or missing mint receipt. Only platform-generated assets are allowed.`,
-            statusCode: 400,
-          });
-        }
-        if (asset.workspaceId !== projectWorkspaceId) {
-          return reply.status(403).send({
-            error: 'Forbidden',
-            message: 'Asset belongs to a different workspace',
-            statusCode: 403,
-          });
-        }
-      }
+    const branchName = body.branch || project.defaultBranch;
+    const branch = await getBranch(db, projectId, branchName);
+    if (!branch) {
+      return reply.status(404).send({ error: 'Not Found', message: `Branch "${branchName}" not found`, statusCode: 404 });
     }
 
-    // Determine parent commit
-    let parentCommitId = body.parentCommitId || null;
-    if (!parentCommitId) {
-      const [head] = await db.select().from(projectHeads).where(eq(projectHeads.projectId, projectId)).limit(1);
-      parentCommitId = head?.headCommitId || null;
+    // Commits are always stored in the current snapshot format
+    const snapshot = upgradeSnapshot(body.snapshot);
+
+    // Validate all referenced asset IDs (shots and audio lanes) have valid mint receipts
+    const assetError = await checkSnapshotAssets(db, snapshot, [projectWorkspaceId]);
+    if (assetError) {
+      return reply.status(assetError.statusCode).send(assetError);
+    }
+
+    // Reject stale saves up front; the branch move below re-checks atomically
+    if (body.expectedHeadCommitId && body.expectedHeadCommitId !== branch.headCommitId) {
+      return sendHeadMoved(db, reply, projectId, branchName);
     }
 
-    const [commit] = await db.insert(commits).values({
+    // Parent defaults to the head the client saw, else the branch head
+    const parentCommitId = body.parentCommitId || body.expectedHeadCommitId || branch.headCommitId;
+
+    const commit = await commitToBranch(db, branchName, body.expectedHeadCommitId, {
       projectId,
       parentCommitId,
       message: body.message,
       createdBy: userId,
-      snapshot: body.snapshot,
-    }).returning();
+      snapshot,
+    });
+    if (!commit) {
+      return sendHeadMoved(db, reply, projectId, branchName);
+    }
 
-    // Update head
-    await db.update(projectHeads)
-      .set({ headCommitId: commit.id })
-      .where(eq(projectHeads.projectId, projectId));
+    return reply.status(201).send({ ...commit, branch: branchName });
+  });
 
-    return reply.status(201).send(commit);
+  // POST /projects/:id/commits/:commitId/revert — new commit undoing a commit's changes
+  app.post('/:id/commits/:commitId/revert', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = replaySchema.parse(request.body ?? {});
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const [target] = await db.select().from(commits).where(eq(commits.id, request.params.commitId)).limit(1);
+    if (!target || !(await projectHasCommit(db, project.id, target.id))) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Commit not found', statusCode: 404 });
+    }
+
+    // Undo relative to the first parent, so reverting a merge undoes what it brought in
+    return replayOntoBranch(db, reply, {
+      project,
+      body,
+      userId,
+      before: upgradeSnapshot(target.snapshot),
+      after: await parentSnapshot(db, target),
+      workspaceIds: [project.workspaceId],
+      defaultMessage: `Revert "${target.message}" (${target.id.slice(0, 8)})`,
+    });
+  });
+
+  // POST /projects/:id/cherry-pick — apply one commit's changes from the fork family
+  app.post('/:id/cherry-pick', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = cherryPickSchema.parse(request.body);
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const [picked] = await db.select().from(commits).where(eq(commits.id, body.commitId)).limit(1);
+    if (!picked) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Commit not found', statusCode: 404 });
+    }
+
+    const workspaceIds = [project.workspaceId];
+    if (picked.projectId !== project.id) {
+      const lineage = await getProjectLineage(db, project.id);
+      const sourceLineage = await getProjectLineage(db, picked.projectId);
+      if (lineage[lineage.length - 1] !== sourceLineage[sourceLineage.length - 1]) {
+        return reply.status(400).send({ error: 'Bad Request', message: 'Commit is not in this project\'s fork family', statusCode: 400 });
+      }
+      // Members of the commit's workspace may pick anything from it, assets included. Anyone
+      // else only gets commits already in this history or shared publicly, and only with
+      // assets this workspace owns or was granted.
+      const { project: source, membership: sourceMembership } = await getProjectForMember(db, picked.projectId, userId);
+      if (sourceMembership) {
+        workspaceIds.push(source.workspaceId);
+      } else if (
+        !(await projectHasCommit(db, project.id, picked.id))
+        && (await getSharedCommitId(db, picked.projectId)) !== picked.id
+      ) {
+        return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of the commit\'s workspace', statusCode: 403 });
+      }
+    }
+
+    return replayOntoBranch(db, reply, {
+      project,
+      body,
+      userId,
+      before: await parentSnapshot(db, picked),
+      after: upgradeSnapshot(picked.snapshot),
+      workspaceIds,
+      defaultMessage: `Cherry-pick "${picked.message}" (${picked.id.slice(0, 8)})`,
+    });
   });
 
   // Get commit
@@ -226,19 +412,139 @@ export async function projectRoutes(app: FastifyInstance) {
       return reply.status(404).send({ error: 'Not Found', message: 'Commit not found', statusCode: 404 });
     }
 
-    return commit;
+    return { ...commit, snapshot: upgradeSnapshot(commit.snapshot) };
   });
 
-  // List commits for project
-  app.get('/:id/commits', async (request: any) => {
+  // Export shot subtitles for a commit as SRT or WebVTT
+  app.get('/:id/commits/:commitId/subtitles', async (request: any, reply) => {
     const db = (app as any).db;
     const projectId = request.params.id;
+    const commitId = request.params.commitId;
+    const userId = request.user.userId;
+    const format = (request.query as any).format || 'srt';
 
-    const result = await db.select().from(commits)
-      .where(eq(commits.projectId, projectId))
-      .orderBy(desc(commits.createdAt));
+    if (format !== 'srt' && format !== 'vtt') {
+      return reply.status(400).send({ error: 'Bad Request', message: 'format must be srt or vtt', statusCode: 400 });
+    }
 
-    return { data: result };
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+
+    const [membership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, project.workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const [commit] = await db.select().from(commits).where(eq(commits.id, commitId)).limit(1);
+    if (!commit || !(await projectHasCommit(db, projectId, commit.id))) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Commit not found', statusCode: 404 });
+    }
+
+    const cues = buildSubtitleCues(upgradeSnapshot(commit.snapshot).timeline);
+    return reply
+      .type(format === 'vtt' ? 'text/vtt; charset=utf-8' : 'application/x-subrip; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${commitId}.${format}"`)
+      .send(format === 'vtt' ? formatWebVtt(cues) : formatSrt(cues));
+  });
+
+  // Shot-level diff between two commits. `from`/`to` take a commit ID or a
+  // branch name; `from` defaults to the parent of `to`.
+  app.get('/:id/diff', async (request: any, reply) => {
+    const db = (app as any).db;
+    const projectId = request.params.id;
+    const userId = request.user.userId;
+    const { from, to } = request.query as { from?: string; to?: string };
+
+    if (!to) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'to is required', statusCode: 400 });
+    }
+
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+
+    const [membership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, project.workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const toCommitId = await resolveCommitRef(db, projectId, parseCommitRef(to));
+    if (!toCommitId) {
+      return reply.status(404).send({ error: 'Not Found', message: `Unknown commit, branch or tag: ${to}`, statusCode: 404 });
+    }
+    const [toCommit] = await db.select().from(commits).where(eq(commits.id, toCommitId)).limit(1);
+
+    let fromCommit = null;
+    if (from) {
+      const fromCommitId = await resolveCommitRef(db, projectId, parseCommitRef(from));
+      if (!fromCommitId) {
+        return reply.status(404).send({ error: 'Not Found', message: `Unknown commit, branch or tag: ${from}`, statusCode: 404 });
+      }
+      [fromCommit] = await db.select().from(commits).where(eq(commits.id, fromCommitId)).limit(1);
+    } else if (toCommit.parentCommitId) {
+      [fromCommit] = await db.select().from(commits).where(eq(commits.id, toCommit.parentCommitId)).limit(1);
+    }
+
+    // A root commit is diffed against an empty timeline
+    const diff = diffSnapshots(
+      fromCommit ? upgradeSnapshot(fromCommit.snapshot) : createSnapshot(),
+      upgradeSnapshot(toCommit.snapshot),
+    );
+
+    return { from: fromCommit?.id || null, to: toCommit.id, ...diff };
+  });
+
+  // Per-field authorship for every shot in a commit (?commitId=, or ?branch= head, default branch if omitted)
+  app.get('/:id/blame', async (request: any, reply) => {
+    const db = (app as any).db;
+    const { commitId, branch } = request.query as { commitId?: string; branch?: string };
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const resolved = await resolveCommitRef(db, project.id, commitId ? { commitId } : { branch: branch || project.defaultBranch });
+    if (!resolved) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: commitId ? 'Commit not found' : `${describeCommitRef({ branch: branch || project.defaultBranch })} not found`,
+        statusCode: 404,
+      });
+    }
+
+    return blameCommit(db, project.id, resolved);
+  });
+
+  // List commits for project; ?branch= limits it to that branch's history
+  app.get('/:id/commits', async (request: any, reply) => {
+    const db = (app as any).db;
+    const projectId = request.params.id;
+    const branchName = (request.query as any).branch;
+
+    // A fork's history includes the parent commits it shares
+    const byId = await loadCommits(db, projectId);
+    let result = [...byId.values()].sort((a: any, b: any) => b.createdAt - a.createdAt);
+
+    if (branchName) {
+      const branch = await getBranch(db, projectId, branchName);
+      if (!branch) {
+        return reply.status(404).send({ error: 'Not Found', message: 'Branch not found', statusCode: 404 });
+      }
+      result = firstParentChain(byId, branch.headCommitId);
+    }
+
+    return { data: result.map((c: any) => ({ ...c, snapshot: upgradeSnapshot(c.snapshot) })) };
   });
 
   // Fork project
@@ -249,100 +555,136 @@ export async function projectRoutes(app: FastifyInstance) {
     const body = forkProjectSchema.parse(request.body);
 
     // Get source project
-    const [sourceProject] = await db.select().from(projects).where(eq(projects.id, sourceProjectId)).limit(1);
+    const { project: sourceProject, membership: sourceMembership } = await getProjectForMember(db, sourceProjectId, userId);
     if (!sourceProject) {
       return reply.status(404).send({ error: 'Not Found', message: 'Source project not found', statusCode: 404 });
     }
 
+    const targetWorkspaceId = body.targetWorkspaceId || sourceProject.workspaceId;
+    const crossWorkspace = targetWorkspaceId !== sourceProject.workspaceId;
+    const [targetMembership] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, targetWorkspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    if (!targetMembership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of the target workspace', statusCode: 403 });
+    }
+
     // Get the fork point commit
-    const [forkCommit] = await db.select().from(commits).where(eq(commits.id, body.fromCommitId)).limit(1);
-    if (!forkCommit || forkCommit.projectId !== sourceProjectId) {
-      return reply.status(400).send({ error: 'Bad Request', message: 'Invalid fork commit', statusCode: 400 });
+    const fromCommitId = await resolveCommitRef(db, sourceProjectId, { commitId: body.fromCommitId, tag: body.fromTag });
+    if (!fromCommitId) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: body.fromTag ? `${describeCommitRef({ tag: body.fromTag })} not found` : 'Invalid fork commit',
+        statusCode: 400,
+      });
     }
+    const [forkCommit] = await db.select().from(commits).where(eq(commits.id, fromCommitId)).limit(1);
 
-    // Create new project with fork references
-    const [newProject] = await db.insert(projects).values({
-      workspaceId: sourceProject.workspaceId,
-      name: body.name,
-      description: `Forked from ${sourceProject.name}`,
-      createdBy: userId,
-      parentProjectId: sourceProjectId,
-      forkedFromCommitId: body.fromCommitId,
-    }).returning();
+    // Outsiders can only fork what was shared with them: the commit behind a published render with a share link
+    if (!sourceMembership) {
+      if ((await getSharedCommitId(db, sourceProjectId)) !== forkCommit.id) {
+        return reply.status(403).send({ error: 'Forbidden', message: 'Only the shared published commit of this project can be forked', statusCode: 403 });
+      }
+    }
 
-    // Copy commit history up to fork point
-    // Walk backwards from fork commit to root
-    const commitChain: typeof forkCommit[] = [];
-    let current: typeof forkCommit | null = forkCommit;
-    while (current) {
-      commitChain.unshift(current);
-      if (current.parentCommitId) {
-        const [parent] = await db.select().from(commits).where(eq(commits.id, current.parentCommitId)).limit(1);
-        current = parent || null;
-      } else {
-        current = null;
+    let release: any = null;
+    if (body.sourceReleaseId) {
+      [release] = await db.select().from(sourceReleases)
+        .where(and(eq(sourceReleases.id, body.sourceReleaseId), eq(sourceReleases.projectId, sourceProjectId)))
+        .limit(1);
+      if (!release) {
+        return reply.status(400).send({ error: 'Bad Request', message: 'Source release not found', statusCode: 400 });
       }
     }
 
-    // Re-create commits in new project with new IDs, preserving parent chain
-    const idMap = new Map<string, string>();
-    let lastNewCommitId: string | null = null;
+    // A release's license governs forks that use it; otherwise the project's does.
+    // Forks within the source workspace are the owner's own copies and aren't restricted.
+    const license = release?.license || sourceProject.forkLicense || 'no_forks';
+    if (crossWorkspace && license === 'no_forks') {
+      return reply.status(403).send({ error: 'Forbidden', message: 'This project does not allow forks outside its workspace', statusCode: 403 });
+    }
 
-    for (const oldCommit of commitChain) {
-      const newParentId = oldCommit.parentCommitId ? idMap.get(oldCommit.parentCommitId) || null : null;
-      const [newCommit] = await db.insert(commits).values({
-        projectId: newProject.id,
-        parentCommitId: newParentId,
-        message: oldCommit.message,
-        createdBy: oldCommit.createdBy,
-        snapshot: oldCommit.snapshot,
-      }).returning();
-      idMap.set(oldCommit.id, newCommit.id);
-      lastNewCommitId = newCommit.id;
-    }
-
-    // If truncateAtShotIndex is specified, truncate the final commit's timeline
-    if (body.truncateAtShotIndex !== undefined && lastNewCommitId) {
-      const [lastCommit] = await db.select().from(commits).where(eq(commits.id, lastNewCommitId)).limit(1);
-      if (lastCommit) {
-        const snap = lastCommit.snapshot as TimelineSnapshot;
-        if (snap.timeline && body.truncateAtShotIndex < snap.timeline.length) {
-          const truncatedSnapshot: TimelineSnapshot = {
-            timeline: snap.timeline.slice(0, body.truncateAtShotIndex + 1),
-          };
-          await db.update(commits)
-            .set({ snapshot: truncatedSnapshot })
-            .where(eq(commits.id, lastNewCommitId));
-        }
+    const forkSnapshot = body.truncateAtShotIndex !== undefined
+      ? truncateSnapshot(upgradeSnapshot(forkCommit.snapshot), body.truncateAtShotIndex)
+      : null;
+
+    // A fork in another workspace can only use assets the release grants it
+    const releaseAssetIds: string[] = release
+      ? (await db.select().from(sourceReleaseAssets).where(eq(sourceReleaseAssets.sourceReleaseId, release.id))).map((ra: any) => ra.assetId)
+      : [];
+    if (crossWorkspace) {
+      for (const assetId of snapshotAssetIds(forkSnapshot || upgradeSnapshot(forkCommit.snapshot))) {
+        if (releaseAssetIds.includes(assetId)) continue;
+        const [asset] = await db.select().from(assets).where(eq(assets.id, assetId)).limit(1);
+        if (asset?.workspaceId === targetWorkspaceId || await hasAssetGrant(db, assetId, [targetWorkspaceId])) continue;
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: `Asset ${assetId} is not in the chosen source release; forking into another workspace needs a release that includes the timeline's assets`,
+          statusCode: 400,
+        });
       }
     }
 
-    // Set head to the last copied commit
-    if (lastNewCommitId) {
-      await db.insert(projectHeads).values({
+    // Create new project with fork references; the source's fork terms carry over
+    let [newProject] = await db.insert(projects).values({
+      workspaceId: targetWorkspaceId,
+      name: body.name,
+      description: `Forked from ${sourceProject.name}`,
+      createdBy: userId,
+      parentProjectId: sourceProjectId,
+      forkedFromCommitId: forkCommit.id,
+      forkBaseCommitId: forkCommit.id,
+      forkLicense: license,
+    }).returning();
+
+    // History is shared, not copied: the fork starts at the fork point itself,
+    // or at one new commit on top of it holding the truncated timeline
+    let headCommit = forkCommit;
+    if (forkSnapshot) {
+      headCommit = await insertCommit(db, {
         projectId: newProject.id,
-        headCommitId: lastNewCommitId,
+        parentCommitId: forkCommit.id,
+        message: `Fork: keep the first ${forkSnapshot.timeline.length} shot${forkSnapshot.timeline.length === 1 ? '' : 's'}`,
+        createdBy: userId,
+        snapshot: forkSnapshot,
       });
+      [newProject] = await db.update(projects)
+        .set({ forkBaseCommitId: headCommit.id })
+        .where(eq(projects.id, newProject.id))
+        .returning();
     }
 
+    await db.insert(branches).values({
+      projectId: newProject.id,
+      name: newProject.defaultBranch || DEFAULT_BRANCH,
+      headCommitId: headCommit.id,
+      createdBy: userId,
+    });
+
     // Handle source release: copy release reference for the forked project
     let releaseUsed = null;
-    if (body.sourceReleaseId) {
-      const [release] = await db.select().from(sourceReleases)
-        .where(and(eq(sourceReleases.id, body.sourceReleaseId), eq(sourceReleases.projectId, sourceProjectId)))
-        .limit(1);
-      if (release) {
-        releaseUsed = { releaseId: release.id, releaseName: release.name };
-
-        // Record analytics
-        await db.insert(analyticsEvents).values({
-          workspaceId: sourceProject.workspaceId,
-          userId,
-          projectId: sourceProjectId,
-          event: 'release_used',
-          metadata: { releaseId: release.id, forkProjectId: newProject.id },
-        });
+    if (release) {
+      releaseUsed = { releaseId: release.id, releaseName: release.name, grantedAssetCount: 0 };
+
+      // Grant the release's assets to the fork's workspace so its commits pass the asset check
+      if (crossWorkspace && releaseAssetIds.length > 0) {
+        await db.insert(assetGrants).values(releaseAssetIds.map((assetId) => ({
+          assetId,
+          workspaceId: targetWorkspaceId,
+          sourceReleaseId: release.id,
+          projectId: newProject.id,
+        }))).onConflictDoNothing();
+        releaseUsed.grantedAssetCount = releaseAssetIds.length;
       }
+
+      // Record analytics
+      await db.insert(analyticsEvents).values({
+        workspaceId: sourceProject.workspaceId,
+        userId,
+        projectId: sourceProjectId,
+        event: 'release_used',
+        metadata: { releaseId: release.id, forkProjectId: newProject.id },
+      });
     }
 
     // Record fork_created analytics
@@ -351,13 +693,14 @@ export async function projectRoutes(app: FastifyInstance) {
       userId,
       projectId: sourceProjectId,
       event: 'fork_created',
-      metadata: { forkProjectId: newProject.id, fromCommitId: body.fromCommitId },
+      metadata: { forkProjectId: newProject.id, fromCommitId: forkCommit.id, targetWorkspaceId },
     });
 
     return reply.status(201).send({
       project: newProject,
-      headCommitId: lastNewCommitId,
-      forkedFrom: { projectId: sourceProjectId, commitId: body.fromCommitId },
+      headCommitId: headCommit.id,
+      forkedFrom: { projectId: sourceProjectId, commitId: forkCommit.id },
+      license,
       releaseUsed,
     });
   });
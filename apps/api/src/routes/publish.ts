@@ -7,17 +7,53 @@ import {
   users, sourceReleases, sourceReleaseAssets, analyticsEvents,
 } from '@phork/db';
 import { generateSignedUrl } from '../lib/storage';
-import type { TimelineSnapshot } from '@phork/shared';
+import { buildSubtitleCues, formatWebVtt } from '../lib/subtitles';
+import { resolveCommitRef, describeCommitRef } from '../lib/branches';
+import { publishRender } from '../lib/publish';
+import { upgradeSnapshot, timelineDurationMs, buildChapters } from '@phork/shared';
 
 const publishSchema = z.object({
   projectId: z.string().uuid(),
   renderAssetId: z.string().uuid(),
-  commitId: z.string().uuid(),
+  // The published commit, a branch whose current head is published, or a tag
+  commitId: z.string().uuid().optional(),
+  branch: z.string().optional(),
+  tag: z.string().optional(),
   title: z.string().optional(),
   description: z.string().optional(),
   enableShareLink: z.boolean().optional().default(false),
+}).refine((b) => [b.commitId, b.branch, b.tag].filter(Boolean).length === 1, {
+  message: 'Provide exactly one of commitId, branch or tag',
 });
 
+/** Viewer access to a published render: workspace member OR valid share token */
+async function authorizeViewer(
+  db: any,
+  request: any,
+  pub: { projectId: string; shareToken: string | null },
+  shareToken: string | undefined,
+): Promise<{ authed: boolean; viewerUserId: string | null }> {
+  if (shareToken && pub.shareToken === shareToken) {
+    return { authed: true, viewerUserId: null };
+  }
+
+  try {
+    await request.jwtVerify();
+    const viewerUserId: string = request.user.userId;
+    const [project] = await db.select().from(projects).where(eq(projects.id, pub.projectId)).limit(1);
+    if (project) {
+      const [membership] = await db.select().from(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, project.workspaceId), eq(workspaceMembers.userId, viewerUserId)))
+        .limit(1);
+      if (membership) return { authed: true, viewerUserId };
+    }
+    return { authed: false, viewerUserId };
+  } catch {
+    // Not authenticated
+    return { authed: false, viewerUserId: null };
+  }
+}
+
 export async function publishRoutes(app: FastifyInstance) {
   // POST /publish — publish a render
   app.post('/', { preHandler: [(app as any).authenticate] }, async (request: any, reply) => {
@@ -44,26 +80,21 @@ export async function publishRoutes(app: FastifyInstance) {
       return reply.status(400).send({ error: 'Bad Request', message: 'Invalid render asset', statusCode: 400 });
     }
 
-    // Verify commit exists
-    const [commit] = await db.select().from(commits).where(eq(commits.id, body.commitId)).limit(1);
-    if (!commit || commit.projectId !== body.projectId) {
-      return reply.status(400).send({ error: 'Bad Request', message: 'Invalid commit', statusCode: 400 });
+    // Verify the commit (or branch head) belongs to the project
+    const commitId = await resolveCommitRef(db, body.projectId, { commitId: body.commitId, branch: body.branch, tag: body.tag });
+    if (!commitId) {
+      return reply.status(400).send({ error: 'Bad Request', message: body.commitId ? 'Invalid commit' : `${describeCommitRef(body)} not found`, statusCode: 400 });
     }
 
-    const shareToken = body.enableShareLink ? randomBytes(24).toString('base64url') : null;
-
-    // Upsert (delete existing + insert, since one published render per project)
-    await db.delete(publishedRenders).where(eq(publishedRenders.projectId, body.projectId));
-
-    const [pub] = await db.insert(publishedRenders).values({
-      projectId: body.projectId,
+    const pub = await publishRender(db, {
+      project,
       renderAssetId: body.renderAssetId,
-      commitId: body.commitId,
-      title: body.title || project.name,
-      description: body.description || project.description,
-      shareToken,
-      publishedBy: userId,
-    }).returning();
+      commitId,
+      userId,
+      title: body.title,
+      description: body.description,
+      enableShareLink: body.enableShareLink,
+    });
 
     // Generate download URL
     const protocol = request.protocol || 'http';
@@ -87,29 +118,7 @@ export async function publishRoutes(app: FastifyInstance) {
     }
 
     // Auth: workspace member OR valid share token
-    let authed = false;
-    let viewerUserId: string | null = null;
-
-    if (shareToken && pub.shareToken === shareToken) {
-      authed = true;
-    }
-
-    if (!authed) {
-      try {
-        await (request as any).jwtVerify();
-        viewerUserId = request.user.userId;
-        const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
-        if (project) {
-          const [membership] = await db.select().from(workspaceMembers)
-            .where(and(eq(workspaceMembers.workspaceId, project.workspaceId), eq(workspaceMembers.userId, viewerUserId!)))
-            .limit(1);
-          if (membership) authed = true;
-        }
-      } catch {
-        // Not authenticated
-      }
-    }
-
+    const { authed, viewerUserId } = await authorizeViewer(db, request, pub, shareToken);
     if (!authed) {
       return reply.status(401).send({ error: 'Unauthorized', message: 'Login required or provide a valid share token', statusCode: 401 });
     }
@@ -119,8 +128,8 @@ export async function publishRoutes(app: FastifyInstance) {
     const [commit] = await db.select().from(commits).where(eq(commits.id, pub.commitId)).limit(1);
     const [creator] = await db.select().from(users).where(eq(users.id, pub.publishedBy)).limit(1);
 
-    const snapshot = commit?.snapshot as TimelineSnapshot | undefined;
-    const totalDurationMs = snapshot?.timeline?.reduce((sum, s) => sum + s.duration_ms, 0) || 0;
+    const snapshot = commit ? upgradeSnapshot(commit.snapshot) : undefined;
+    const totalDurationMs = snapshot ? timelineDurationMs(snapshot.timeline) : 0;
 
     // Fetch available source releases
     const releases = await db.select().from(sourceReleases).where(eq(sourceReleases.projectId, projectId));
@@ -145,14 +154,37 @@ export async function publishRoutes(app: FastifyInstance) {
       project: project ? { id: project.id, name: project.name, description: project.description, forkLicense: project.forkLicense } : null,
       publishedRender: pub,
       downloadUrl,
-      commitSnapshot: snapshot || { timeline: [] },
+      commitSnapshot: snapshot || upgradeSnapshot(null),
       creator: creator ? { displayName: creator.displayName || creator.email } : null,
       totalDurationMs,
       shotCount: snapshot?.timeline?.length || 0,
+      chapters: snapshot ? buildChapters(snapshot.timeline) : [],
       releases,
     };
   });
 
+  // GET /publish/:projectId/captions.vtt — WebVTT captions for the published commit
+  app.get('/:projectId/captions.vtt', async (request: any, reply) => {
+    const db = (app as any).db;
+    const projectId = request.params.projectId;
+    const shareToken = (request.query as any).shareToken;
+
+    const [pub] = await db.select().from(publishedRenders).where(eq(publishedRenders.projectId, projectId)).limit(1);
+    if (!pub) {
+      return reply.status(404).send({ error: 'Not Found', message: 'No published render for this project', statusCode: 404 });
+    }
+
+    const { authed } = await authorizeViewer(db, request, pub, shareToken);
+    if (!authed) {
+      return reply.status(401).send({ error: 'Unauthorized', message: 'Login required or provide a valid share token', statusCode: 401 });
+    }
+
+    const [commit] = await db.select().from(commits).where(eq(commits.id, pub.commitId)).limit(1);
+    const cues = commit ? buildSubtitleCues(upgradeSnapshot(commit.snapshot).timeline) : [];
+
+    return reply.type('text/vtt; charset=utf-8').send(formatWebVtt(cues));
+  });
+
   // DELETE /publish/:projectId — unpublish
   app.delete('/:projectId', { preHandler: [(app as any).authenticate] }, async (request: any, reply) => {
     const db = (app as any).db;
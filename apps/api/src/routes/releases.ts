@@ -2,10 +2,11 @@ import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { eq, and, inArray, desc } from 'drizzle-orm';
 import {
-  sourceReleases, sourceReleaseAssets, projects, commits, projectHeads,
-  assets, workspaceMembers,
+  sourceReleases, sourceReleaseAssets, projects, commits,
+  assets, assetGrants, workspaceMembers,
 } from '@phork/db';
-import type { TimelineSnapshot } from '@phork/shared';
+import { upgradeSnapshot, snapshotAssetIds } from '@phork/shared';
+import { getBranchHeadCommitId } from '../lib/branches';
 
 const createReleaseSchema = z.object({
   name: z.string().min(1),
@@ -37,22 +38,15 @@ export async function releaseRoutes(app: FastifyInstance) {
       return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
     }
 
-    // Get head commit to determine "used" assets
-    const [head] = await db.select().from(projectHeads).where(eq(projectHeads.projectId, projectId)).limit(1);
-    if (!head) {
+    // Get the default branch head to determine "used" assets
+    const headCommitId = await getBranchHeadCommitId(db, projectId);
+    if (!headCommitId) {
       return reply.status(400).send({ error: 'Bad Request', message: 'Project has no commits', statusCode: 400 });
     }
-    const [headCommit] = await db.select().from(commits).where(eq(commits.id, head.headCommitId)).limit(1);
-    const snapshot = headCommit?.snapshot as TimelineSnapshot | undefined;
-
-    // Collect used asset IDs from snapshot
-    const usedAssetIds = new Set<string>();
-    if (snapshot?.timeline) {
-      for (const shot of snapshot.timeline) {
-        if (shot.visual_asset_id) usedAssetIds.add(shot.visual_asset_id);
-        if (shot.audio_asset_id) usedAssetIds.add(shot.audio_asset_id);
-      }
-    }
+    const [headCommit] = await db.select().from(commits).where(eq(commits.id, headCommitId)).limit(1);
+
+    // Collect used asset IDs from snapshot (shots and audio lanes)
+    const usedAssetIds = new Set<string>(headCommit ? snapshotAssetIds(upgradeSnapshot(headCommit.snapshot)) : []);
 
     // Determine which assets go into the release
     let releaseAssetIds: string[];
@@ -159,7 +153,8 @@ export async function releaseRoutes(app: FastifyInstance) {
       return reply.status(403).send({ error: 'Forbidden', message: 'Only owners/admins can delete releases', statusCode: 403 });
     }
 
-    // Delete join rows first, then release
+    // Delete join rows first, then release. Grants already given to forks stay.
+    await db.update(assetGrants).set({ sourceReleaseId: null }).where(eq(assetGrants.sourceReleaseId, releaseId));
     await db.delete(sourceReleaseAssets).where(eq(sourceReleaseAssets.sourceReleaseId, releaseId));
     await db.delete(sourceReleases).where(eq(sourceReleases.id, releaseId));
 
@@ -0,0 +1,171 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { eq, and, asc } from 'drizzle-orm';
+import { tags, commits } from '@phork/db';
+import { TAG_NAME_PATTERN } from '@phork/shared';
+import { getTag, resolveCommitRef } from '../lib/branches';
+import { getProjectForMember } from '../lib/projects';
+
+const tagNameSchema = z.string().regex(TAG_NAME_PATTERN, 'Tag names may contain letters, digits, ".", "_" and "-" (max 63 chars)');
+
+const createTagSchema = z.object({
+  name: tagNameSchema,
+  // Target: a commit, or a branch's current head. Defaults to the default branch.
+  commitId: z.string().uuid().optional(),
+  branch: z.string().optional(),
+  protected: z.boolean().optional(),
+});
+
+const updateTagSchema = z.object({
+  // Move the tag to a commit or a branch's current head
+  commitId: z.string().uuid().optional(),
+  branch: z.string().optional(),
+  protected: z.boolean().optional(),
+});
+
+const isOwnerOrAdmin = (membership: any) => ['owner', 'admin'].includes(membership.role);
+
+export async function tagRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', (app as any).authenticate);
+
+  // GET /projects/:id/tags — list tags with their commits
+  app.get('/:id/tags', async (request: any, reply) => {
+    const db = (app as any).db;
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const rows = await db.select({
+      tag: tags,
+      commitMessage: commits.message,
+      commitCreatedAt: commits.createdAt,
+    })
+      .from(tags)
+      .innerJoin(commits, eq(tags.commitId, commits.id))
+      .where(eq(tags.projectId, project.id))
+      .orderBy(asc(tags.name));
+
+    return {
+      data: rows.map((r: any) => ({ ...r.tag, commitMessage: r.commitMessage, commitCreatedAt: r.commitCreatedAt })),
+    };
+  });
+
+  // POST /projects/:id/tags — tag a commit
+  app.post('/:id/tags', async (request: any, reply) => {
+    const db = (app as any).db;
+    const userId = request.user.userId;
+    const body = createTagSchema.parse(request.body);
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+    if (body.protected && !isOwnerOrAdmin(membership)) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Only owners/admins can create protected tags', statusCode: 403 });
+    }
+
+    if (await getTag(db, project.id, body.name)) {
+      return reply.status(409).send({ error: 'Conflict', message: `Tag "${body.name}" already exists`, statusCode: 409 });
+    }
+
+    const commitId = await resolveCommitRef(db, project.id, {
+      commitId: body.commitId,
+      branch: body.commitId ? undefined : body.branch || project.defaultBranch,
+    });
+    if (!commitId) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'Commit or branch not found in this project', statusCode: 400 });
+    }
+
+    const [tag] = await db.insert(tags).values({
+      projectId: project.id,
+      name: body.name,
+      commitId,
+      protected: body.protected ?? false,
+      createdBy: userId,
+    }).onConflictDoNothing().returning();
+    if (!tag) {
+      // Lost a race with a concurrent create of the same name
+      return reply.status(409).send({ error: 'Conflict', message: `Tag "${body.name}" already exists`, statusCode: 409 });
+    }
+
+    return reply.status(201).send(tag);
+  });
+
+  // PATCH /projects/:id/tags/:name — move a tag or change its protection
+  app.patch('/:id/tags/:name', async (request: any, reply) => {
+    const db = (app as any).db;
+    const body = updateTagSchema.parse(request.body);
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const tag = await getTag(db, project.id, request.params.name);
+    if (!tag) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Tag not found', statusCode: 404 });
+    }
+
+    const moving = Boolean(body.commitId || body.branch);
+    const changingProtection = body.protected !== undefined && body.protected !== tag.protected;
+    if ((changingProtection || (moving && tag.protected)) && !isOwnerOrAdmin(membership)) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: changingProtection ? 'Only owners/admins can change tag protection' : 'Only owners/admins can move a protected tag',
+        statusCode: 403,
+      });
+    }
+
+    const updates: Record<string, unknown> = { updatedAt: new Date() };
+    if (moving) {
+      const commitId = await resolveCommitRef(db, project.id, { commitId: body.commitId, branch: body.commitId ? undefined : body.branch });
+      if (!commitId) {
+        return reply.status(400).send({ error: 'Bad Request', message: 'Commit or branch not found in this project', statusCode: 400 });
+      }
+      updates.commitId = commitId;
+    }
+    if (body.protected !== undefined) updates.protected = body.protected;
+
+    const [updated] = await db.update(tags)
+      .set(updates)
+      .where(eq(tags.id, tag.id))
+      .returning();
+
+    return updated;
+  });
+
+  // DELETE /projects/:id/tags/:name — delete a tag (protected tags: owner/admin)
+  app.delete('/:id/tags/:name', async (request: any, reply) => {
+    const db = (app as any).db;
+
+    const { project, membership } = await getProjectForMember(db, request.params.id, request.user.userId);
+    if (!project) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Project not found', statusCode: 404 });
+    }
+    if (!membership) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Not a member of this workspace', statusCode: 403 });
+    }
+
+    const tag = await getTag(db, project.id, request.params.name);
+    if (!tag) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Tag not found', statusCode: 404 });
+    }
+    if (tag.protected && !isOwnerOrAdmin(membership)) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'Only owners/admins can delete a protected tag', statusCode: 403 });
+    }
+
+    await db.delete(tags).where(and(eq(tags.projectId, project.id), eq(tags.id, tag.id)));
+
+    return { success: true };
+  });
+}
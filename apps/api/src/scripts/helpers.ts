@@ -0,0 +1,135 @@
+/**
+ * Shared helpers for the integration test scripts: pass/fail counting, a
+ * JSON API client, test users and projects, and job polling.
+ *
+ * Usage: import into a test-*.ts script and end it with run(main, 'Label')
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export const API = process.env.API_URL || 'http://localhost:3001';
+
+let passed = 0;
+let failed = 0;
+
+export interface TestUser {
+  workspaceId: string;
+  auth: { headers: { Authorization: string } };
+}
+
+export function assert(condition: boolean, msg: string) {
+  if (condition) { console.log(`  ✅ ${msg}`); passed++; }
+  else { console.error(`  ❌ ${msg}`); failed++; }
+}
+
+export async function api(path: string, opts: any = {}) {
+  const { headers: extraHeaders, ...rest } = opts;
+  const res = await fetch(`${API}${path}`, {
+    ...rest,
+    headers: { ...(rest.body ? { 'Content-Type': 'application/json' } : {}), ...extraHeaders },
+  });
+  const body = await res.json().catch(() => null);
+  return { status: res.status, body };
+}
+
+/** Plain-text GET, for files the API serves as text */
+export async function text(path: string, opts: any = {}) {
+  const res = await fetch(`${API}${path}`, opts);
+  return { status: res.status, type: res.headers.get('content-type') || '', body: await res.text() };
+}
+
+export async function pollJob(jobId: string, auth: any, maxWait = 120000): Promise<any> {
+  const start = Date.now();
+  while (Date.now() - start < maxWait) {
+    const res = await api(`/jobs/${jobId}`, auth);
+    if (res.body?.status === 'succeeded') return res.body;
+    if (['failed', 'blocked', 'cancelled'].includes(res.body?.status)) {
+      throw new Error(`Job ${jobId} ${res.body.status}: ${res.body.error?.message}`);
+    }
+    await new Promise((r) => setTimeout(r, 1000));
+  }
+  throw new Error(`Job ${jobId} timed out`);
+}
+
+const runId = Date.now();
+
+/** Register a fresh user; `name` keeps emails unique within a run */
+export async function register(name: string): Promise<TestUser> {
+  const res = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email: `${name}-${runId}@test.phork.ai`, password: 'testpass123', displayName: name }),
+  });
+  assert(res.status === 201, `Register ${name}`);
+  return { workspaceId: res.body.workspace.id, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+}
+
+/** Create a project in the user's workspace; returns the full response body */
+export async function createProject(user: TestUser, name: string, extra: any = {}) {
+  const res = await api('/projects', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId: user.workspaceId, name, ...extra }),
+    ...user.auth,
+  });
+  assert(res.status === 201, `Create project ${name}`);
+  return res.body;
+}
+
+/** Queue a generation job (e.g. /jobs/gen-video), wait for it and return the new asset's ID */
+export async function generate(user: TestUser, projectId: string, path: string, body: any): Promise<string> {
+  const res = await api(path, {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: user.workspaceId, ...body }),
+    ...user.auth,
+  });
+  if (res.status !== 201) throw new Error(`${path} was not queued (${res.status}): ${res.body?.message}`);
+  return (await pollJob(res.body.id, user.auth)).result.assetId;
+}
+
+/** Render a commit, wait for it and return the render asset */
+export async function renderCommit(user: TestUser, projectId: string, commitId: string, options: any = {}): Promise<any> {
+  const res = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: user.workspaceId, commitId, ...options }),
+    ...user.auth,
+  });
+  if (res.status !== 201) throw new Error(`Render was not queued (${res.status}): ${res.body?.message}`);
+  const job = await pollJob(res.body.id, user.auth);
+  return (await api(`/assets/${job.result.assetId}`, user.auth)).body;
+}
+
+/** Download an asset and measure it with ffprobe (needs FFmpeg on this machine) */
+export async function probeAsset(assetId: string, auth: any): Promise<{ durationMs: number; width: number | null; height: number | null }> {
+  const asset = (await api(`/assets/${assetId}`, auth)).body;
+  const file = await fetch(asset.downloadUrl);
+  const dir = mkdtempSync(join(tmpdir(), 'phork-test-'));
+  try {
+    const path = join(dir, 'asset');
+    writeFileSync(path, Buffer.from(await file.arrayBuffer()));
+    const info = JSON.parse(execFileSync('ffprobe', [
+      '-v', 'error', '-show_entries', 'stream=codec_type,width,height:format=duration', '-of', 'json', path,
+    ]).toString());
+    const video = info.streams?.find((s: any) => s.codec_type === 'video');
+    return {
+      durationMs: Math.round(parseFloat(info.format?.duration || '0') * 1000),
+      width: video?.width ?? null,
+      height: video?.height ?? null,
+    };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** Run a test's main, print the summary and exit non-zero on any failure */
+export function run(main: () => Promise<void>, label: string) {
+  main().then(() => {
+    console.log(`\n${'='.repeat(40)}`);
+    console.log(`${label}: ${passed} passed, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+  }).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -8,9 +8,11 @@
 import { createDb } from '@phork/db';
 import {
   users, workspaces, workspaceMembers, creditAccounts,
-  projects, commits, projectHeads, assets, jobs, creditLedger,
+  projects, branches, assets, jobs, creditLedger,
 } from '@phork/db';
 import { eq } from 'drizzle-orm';
+import { createSnapshot } from '@phork/shared';
+import { insertCommit } from '../lib/commits';
 import bcrypt from 'bcryptjs';
 import { randomUUID, createHmac } from 'crypto';
 
@@ -149,22 +151,22 @@ async function seed() {
   }
 
   // Create initial commit with empty timeline
-  const [initCommit] = await db.insert(commits).values({
+  const initCommit = await insertCommit(db, {
     projectId: project.id,
     parentCommitId: null,
     message: 'Initial commit',
     createdBy: user.id,
-    snapshot: { timeline: [] },
-  }).returning();
+    snapshot: createSnapshot(),
+  });
 
   // Create second commit with the 3 shots
-  const [shotCommit] = await db.insert(commits).values({
+  const shotCommit = await insertCommit(db, {
     projectId: project.id,
     parentCommitId: initCommit.id,
     message: 'Add 3 shots for space adventure',
     createdBy: user.id,
-    snapshot: {
-      timeline: assetIds.map((assetId, i) => ({
+    snapshot: createSnapshot(
+      assetIds.map((assetId, i) => ({
         shot_id: randomUUID(),
         visual_asset_id: assetId,
         audio_asset_id: null,
@@ -173,13 +175,15 @@ async function seed() {
         trim_out_ms: 4000,
         subtitle: shotPrompts[i].substring(0, 50),
       })),
-    },
-  }).returning();
+    ),
+  });
 
-  // Set project head
-  await db.insert(projectHeads).values({
+  // Point the default branch at the latest commit
+  await db.insert(branches).values({
     projectId: project.id,
+    name: project.defaultBranch,
     headCommitId: shotCommit.id,
+    createdBy: user.id,
   });
 
   console.log('  Created commits with 3-shot timeline');
@@ -0,0 +1,75 @@
+/**
+ * Test: Render mix loudness targets and music ducking under dialogue
+ *
+ * 1. A music lane that runs past the last dialogue clip renders to the full timeline length
+ * 2. The render records its profile's loudness target and the measured loudness
+ * 3. Profiles with a streaming target record that target instead of EBU R128
+ *
+ * The stub generators make silent audio, so the mix itself is not measured here.
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-audio-ducking.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Loudness and Ducking ===\n');
+
+  const user = await register('mixer');
+  const { auth } = user;
+  const projectId = (await createProject(user, 'Ducking Test')).project.id;
+  const generateAsset = (path: string, body: any) => generate(user, projectId, path, body);
+
+  // 1. Generate two shots, a short line of dialogue and a music bed (the stub sizes audio by text length)
+  console.log('--- Step 1: Generate ---');
+  const video1 = await generateAsset('/jobs/gen-video', { prompt: 'Ducking shot one', duration: 3000 });
+  const video2 = await generateAsset('/jobs/gen-video', { prompt: 'Ducking shot two', duration: 3000 });
+  const line = await generateAsset('/jobs/gen-audio', { text: 'Just one line.' });
+  const music = await generateAsset('/jobs/gen-audio', { text: 'Music bed '.repeat(11) });
+  const musicAsset = (await api(`/assets/${music}`, auth)).body;
+  assert(musicAsset.durationMs >= 6000, `Music bed covers the whole timeline (${musicAsset.durationMs}ms)`);
+
+  // 2. Music runs on after the last line of dialogue
+  console.log('\n--- Step 2: Music past the last dialogue clip ---');
+  const shot = (shotId: string, visual: string) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+  });
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Music bed under one line',
+      snapshot: {
+        schema_version: 2,
+        timeline: [shot('shot-a', video1), shot('shot-b', video2)],
+        tracks: {
+          dialogue: [{ clip_id: 'line', asset_id: line, start_ms: 500, duration_ms: 1000 }],
+          music: [{ clip_id: 'bed', asset_id: music, start_ms: 0, duration_ms: 6000, gain_db: -6, fade_out_ms: 1000 }],
+          sfx: [],
+        },
+      },
+    }),
+    ...auth,
+  });
+  assert(commit.status === 201, 'Commit with dialogue and music lanes');
+  const commitId = commit.body.id;
+
+  const render = (profileId?: string) => renderCommit(user, projectId, commitId, { profileId });
+
+  const standard = await render();
+  assert(Math.abs(standard.durationMs - 6000) < 150, `Render keeps the full timeline (${standard.durationMs}ms)`);
+  const params = standard.provenance.input.params;
+  assert(params.trackAssetIds.includes(line) && params.trackAssetIds.includes(music), 'Dialogue and music lanes were mixed');
+
+  // 3. Loudness is recorded against the profile's target
+  console.log('\n--- Step 3: Loudness targets ---');
+  assert(params.profile.id === 'hd_16x9' && params.loudness.targetLufs === -23, 'Default profile targets EBU R128 (-23 LUFS)');
+  assert('integratedLufs' in params.loudness && 'truePeakDb' in params.loudness, 'Measured loudness is recorded');
+
+  const square = await render('square_1x1');
+  const squareParams = square.provenance.input.params;
+  assert(squareParams.loudness.targetLufs === -14, 'Square profile targets -14 LUFS');
+  assert(square.width === 1080 && square.height === 1080, 'Square profile output is 1080x1080');
+}
+
+run(main, 'Loudness and ducking test');
@@ -0,0 +1,51 @@
+/**
+ * Test: Shot blame — per-field authorship across commits
+ * Usage: npx tsx apps/api/src/scripts/test-blame.ts
+ */
+
+import { api, assert, run } from './helpers';
+
+const shot = (id: string, extra: Record<string, unknown> = {}) => ({
+  shot_id: id, visual_asset_id: null, audio_asset_id: null,
+  duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null, ...extra,
+});
+
+async function main() {
+  console.log('\n=== Test: Blame ===\n');
+
+  const email = `blame-${Date.now()}@test.phork.ai`;
+  const reg = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: 'testpass123', displayName: 'Blame Tester' }),
+  });
+  assert(reg.status === 201, 'Register user');
+  const workspaceId = reg.body.workspace.id;
+  const auth = { headers: { Authorization: `Bearer ${reg.body.token}` } };
+
+  const commit = (projectId: string, message: string, timeline: unknown[]) =>
+    api(`/projects/${projectId}/commits`, { method: 'POST', body: JSON.stringify({ message, snapshot: { timeline } }), ...auth });
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Blame' }), ...auth });
+  assert(proj.status === 201, 'Create project');
+  const projectId = proj.body.project.id;
+
+  const c1 = await commit(projectId, 'Add a', [shot('a')]);
+  const c2 = await commit(projectId, 'Add b', [shot('a'), shot('b')]);
+  const c3 = await commit(projectId, 'Subtitle a', [shot('a', { subtitle: 'hello' }), shot('b')]);
+  const c4 = await commit(projectId, 'Lengthen b', [shot('a', { subtitle: 'hello' }), shot('b', { duration_ms: 5000 })]);
+  assert([c1, c2, c3, c4].every((c) => c.status === 201), 'Build history');
+
+  const blame = await api(`/projects/${projectId}/blame`, auth);
+  assert(blame.status === 200 && blame.body.commitId === c4.body.id, 'Blame defaults to the default branch head');
+  const [a, b] = blame.body.shots;
+  assert(a.fields.subtitle.commitId === c3.body.id, 'a.subtitle blamed on "Subtitle a"');
+  assert(a.fields.duration_ms.commitId === c1.body.id, 'Untouched a.duration_ms blamed on the commit that added a');
+  assert(a.lastChange.commitId === c3.body.id, 'a last changed by "Subtitle a"');
+  assert(b.fields.duration_ms.commitId === c4.body.id && b.fields.subtitle.commitId === c2.body.id, 'b fields blamed separately');
+  assert(b.lastChange.authorName === 'Blame Tester', 'Entries carry the author name');
+
+  const older = await api(`/projects/${projectId}/blame?commitId=${c3.body.id}`, auth);
+  assert(older.status === 200 && older.body.shots[1].fields.duration_ms.commitId === c2.body.id, 'Blame at an older commit ignores later changes');
+}
+
+run(main, 'Blame test');
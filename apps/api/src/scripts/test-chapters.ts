@@ -0,0 +1,87 @@
+/**
+ * Test: Chapter markers
+ *
+ * 1. Projects created from a template start with the template's shot labels as chapters
+ * 2. Renders record their chapters, and the viewer lists them with start and end times
+ * 3. Shots without a chapter extend the previous one; transitions move chapter starts
+ * 4. Overlong chapter titles are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-chapters.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Chapters ===\n');
+
+  const user = await register('chaptered');
+  const { auth } = user;
+
+  // 1. Template labels become chapters
+  console.log('--- Step 1: Create from template ---');
+  const proj = await createProject(user, 'Chapter Test', { templateId: 'forkable-short' });
+  const projectId = proj.project.id;
+  const seeded = proj.headCommit.snapshot.timeline;
+  assert(JSON.stringify(seeded.map((s: any) => s.chapter)) === JSON.stringify(['Opening Hook', 'Main Content', 'Call to Action']),
+    'Shots are seeded with the template labels');
+
+  const render = (commitId: string) => renderCommit(user, projectId, commitId);
+
+  // 2. Render and publish the template cut
+  console.log('\n--- Step 2: Render and publish ---');
+  const templateCommit = proj.headCommit.id;
+  const asset = await render(templateCommit);
+  assert(Math.abs(asset.durationMs - 10000) < 150, `Template cut renders for 10000ms (got ${asset.durationMs}ms)`);
+  const recorded = asset.provenance.input.params.chapters;
+  assert(JSON.stringify(recorded.map((c: any) => c.start_ms)) === JSON.stringify([0, 3000, 8000]), 'Render records each chapter start');
+
+  const publish = await api('/publish', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, renderAssetId: asset.id, commitId: templateCommit }),
+    ...auth,
+  });
+  assert(publish.status === 201, 'Publish');
+  const viewer = await api(`/publish/${projectId}`, auth);
+  assert(viewer.status === 200, 'Viewer data');
+  assert(viewer.body.totalDurationMs === 10000 && viewer.body.shotCount === 3, 'Viewer reports runtime and shot count');
+  const chapters = viewer.body.chapters;
+  assert(chapters.length === 3, `Viewer lists three chapters (got ${chapters.length})`);
+  assert(chapters[0].title === 'Opening Hook' && chapters[0].start_ms === 0 && chapters[0].end_ms === 3000, 'First chapter spans the opening shot');
+  assert(chapters[1].shot_index === 1 && chapters[1].start_ms === 3000 && chapters[1].end_ms === 8000, 'Each chapter ends where the next begins');
+  assert(chapters[2].end_ms === 10000, 'The last chapter runs to the end');
+
+  // 3. Unlabelled shots and transitions
+  console.log('\n--- Step 3: Unlabelled shots and transitions ---');
+  const edited = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Merge chapters',
+      snapshot: {
+        timeline: [
+          seeded[0],
+          { ...seeded[1], chapter: null },
+          { ...seeded[2], chapter: '  Call to Action  ', transition_in: { type: 'crossfade', duration_ms: 500 } },
+        ],
+      },
+    }),
+    ...auth,
+  });
+  assert(edited.status === 201, 'Commit with one chapter removed');
+  const merged = await render(edited.body.id);
+  const mergedChapters = merged.provenance.input.params.chapters;
+  assert(mergedChapters.length === 2, `An unlabelled shot joins the previous chapter (got ${mergedChapters.length} chapters)`);
+  assert(mergedChapters[1].title === 'Call to Action', 'Chapter titles are trimmed');
+  assert(mergedChapters[1].start_ms === 7500, `The crossfade moves the chapter start to 7500ms (got ${mergedChapters[1].start_ms})`);
+
+  // 4. Rejections
+  console.log('\n--- Step 4: Invalid chapters ---');
+  const tooLong = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message: 'Long title', snapshot: { timeline: [{ ...seeded[0], chapter: 'x'.repeat(101) }] } }),
+    ...auth,
+  });
+  assert(tooLong.status >= 400, 'Chapter titles over 100 characters are rejected');
+}
+
+run(main, 'Chapters test');
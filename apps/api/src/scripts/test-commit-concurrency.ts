@@ -0,0 +1,93 @@
+/**
+ * Commit Concurrency Test
+ *
+ * Fires N concurrent saves against the same branch head, each with
+ * `expectedHeadCommitId`, and asserts:
+ *   - Exactly one save wins
+ *   - Every other save gets 409 with the winning commit as the current head
+ *   - The branch history stays linear (no lost commits hanging off the old head)
+ *
+ * Usage: npx tsx src/scripts/test-commit-concurrency.ts
+ * Requires: API server running on localhost:3001
+ */
+
+const API = process.env.API_URL || 'http://localhost:3001';
+const CONCURRENT_SAVES = 10;
+
+async function api(method: string, path: string, body?: any, authToken?: string) {
+  const headers: Record<string, string> = {};
+  if (body) headers['Content-Type'] = 'application/json';
+  if (authToken) headers['Authorization'] = `Bearer ${authToken}`;
+  const res = await fetch(`${API}${path}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, data: await res.json().catch(() => ({})) };
+}
+
+function assert(condition: boolean, msg: string) {
+  if (!condition) throw new Error(`ASSERTION FAILED: ${msg}`);
+  console.log(`  [ok] ${msg}`);
+}
+
+const shot = (id: string, subtitle: string) => ({
+  shot_id: id, visual_asset_id: null, audio_asset_id: null,
+  duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle,
+});
+
+async function main() {
+  console.log('=== Commit Concurrency Test ===\n');
+  console.log(`Concurrent saves: ${CONCURRENT_SAVES}\n`);
+
+  console.log('--- Step 1: Register + project ---');
+  const reg = await api('POST', '/auth/register', {
+    email: `commit-race-${Date.now()}@test.phork.ai`,
+    password: 'testpass123',
+    displayName: 'Commit Racer',
+  });
+  assert(reg.status === 201, 'Registered');
+  const token = reg.data.token;
+  const proj = await api('POST', '/projects', { workspaceId: reg.data.workspace.id, name: 'Race' }, token);
+  assert(proj.status === 201, 'Project created');
+  const projectId = proj.data.project.id;
+  const headId = proj.data.headCommit.id;
+
+  console.log('\n--- Step 2: Stale save is rejected ---');
+  const first = await api('POST', `/projects/${projectId}/commits`, {
+    message: 'First', snapshot: { timeline: [shot('a', 'first')] }, expectedHeadCommitId: headId,
+  }, token);
+  assert(first.status === 201, 'Save against the current head succeeds');
+  const stale = await api('POST', `/projects/${projectId}/commits`, {
+    message: 'Stale', snapshot: { timeline: [shot('a', 'stale')] }, expectedHeadCommitId: headId,
+  }, token);
+  assert(stale.status === 409, 'Save against an old head returns 409');
+  assert(stale.data.currentHeadCommitId === first.data.id, '409 names the current head');
+  assert(stale.data.currentHead?.snapshot?.timeline?.[0]?.subtitle === 'first', '409 includes the current head snapshot');
+
+  console.log(`\n--- Step 3: ${CONCURRENT_SAVES} concurrent saves ---`);
+  const results = await Promise.all(
+    Array.from({ length: CONCURRENT_SAVES }, (_, i) =>
+      api('POST', `/projects/${projectId}/commits`, {
+        message: `Racer ${i}`, snapshot: { timeline: [shot('a', `racer ${i}`)] }, expectedHeadCommitId: first.data.id,
+      }, token)),
+  );
+  const winners = results.filter((r) => r.status === 201);
+  const losers = results.filter((r) => r.status === 409);
+  console.log(`  201: ${winners.length}, 409: ${losers.length}`);
+  assert(winners.length === 1, 'Exactly one concurrent save wins');
+  assert(losers.length === CONCURRENT_SAVES - 1, 'All other saves get 409');
+
+  const project = await api('GET', `/projects/${projectId}`, undefined, token);
+  assert(project.data.headCommit.id === winners[0].data.id, 'Branch head is the winning commit');
+
+  const history = await api('GET', `/projects/${projectId}/commits`, undefined, token);
+  assert(history.data.data.length === 3, 'No orphaned commits from losing saves (root, first, winner)');
+
+  console.log('\n=== All commit concurrency checks passed ===');
+}
+
+main().catch(err => {
+  console.error(`\n${err.message}`);
+  process.exit(1);
+});
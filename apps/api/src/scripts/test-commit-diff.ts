@@ -0,0 +1,104 @@
+/**
+ * Test: Shot-level commit diff
+ *
+ * 1. Shots are matched by shot_id: added, removed, moved and modified shots are reported
+ * 2. Modified shots list per-field changes (asset swaps, duration, trim, subtitle)
+ * 3. `from` defaults to the parent of `to`; refs can be commit IDs or branch names
+ * 4. `to` is required, unknown refs are 404 and non-members are refused
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-commit-diff.ts
+ * Requires: API and workers running
+ */
+
+import { api, assert, createProject, generate, register, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Commit Diff ===\n');
+
+  const owner = await register('differ');
+  const outsider = await register('snooper');
+  const { auth } = owner;
+  const proj = await createProject(owner, 'Diff Test');
+  const projectId = proj.project.id;
+  const rootCommit = proj.headCommit.id;
+  const commit = (snapshot: any, message: string) => api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message, snapshot }),
+    ...auth,
+  });
+  const diff = (query: string, user = owner) => api(`/projects/${projectId}/diff?${query}`, user.auth);
+
+  // 1. Two audio assets to swap between
+  console.log('--- Step 1: Generate ---');
+  const audio = (text: string) => generate(owner, projectId, '/jobs/gen-audio', { text });
+  const take1 = await audio('First take.');
+  const take2 = await audio('Second take.');
+
+  const shot = (shotId: string, extra: any = {}) => ({
+    shot_id: shotId, visual_asset_id: null, audio_asset_id: null, duration_ms: 2000, trim_in_ms: 0, trim_out_ms: 0, subtitle: null, ...extra,
+  });
+
+  // 2. Two commits
+  console.log('\n--- Step 2: Commit a cut and an edit ---');
+  const first = await commit({
+    timeline: [shot('a', { audio_asset_id: take1 }), shot('b'), shot('c', { subtitle: 'Old line' }), shot('d')],
+  }, 'First cut');
+  assert(first.status === 201, 'Commit first cut');
+  const second = await commit({
+    schema_version: 2,
+    timeline: [
+      shot('b'), // swapped with a
+      shot('a', { audio_asset_id: take2, duration_ms: 2500 }),
+      shot('c', { subtitle: 'New line', trim_in_ms: 500 }),
+      shot('e'), // new; d is gone
+    ],
+    tracks: { dialogue: [], music: [{ clip_id: 'bed', asset_id: take1, start_ms: 0, duration_ms: 1000 }], sfx: [] },
+  }, 'Edit');
+  assert(second.status === 201, 'Commit edit');
+
+  // 3. Diff the two
+  console.log('\n--- Step 3: Diff ---');
+  const res = await diff(`from=${first.body.id}&to=${second.body.id}`);
+  assert(res.status === 200, 'Diff');
+  const byId = new Map<string, any>(res.body.shots.map((s: any) => [s.shot_id, s]));
+  const change = (shotId: string, field: string) => byId.get(shotId)?.changes.find((c: any) => c.field === field);
+
+  assert(res.body.from === first.body.id && res.body.to === second.body.id, 'Diff reports the commits it compared');
+  assert(byId.get('e')?.status === 'added' && byId.get('e').from_index === null && byId.get('e').to_index === 3, 'New shots are added');
+  assert(byId.get('d')?.status === 'removed' && byId.get('d').from_index === 3 && byId.get('d').to_index === null, 'Dropped shots are removed');
+  assert(res.body.shots[res.body.shots.length - 1].shot_id === 'd', 'Removed shots come after the new timeline');
+  assert(byId.get('b')?.status === 'unchanged' && byId.get('b').from_index === 1 && byId.get('b').to_index === 0, 'Untouched shots are unchanged');
+  assert(res.body.summary.moved === 1 && (byId.get('a').moved || byId.get('b').moved), 'Swapping two shots counts as one move');
+  assert(!byId.get('c').moved, 'Shots that kept their relative order are not moved');
+
+  const swap = change('a', 'audio_asset_id');
+  assert(byId.get('a')?.status === 'modified' && swap?.from === take1 && swap?.to === take2, 'Asset swaps are reported');
+  assert(change('a', 'duration_ms')?.from === 2000 && change('a', 'duration_ms')?.to === 2500, 'Duration changes are reported');
+  assert(change('c', 'trim_in_ms')?.from === 0 && change('c', 'trim_in_ms')?.to === 500, 'Trim changes are reported');
+  assert(change('c', 'subtitle')?.from === 'Old line' && change('c', 'subtitle')?.to === 'New line', 'Subtitle changes are reported');
+  assert(byId.get('c').changes.length === 2, 'Only changed fields are listed');
+
+  assert(res.body.clips.length === 1 && res.body.clips[0].clip_id === 'bed' && res.body.clips[0].status === 'added', 'Lane clips are diffed too');
+  const summary = res.body.summary;
+  assert(summary.added === 1 && summary.removed === 1 && summary.modified === 2 && summary.clipsChanged === 1,
+    `Summary counts (got ${JSON.stringify(summary)})`);
+
+  // 4. Defaults and refs
+  console.log('\n--- Step 4: Defaults and refs ---');
+  const parent = await diff(`to=${second.body.id}`);
+  assert(parent.status === 200 && parent.body.from === first.body.id, '`from` defaults to the parent commit');
+  const byBranch = await diff('from=main&to=main');
+  assert(byBranch.status === 200 && byBranch.body.to === second.body.id, 'Branch names resolve to their head');
+  assert(byBranch.body.shots.every((s: any) => s.status === 'unchanged' && !s.moved), 'A commit diffed against itself is unchanged');
+  const root = await diff(`to=${rootCommit}`);
+  assert(root.status === 200 && root.body.from === null && root.body.shots.length === 0, 'The root commit diffs against an empty timeline');
+
+  // 5. Errors
+  console.log('\n--- Step 5: Errors ---');
+  assert((await diff(`from=${first.body.id}`)).status === 400, 'Missing `to` is rejected');
+  assert((await diff('to=no-such-branch')).status === 404, 'Unknown refs are 404');
+  assert((await diff(`from=00000000-0000-0000-0000-000000000000&to=${second.body.id}`)).status === 404, 'Unknown commit IDs are 404');
+  assert((await diff(`to=${second.body.id}`, outsider)).status === 403, 'Non-members cannot diff');
+}
+
+run(main, 'Commit diff test');
@@ -0,0 +1,191 @@
+/**
+ * Test: Forking a published render into another workspace
+ *
+ * User A publishes a cut and offers it under a source release; User B, in a
+ * separate workspace, forks it into their own workspace and commits to it.
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-cross-workspace-fork.ts
+ */
+
+import { api, assert, pollJob, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Cross-workspace Fork ===\n');
+
+  const ts = Date.now();
+  const register = async (name: string) => {
+    const res = await api('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email: `${name}-${ts}@test.phork.ai`, password: 'testpass123', displayName: name }),
+    });
+    assert(res.status === 201, `Register ${name}`);
+    return { workspaceId: res.body.workspace.id as string, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+  };
+  const a = await register('creator');
+  const b = await register('remixer');
+
+  // Step 1: A builds, renders and publishes a two-shot cut
+  console.log('--- Step 1: Publish source project ---');
+  const proj = await api('/projects', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId: a.workspaceId, name: 'Source Cut' }),
+    ...a.auth,
+  });
+  const projectId = proj.body.project.id;
+
+  const videoAssetIds: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    const job = await api('/jobs/gen-video', {
+      method: 'POST',
+      body: JSON.stringify({
+        projectId, workspaceId: a.workspaceId, prompt: `Source shot ${i + 1}`, duration: 3000,
+        idempotencyKey: `xws-fork-vid-${ts}-${i}`,
+      }),
+      ...a.auth,
+    });
+    videoAssetIds.push((await pollJob(job.body.id, a.auth)).result.assetId);
+  }
+  assert(videoAssetIds.length === 2, 'Two video assets generated');
+
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Two shots',
+      snapshot: {
+        timeline: videoAssetIds.map((id, i) => ({
+          shot_id: `shot-${i + 1}`, visual_asset_id: id, audio_asset_id: null, duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null,
+        })),
+      },
+    }),
+    ...a.auth,
+  });
+  assert(commit.status === 201, 'Commit the cut');
+  const commitId = commit.body.id;
+
+  const render = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: a.workspaceId, commitId, idempotencyKey: `xws-fork-render-${ts}` }),
+    ...a.auth,
+  });
+  const renderAssetId = (await pollJob(render.body.id, a.auth)).result.assetId;
+
+  const publish = await api('/publish', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, renderAssetId, commitId, enableShareLink: true }),
+    ...a.auth,
+  });
+  assert(publish.status === 201, 'Publish with a share link');
+
+  const forkBody = (extra: any) => JSON.stringify({ fromCommitId: commitId, name: 'Remix', targetWorkspaceId: b.workspaceId, ...extra });
+
+  // Step 2: the project's own license is no_forks
+  console.log('\n--- Step 2: License enforcement ---');
+  const refused = await api(`/projects/${projectId}/fork`, { method: 'POST', body: forkBody({}), ...b.auth });
+  assert(refused.status === 403, `no_forks refuses a fork into another workspace (got ${refused.status})`);
+
+  const wrongWorkspace = await api(`/projects/${projectId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ fromCommitId: commitId, name: 'Remix', targetWorkspaceId: a.workspaceId }),
+    ...b.auth,
+  });
+  assert(wrongWorkspace.status === 403, 'Cannot fork into a workspace you are not a member of');
+
+  const closed = await api(`/projects/${projectId}/releases`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'Closed', includeMode: 'used_only', license: 'no_forks' }),
+    ...a.auth,
+  });
+  const closedFork = await api(`/projects/${projectId}/fork`, {
+    method: 'POST', body: forkBody({ sourceReleaseId: closed.body.release.id }), ...b.auth,
+  });
+  assert(closedFork.status === 403, 'A no_forks release refuses the fork too');
+
+  // Step 3: a share-alike release lets B fork into their workspace
+  console.log('\n--- Step 3: Fork under a release ---');
+  const release = await api(`/projects/${projectId}/releases`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'Open', includeMode: 'used_only', license: 'sharealike' }),
+    ...a.auth,
+  });
+  assert(release.status === 201, 'Create a sharealike release');
+  const releaseId = release.body.release.id;
+
+  const notPublished = await api(`/projects/${projectId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ fromCommitId: proj.body.headCommit.id, name: 'Early', targetWorkspaceId: b.workspaceId, sourceReleaseId: releaseId }),
+    ...b.auth,
+  });
+  assert(notPublished.status === 403, 'Outsiders can only fork the published commit');
+
+  const fork = await api(`/projects/${projectId}/fork`, {
+    method: 'POST', body: forkBody({ sourceReleaseId: releaseId, truncateAtShotIndex: 0 }), ...b.auth,
+  });
+  assert(fork.status === 201, `Fork into B's workspace (got ${fork.status})`);
+  assert(fork.body.project.workspaceId === b.workspaceId, 'Fork lives in the target workspace');
+  assert(fork.body.project.forkLicense === 'sharealike' && fork.body.license === 'sharealike', 'License carries over');
+  assert(fork.body.releaseUsed?.grantedAssetCount === 2, 'Release assets granted to the target workspace');
+  const forkId = fork.body.project.id;
+
+  // Step 4: B works with the granted assets
+  console.log('\n--- Step 4: Use granted assets ---');
+  const asset = await api(`/assets/${videoAssetIds[1]}`, b.auth);
+  assert(asset.status === 200, 'Granted asset is readable from B\'s workspace');
+
+  const forkProject = await api(`/projects/${forkId}`, b.auth);
+  const timeline = forkProject.body.headCommit.snapshot.timeline;
+  assert(timeline.length === 1, 'Fork timeline truncated to the chosen shot');
+  const reuse = await api(`/projects/${forkId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Bring back shot 2',
+      snapshot: { timeline: [...timeline, { ...timeline[0], shot_id: 'shot-b', visual_asset_id: videoAssetIds[1] }] },
+    }),
+    ...b.auth,
+  });
+  assert(reuse.status === 201, `Commit with a granted asset passes the workspace check (got ${reuse.status})`);
+
+  // Step 5: A's later, unreleased work stays out of B's fork
+  console.log('\n--- Step 5: Unreleased upstream commits ---');
+  const secretJob = await api('/jobs/gen-video', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: a.workspaceId, prompt: 'Unreleased shot', duration: 3000, idempotencyKey: `xws-fork-secret-${ts}` }),
+    ...a.auth,
+  });
+  const secretAssetId = (await pollJob(secretJob.body.id, a.auth)).result.assetId;
+  const secret = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Unreleased third shot',
+      snapshot: {
+        timeline: [...videoAssetIds, secretAssetId].map((id, i) => ({
+          shot_id: `shot-${i + 1}`, visual_asset_id: id, audio_asset_id: null, duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null,
+        })),
+      },
+    }),
+    ...a.auth,
+  });
+  assert(secret.status === 201, 'A commits an unreleased asset after the fork');
+
+  const pickSecret = await api(`/projects/${forkId}/cherry-pick`, { method: 'POST', body: JSON.stringify({ commitId: secret.body.id }), ...b.auth });
+  assert(pickSecret.status === 403, `B cannot cherry-pick an unshared upstream commit (got ${pickSecret.status})`);
+  const syncBranch = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({ upstreamBranch: 'main' }), ...b.auth });
+  assert(syncBranch.status === 403, 'B cannot sync from an upstream branch head');
+  const syncShared = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({}), ...b.auth });
+  assert(syncShared.status === 200 && syncShared.body.upToDate, 'B syncs from the shared commit only, which the fork already has');
+  const forkAfterSync = await api(`/projects/${forkId}`, b.auth);
+  assert(forkAfterSync.body.headCommit.id === reuse.body.id, 'Fork head is unchanged');
+
+  // Sharing the commit doesn't share its new asset
+  const republish = await api('/publish', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, renderAssetId, commitId: secret.body.id, enableShareLink: true }),
+    ...a.auth,
+  });
+  assert(republish.status === 201, 'A publishes the new commit');
+  const syncUngranted = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({}), ...b.auth });
+  assert(syncUngranted.status === 403, `Sync bringing in an ungranted asset is rejected (got ${syncUngranted.status})`);
+  const pickUngranted = await api(`/projects/${forkId}/cherry-pick`, { method: 'POST', body: JSON.stringify({ commitId: secret.body.id }), ...b.auth });
+  assert(pickUngranted.status === 403, `Cherry-pick bringing in an ungranted asset is rejected (got ${pickUngranted.status})`);
+}
+
+run(main, 'Cross-workspace fork test');
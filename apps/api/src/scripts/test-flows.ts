@@ -181,10 +181,11 @@ async function testForking() {
   assert(!!forkData.project.id, 'Forked project has ID');
   assert(forkData.project.parentProjectId === projectId, 'Fork references parent project');
   assert(forkData.forkedFrom.commitId === latestCommitId, 'Fork references fork point commit');
+  assert(forkData.headCommitId === latestCommitId, 'Fork starts at the fork point itself, not a copy');
 
   // Verify forked project has commits
   const { data: forkCommits } = await request('GET', `/projects/${forkData.project.id}/commits`);
-  assert(forkCommits.data.length >= 1, 'Forked project has copied commits');
+  assert(forkCommits.data.length >= 1, 'Forked project shares the parent\'s commits');
 
   // Verify we can add a new commit to the fork (divergent history)
   const { status: newCommitStatus } = await request('POST', `/projects/${forkData.project.id}/commits`, {
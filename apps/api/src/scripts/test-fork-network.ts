@@ -0,0 +1,57 @@
+/**
+ * Test: Fork network — ancestors and descendant forks across generations
+ * Usage: npx tsx apps/api/src/scripts/test-fork-network.ts
+ */
+
+import { api, assert, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Fork Network ===\n');
+
+  const email = `network-${Date.now()}@test.phork.ai`;
+  const reg = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: 'testpass123', displayName: 'Network Tester' }),
+  });
+  assert(reg.status === 201, 'Register user');
+  const workspaceId = reg.body.workspace.id;
+  const auth = { headers: { Authorization: `Bearer ${reg.body.token}` } };
+
+  const fork = async (projectId: string, name: string) => {
+    const project = await api(`/projects/${projectId}`, auth);
+    const res = await api(`/projects/${projectId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ name, fromCommitId: project.body.headCommit.id }),
+      ...auth,
+    });
+    return res.body.project.id as string;
+  };
+
+  // root ─┬─ a ── a1
+  //       └─ b
+  const root = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Root' }), ...auth });
+  assert(root.status === 201, 'Create root project');
+  const rootId = root.body.project.id;
+  const a = await fork(rootId, 'A');
+  const b = await fork(rootId, 'B');
+  const a1 = await fork(a, 'A1');
+
+  const fromRoot = await api(`/projects/${rootId}/network`, auth);
+  assert(fromRoot.status === 200, 'Load network from the root');
+  const names = fromRoot.body.nodes.map((n: any) => n.name).join(',');
+  assert(names === 'Root,A,B,A1' || names === 'Root,B,A,A1', `All generations, breadth first (got ${names})`);
+  const rootNode = fromRoot.body.nodes.find((n: any) => n.projectId === rootId);
+  assert(rootNode.relation === 'self' && rootNode.forkCount === 2 && rootNode.depth === 0, 'Root has two direct forks');
+  assert(fromRoot.body.nodes.find((n: any) => n.projectId === b)?.depth === 1, 'Sibling fork B is one level down');
+  const a1Node = fromRoot.body.nodes.find((n: any) => n.projectId === a1);
+  assert(a1Node.depth === 2 && a1Node.parentProjectId === a, 'Grandchild sits two levels down');
+  assert(Boolean(a1Node.forkPoint && a1Node.head), 'Nodes carry fork point and head commits');
+
+  const fromA = await api(`/projects/${a}/network`, auth);
+  const relations = Object.fromEntries(fromA.body.nodes.map((n: any) => [n.name, n.relation]));
+  assert(relations.Root === 'ancestor' && relations.A === 'self' && relations.A1 === 'descendant', 'Ancestors and descendants relative to A');
+  assert(!('B' in relations), 'Sibling forks are not part of A\'s lineage');
+  assert(fromA.body.rootProjectId === rootId, 'Reports the lineage root');
+}
+
+run(main, 'Fork network test');
@@ -0,0 +1,144 @@
+/**
+ * Test: Batch generation charges up front, reports partial failures and auto-commits
+ * Usage: npx tsx apps/api/src/scripts/test-job-batch.ts
+ * Requires: API and workers running
+ */
+
+import { api, assert, run } from './helpers';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  console.log('\n=== Test: Job Batches ===\n');
+
+  const ts = Date.now();
+  const register = async (name: string) => {
+    const res = await api('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email: `${name}-${ts}@test.phork.ai`, password: 'testpass123', displayName: name }),
+    });
+    assert(res.status === 201, `Register ${name}`);
+    return { workspaceId: res.body.workspace.id as string, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+  };
+  const owner = await register('batcher');
+  const outsider = await register('onlooker');
+  const balance = async () => (await api(`/credits/balance?workspaceId=${owner.workspaceId}`, owner.auth)).body.balance;
+
+  const proj = await api('/projects', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId: owner.workspaceId, name: 'Batch Test', templateId: 'episode-starter' }),
+    ...owner.auth,
+  });
+  const projectId = proj.body.project.id;
+  const startBalance = await balance();
+
+  // 1. Validation
+  console.log('--- Step 1: Validation ---');
+  const unknown = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, shots: [{ shotId: 'no-such-shot', prompt: 'Nothing' }] }),
+    ...owner.auth,
+  });
+  assert(unknown.status === 400, 'Unknown shots are rejected');
+  const forbidden = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, shots: [{ shotId: 'shot-001', prompt: 'Intrusion' }] }),
+    ...outsider.auth,
+  });
+  assert(forbidden.status === 403, 'Non-members cannot queue a batch');
+  const duplicated = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({
+      projectId,
+      workspaceId: owner.workspaceId,
+      shots: [{ shotId: 'shot-001', prompt: 'Once' }, { shotId: 'shot-001', text: 'Twice' }],
+    }),
+    ...owner.auth,
+  });
+  assert(duplicated.status === 400, 'Shots listed twice are rejected');
+  assert(await balance() === startBalance, 'Rejected batches charge nothing');
+
+  // 2. A batch with one blocked prompt
+  console.log('\n--- Step 2: Queue a batch ---');
+  const shots = [
+    { shotId: 'shot-001', prompt: 'A quiet harbour at dawn', text: 'It started with a boat.' },
+    { shotId: 'shot-002', prompt: 'Title card, bold letters' },
+    { shotId: 'shot-003', prompt: 'A deepfake of a news anchor', text: 'Nobody noticed at first.' },
+  ];
+  const batch = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, shots, autoCommit: true, idempotencyKey: `batch-${ts}` }),
+    ...owner.auth,
+  });
+  assert(batch.status === 201, 'Queue batch');
+  assert(batch.body.jobs.length === 5, 'One job per prompt and per dialogue text');
+  assert(batch.body.cost === 3 * 25 + 2 * 5, 'Cost is the sum of its jobs');
+  assert(await balance() === startBalance - batch.body.cost, 'Charged up front');
+
+  const again = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, shots, autoCommit: true, idempotencyKey: `batch-${ts}` }),
+    ...owner.auth,
+  });
+  assert(again.status === 200 && again.body.id === batch.body.id, 'Same idempotency key returns the same batch');
+
+  // 3. Aggregated status once every job settles
+  console.log('\n--- Step 3: Settle ---');
+  let status: any;
+  for (let i = 0; i < 60; i++) {
+    status = (await api(`/jobs/batch/${batch.body.id}`, owner.auth)).body;
+    if (status.status !== 'running') break;
+    await sleep(1000);
+  }
+  assert(status.status === 'partial', `Batch is partial (got ${status.status})`);
+  assert(status.counts.succeeded === 4 && status.counts.blocked === 1, 'Four succeeded, one blocked');
+  assert(status.failures.length === 1 && status.failures[0].shotId === 'shot-003' && status.failures[0].field === 'visual',
+    'Failure names the shot and field');
+  assert(await balance() === startBalance - batch.body.cost + 25, 'Blocked job refunded on its own');
+
+  const denied = await api(`/jobs/batch/${batch.body.id}`, outsider.auth);
+  assert(denied.status === 403, 'Non-members cannot read the batch');
+
+  // 4. The auto-commit placed the assets
+  console.log('\n--- Step 4: Auto-commit ---');
+  assert(Boolean(status.commitId), 'Batch committed its assets');
+  const project = await api(`/projects/${projectId}`, owner.auth);
+  assert(project.body.headCommit.id === status.commitId, 'Commit is the branch head');
+  const timeline = project.body.headCommit.snapshot.timeline;
+  const assetFor = (shotId: string, field: string) =>
+    status.jobs.find((j: any) => j.shotId === shotId && j.field === field && j.status === 'succeeded')?.result?.assetId;
+  assert(timeline[0].visual_asset_id === assetFor('shot-001', 'visual'), 'Shot 1 has its visual');
+  assert(timeline[0].audio_asset_id === assetFor('shot-001', 'audio'), 'Shot 1 has its dialogue');
+  assert(timeline[1].visual_asset_id === assetFor('shot-002', 'visual'), 'Shot 2 has its visual');
+  assert(timeline[2].visual_asset_id === null && timeline[2].audio_asset_id === assetFor('shot-003', 'audio'),
+    'Shot 3 keeps an empty visual but gets its dialogue');
+
+  // 5. A failed auto-commit is reported on the batch
+  console.log('\n--- Step 5: Auto-commit error ---');
+  const scratch = await api(`/projects/${projectId}/branches`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'scratch', fromBranch: 'main' }),
+    ...owner.auth,
+  });
+  assert(scratch.status === 201, 'Create scratch branch');
+  const orphan = await api('/jobs/batch', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, branch: 'scratch', shots: [{ shotId: 'shot-001', text: 'Gone soon.' }], autoCommit: true }),
+    ...owner.auth,
+  });
+  assert(orphan.status === 201, 'Queue batch on the scratch branch');
+  const removed = await api(`/projects/${projectId}/branches/scratch`, { method: 'DELETE', ...owner.auth });
+  assert(removed.status === 200, 'Delete the branch while the batch runs');
+  let orphaned: any;
+  for (let i = 0; i < 60; i++) {
+    orphaned = (await api(`/jobs/batch/${orphan.body.id}`, owner.auth)).body;
+    if (orphaned.status !== 'running') break;
+    await sleep(1000);
+  }
+  assert(orphaned.status === 'succeeded', 'The job itself succeeded');
+  assert(orphaned.commitId === null, 'Nothing was committed');
+  assert(typeof orphaned.commitError === 'string' && orphaned.commitError.includes('scratch'), 'The batch says why');
+  assert(status.commitError === null, 'A batch that committed has no commit error');
+}
+
+run(main, 'Job batch test');
@@ -0,0 +1,88 @@
+/**
+ * Test: Cancelling queued and running jobs refunds them exactly once
+ * Usage: npx tsx apps/api/src/scripts/test-job-cancel.ts
+ * Requires: API and workers running
+ */
+
+import { api, assert, run } from './helpers';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  console.log('\n=== Test: Job Cancellation ===\n');
+
+  const ts = Date.now();
+  const register = async (name: string) => {
+    const res = await api('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email: `${name}-${ts}@test.phork.ai`, password: 'testpass123', displayName: name }),
+    });
+    assert(res.status === 201, `Register ${name}`);
+    return { workspaceId: res.body.workspace.id as string, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+  };
+  const owner = await register('canceller');
+  const outsider = await register('bystander');
+  const balance = async () => (await api(`/credits/balance?workspaceId=${owner.workspaceId}`, owner.auth)).body.balance;
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId: owner.workspaceId, name: 'Cancel Test' }), ...owner.auth });
+  const projectId = proj.body.project.id;
+  const startBalance = await balance();
+
+  // 1. Cancel a generation job straight after queueing it
+  console.log('--- Step 1: Cancel gen_video ---');
+  const video = await api('/jobs/gen-video', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, prompt: 'Never finished', duration: 3000 }),
+    ...owner.auth,
+  });
+  assert(video.status === 201, 'Queue gen_video');
+  assert(await balance() === startBalance - 25, 'Charged upfront');
+
+  const forbidden = await api(`/jobs/${video.body.id}/cancel`, { method: 'POST', ...outsider.auth });
+  assert(forbidden.status === 403, 'Outsiders cannot cancel the job');
+
+  const cancel = await api(`/jobs/${video.body.id}/cancel`, { method: 'POST', ...owner.auth });
+  assert(cancel.status === 200 && cancel.body.status === 'cancelled', 'Cancel returns the cancelled job');
+  assert(cancel.body.refunded === true, 'Cancel refunds the job');
+  assert(await balance() === startBalance, 'Balance restored');
+
+  const again = await api(`/jobs/${video.body.id}/cancel`, { method: 'POST', ...owner.auth });
+  assert(again.status === 409, 'Cancelling twice is a conflict');
+
+  // Longer than the stub generator takes, so a worker that held the job would have finished it
+  await sleep(6000);
+  const after = await api(`/jobs/${video.body.id}`, owner.auth);
+  assert(after.body.status === 'cancelled' && !after.body.result, 'Worker never completes a cancelled job');
+
+  // 2. Cancel a render while the worker is running it
+  console.log('\n--- Step 2: Cancel a running render ---');
+  const timeline = Array.from({ length: 6 }, (_, i) => ({
+    shot_id: `s${i}`, visual_asset_id: null, audio_asset_id: null, duration_ms: 10000, trim_in_ms: 0, trim_out_ms: 10000, subtitle: null,
+  }));
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST', body: JSON.stringify({ message: 'Long cut', snapshot: { timeline } }), ...owner.auth,
+  });
+  const render = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, commitId: commit.body.id }),
+    ...owner.auth,
+  });
+  assert(render.status === 201, 'Queue render');
+
+  for (let i = 0; i < 20; i++) {
+    if ((await api(`/jobs/${render.body.id}`, owner.auth)).body.status !== 'queued') break;
+    await sleep(500);
+  }
+  const renderCancel = await api(`/jobs/${render.body.id}/cancel`, { method: 'POST', ...owner.auth });
+  assert(renderCancel.status === 200 && renderCancel.body.refunded === true, 'Cancel the running render');
+  await sleep(3000);
+  const rendered = await api(`/jobs/${render.body.id}`, owner.auth);
+  assert(rendered.body.status === 'cancelled' && !rendered.body.result, 'Render stays cancelled with no output');
+  assert(await balance() === startBalance, 'Render refunded once');
+
+  const ledger = await api(`/credits/ledger?workspaceId=${owner.workspaceId}`, owner.auth);
+  const refunds = ledger.body.data.filter((e: any) => e.delta > 0 && e.jobId === render.body.id);
+  assert(refunds.length === 1, 'Exactly one refund entry for the render');
+}
+
+run(main, 'Job cancellation test');
@@ -0,0 +1,105 @@
+/**
+ * Test: Job status and progress stream over Server-Sent Events
+ * Usage: npx tsx apps/api/src/scripts/test-job-events.ts
+ * Requires: API and workers running
+ */
+
+import { API, api, assert, run } from './helpers';
+
+/** Collect `job` events from the stream until `done` returns true or the timeout passes */
+async function collectEvents(path: string, auth: any, done: (events: any[]) => boolean, timeoutMs = 30000) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const events: any[] = [];
+  const res = await fetch(`${API}${path}`, { ...auth, signal: controller.signal });
+  const opened = { status: res.status, contentType: res.headers.get('content-type'), events };
+  if (!res.ok || !res.body) {
+    clearTimeout(timer);
+    return { ...opened, read: Promise.resolve() };
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  const read = (async () => {
+    try {
+      for (;;) {
+        const { value, done: ended } = await reader.read();
+        if (ended) return;
+        buffer += value;
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const data = buffer.slice(0, end).split('\n').find((l) => l.startsWith('data:'));
+          buffer = buffer.slice(end + 2);
+          if (data) events.push(JSON.parse(data.slice(5)));
+          if (done(events)) return controller.abort();
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+  return { ...opened, read: read.finally(() => clearTimeout(timer)) };
+}
+
+async function main() {
+  console.log('\n=== Test: Job Events ===\n');
+
+  const ts = Date.now();
+  const register = async (name: string) => {
+    const res = await api('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email: `${name}-${ts}@test.phork.ai`, password: 'testpass123', displayName: name }),
+    });
+    assert(res.status === 201, `Register ${name}`);
+    return { workspaceId: res.body.workspace.id as string, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+  };
+  const owner = await register('watcher');
+  const outsider = await register('snooper');
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId: owner.workspaceId, name: 'Events Test' }), ...owner.auth });
+  const projectId = proj.body.project.id;
+
+  // 1. Scope and membership
+  console.log('--- Step 1: Access ---');
+  const denied = await api(`/jobs/events?projectId=${projectId}`, outsider.auth);
+  assert(denied.status === 403, 'Non-members cannot open the project stream');
+
+  // 2. A generation job's lifecycle arrives on the stream
+  console.log('\n--- Step 2: Lifecycle ---');
+  let jobId = '';
+  const finished = (events: any[]) => events.some((e) => e.jobId === jobId && ['succeeded', 'failed', 'blocked', 'cancelled'].includes(e.status));
+  const stream = await collectEvents(`/jobs/events?projectId=${projectId}`, owner.auth, finished);
+  assert(stream.status === 200 && stream.contentType?.startsWith('text/event-stream') === true, 'Stream opens as text/event-stream');
+
+  const job = await api('/jobs/gen-video', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, prompt: 'Streamed shot', duration: 2000 }),
+    ...owner.auth,
+  });
+  jobId = job.body.id;
+  await stream.read;
+
+  const mine = stream.events.filter((e) => e.jobId === jobId);
+  const statuses = [...new Set(mine.map((e) => e.status))];
+  assert(statuses.join(',') === 'queued,running,succeeded', `Statuses arrive in order (got ${statuses.join(',')})`);
+  const progress = mine.filter((e) => e.progress).map((e) => e.progress);
+  assert(progress.length > 0 && progress.every((p: any) => p.percent >= 0 && p.percent <= 100), 'Progress updates carry a percent');
+  assert(progress.some((p: any) => p.stage === 'generating'), 'Progress names the stage');
+  const percents = progress.map((p: any) => p.percent);
+  assert(percents.every((p: number, i: number) => i === 0 || p >= percents[i - 1]), 'Percent never goes backwards');
+  assert(Boolean(mine[mine.length - 1].result?.assetId), 'Final event carries the result');
+
+  // 3. Jobs in other projects stay out of a project stream
+  console.log('\n--- Step 3: Scoping ---');
+  const other = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId: owner.workspaceId, name: 'Elsewhere' }), ...owner.auth });
+  const scoped = await collectEvents(`/jobs/events?projectId=${projectId}`, owner.auth, () => false, 3000);
+  await api('/jobs/gen-audio', {
+    method: 'POST',
+    body: JSON.stringify({ projectId: other.body.project.id, workspaceId: owner.workspaceId, text: 'Not for this stream' }),
+    ...owner.auth,
+  });
+  await scoped.read;
+  assert(scoped.events.every((e) => e.projectId === projectId), 'Only the project\'s jobs are streamed');
+}
+
+run(main, 'Job events test');
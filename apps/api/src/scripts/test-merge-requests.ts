@@ -0,0 +1,155 @@
+/**
+ * Test: Merge requests and upstream sync — three-way merges between a fork and its parent
+ * Usage: npx tsx apps/api/src/scripts/test-merge-requests.ts
+ */
+
+import { api, assert, run } from './helpers';
+
+const shot = (id: string, extra: Record<string, unknown> = {}) => ({
+  shot_id: id, visual_asset_id: null, audio_asset_id: null,
+  duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null, ...extra,
+});
+
+async function main() {
+  console.log('\n=== Test: Merge Requests ===\n');
+
+  const email = `merge-${Date.now()}@test.phork.ai`;
+  const reg = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: 'testpass123', displayName: 'Merge Tester' }),
+  });
+  assert(reg.status === 201, 'Register user');
+  const workspaceId = reg.body.workspace.id;
+  const auth = { headers: { Authorization: `Bearer ${reg.body.token}` } };
+
+  const commit = (projectId: string, message: string, timeline: unknown[]) =>
+    api(`/projects/${projectId}/commits`, { method: 'POST', body: JSON.stringify({ message, snapshot: { timeline } }), ...auth });
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Upstream' }), ...auth });
+  assert(proj.status === 201, 'Create parent project');
+  const parentId = proj.body.project.id;
+  const c0 = await commit(parentId, 'Three shots', [shot('a'), shot('b'), shot('c')]);
+  assert(c0.status === 201, 'Commit base timeline');
+
+  const fork = await api(`/projects/${parentId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'Downstream', fromCommitId: c0.body.id }),
+    ...auth,
+  });
+  assert(fork.status === 201, 'Fork the parent');
+  const forkId = fork.body.project.id;
+
+  // 1. Clean merge
+  console.log('\n--- Step 1: Clean merge ---');
+  const p1 = await commit(parentId, 'Parent edits a', [shot('a', { subtitle: 'parent' }), shot('b'), shot('c')]);
+  const f1 = await commit(forkId, 'Fork edits b, adds d', [shot('a'), shot('b', { subtitle: 'fork' }), shot('d'), shot('c')]);
+  assert(p1.status === 201 && f1.status === 201, 'Diverge parent and fork');
+
+  const notFork = await api(`/projects/${parentId}/merge-requests`, { method: 'POST', body: JSON.stringify({ title: 'x' }), ...auth });
+  assert(notFork.status === 400, 'Non-fork cannot open a merge request');
+
+  const mr1 = await api(`/projects/${forkId}/merge-requests`, { method: 'POST', body: JSON.stringify({ title: 'Fork edits' }), ...auth });
+  assert(mr1.status === 201, 'Open merge request from the fork');
+  assert(mr1.body.sourceCommitId === f1.body.id && mr1.body.targetBranch === 'main', 'Proposes the fork head to main');
+
+  const incoming = await api(`/projects/${parentId}/merge-requests?status=open`, auth);
+  assert(incoming.body.data.length === 1 && incoming.body.data[0].direction === 'incoming', 'Listed as incoming on the parent');
+
+  const view1 = await api(`/projects/${parentId}/merge-requests/${mr1.body.id}`, auth);
+  assert(view1.status === 200 && view1.body.preview.mergeable, 'Preview is mergeable');
+  assert(view1.body.preview.diff.summary.added === 1 && view1.body.preview.diff.summary.modified === 1, 'Preview adds d and modifies b');
+
+  const merged1 = await api(`/projects/${parentId}/merge-requests/${mr1.body.id}/merge`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(merged1.status === 201, 'Merge');
+  assert(merged1.body.commit.parentCommitId === p1.body.id, 'First parent is the target head');
+  assert(merged1.body.commit.mergeParentCommitId === f1.body.id, 'Second parent is the fork commit');
+  const ids = merged1.body.commit.snapshot.timeline.map((s: any) => s.shot_id).join(',');
+  assert(ids === 'a,b,d,c', `Merged order is a,b,d,c (got ${ids})`);
+  const [a, b] = merged1.body.commit.snapshot.timeline;
+  assert(a.subtitle === 'parent' && b.subtitle === 'fork', 'Both sides\' edits kept');
+
+  const again = await api(`/projects/${parentId}/merge-requests/${mr1.body.id}/merge`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(again.status === 400, 'Cannot merge twice');
+
+  // 2. Conflict, then resolve
+  console.log('\n--- Step 2: Conflicts ---');
+  await commit(parentId, 'Parent lengthens a', [shot('a', { subtitle: 'parent', duration_ms: 5000 }), shot('b', { subtitle: 'fork' }), shot('d'), shot('c')]);
+  const f2 = await commit(forkId, 'Fork lengthens a', [shot('a', { duration_ms: 6000 }), shot('b', { subtitle: 'fork' }), shot('d'), shot('c')]);
+  const mr2 = await api(`/projects/${forkId}/merge-requests`, { method: 'POST', body: JSON.stringify({ title: 'Longer a' }), ...auth });
+  assert(mr2.status === 201 && mr2.body.sourceCommitId === f2.body.id, 'Open second merge request');
+
+  const view2 = await api(`/projects/${forkId}/merge-requests/${mr2.body.id}`, auth);
+  assert(view2.status === 200, 'Fork side can view the request');
+  const conflicts = view2.body.preview.conflicts;
+  assert(conflicts.length === 1 && conflicts[0].id === 'a' && conflicts[0].fields.join() === 'duration_ms', 'Conflict on shot a duration only');
+
+  const fromFork = await api(`/projects/${forkId}/merge-requests/${mr2.body.id}/merge`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(fromFork.status === 403, 'Only the target side can merge');
+
+  const blocked = await api(`/projects/${parentId}/merge-requests/${mr2.body.id}/merge`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(blocked.status === 409 && blocked.body.conflicts.length === 1, 'Unresolved conflict blocks the merge');
+
+  const resolved = await api(`/projects/${parentId}/merge-requests/${mr2.body.id}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ resolutions: { 'shot:a': 'source' } }),
+    ...auth,
+  });
+  assert(resolved.status === 201, 'Merge with a resolution');
+  const a2 = resolved.body.commit.snapshot.timeline[0];
+  assert(a2.duration_ms === 6000 && a2.subtitle === 'parent', 'Resolution takes the fork duration, keeps the parent subtitle');
+
+  // 3. Close
+  console.log('\n--- Step 3: Close ---');
+  const mr3 = await api(`/projects/${forkId}/merge-requests`, { method: 'POST', body: JSON.stringify({ title: 'Never mind' }), ...auth });
+  const closed = await api(`/projects/${forkId}/merge-requests/${mr3.body.id}/close`, { method: 'POST', ...auth });
+  assert(closed.status === 200 && closed.body.status === 'closed', 'Close from the fork side');
+  const afterClose = await api(`/projects/${parentId}/merge-requests/${mr3.body.id}/merge`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(afterClose.status === 400, 'Closed request cannot be merged');
+
+  // 4. Sync the fork with new upstream commits
+  console.log('\n--- Step 4: Sync upstream ---');
+  const p3 = await commit(parentId, 'Parent retitles c', [
+    shot('a', { subtitle: 'parent', duration_ms: 6000 }), shot('b', { subtitle: 'fork' }), shot('d'), shot('c', { subtitle: 'upstream' }),
+  ]);
+  const alt = await api(`/projects/${forkId}/branches`, { method: 'POST', body: JSON.stringify({ name: 'alt' }), ...auth });
+  assert(alt.status === 201, 'Second fork branch at the same head');
+  const behind = await api(`/projects/${forkId}/upstream`, auth);
+  assert(behind.status === 200 && !behind.body.upToDate, 'Fork is behind upstream');
+  assert(behind.body.behind.length === 1 && behind.body.behind[0].id === p3.body.id, 'Only the commit after the last merge is new');
+
+  const synced = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(synced.status === 201, 'Sync');
+  assert(synced.body.commit.parentCommitId === f2.body.id && synced.body.commit.mergeParentCommitId === p3.body.id, 'Sync commit has fork and upstream parents');
+  assert(synced.body.upstreamCommitId === p3.body.id, 'Synced up to the upstream head');
+  const forkAfterSync = await api(`/projects/${forkId}`, auth);
+  assert(forkAfterSync.body.project.forkedFromCommitId === c0.body.id, 'The fork point stays where the fork was made');
+  const altBehind = await api(`/projects/${forkId}/upstream?branch=alt`, auth);
+  assert(altBehind.body.baseCommitId === f2.body.id, 'The unsynced branch keeps its own merge base');
+  assert(altBehind.body.behind.length === 1 && altBehind.body.mergeable, 'The unsynced branch still syncs cleanly');
+  const syncedC = synced.body.commit.snapshot.timeline.find((s: any) => s.shot_id === 'c');
+  assert(syncedC?.subtitle === 'upstream', 'Upstream edit applied to the fork');
+
+  const noop = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(noop.status === 200 && noop.body.upToDate, 'Second sync is a no-op');
+
+  await commit(forkId, 'Fork retitles d', [
+    shot('a', { subtitle: 'parent', duration_ms: 6000 }), shot('b', { subtitle: 'fork' }), shot('d', { subtitle: 'mine' }), shot('c', { subtitle: 'upstream' }),
+  ]);
+  await commit(parentId, 'Parent retitles d', [
+    shot('a', { subtitle: 'parent', duration_ms: 6000 }), shot('b', { subtitle: 'fork' }), shot('d', { subtitle: 'theirs' }), shot('c', { subtitle: 'upstream' }),
+  ]);
+  const conflicted = await api(`/projects/${forkId}/sync-upstream`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(conflicted.status === 409 && conflicted.body.conflicts[0]?.id === 'd', 'Conflicting upstream edit is reported per shot');
+  const kept = await api(`/projects/${forkId}/sync-upstream`, {
+    method: 'POST',
+    body: JSON.stringify({ resolutions: { 'shot:d': 'target' } }),
+    ...auth,
+  });
+  assert(kept.status === 201, 'Sync with a resolution');
+  assert(kept.body.commit.snapshot.timeline.find((s: any) => s.shot_id === 'd')?.subtitle === 'mine', 'Resolution keeps the fork edit');
+
+  const notAFork = await api(`/projects/${parentId}/upstream`, auth);
+  assert(notAFork.status === 400, 'Upstream status requires a fork');
+}
+
+run(main, 'Merge requests test');
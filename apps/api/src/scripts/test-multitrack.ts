@@ -0,0 +1,89 @@
+/**
+ * Test: Multi-track (v2) snapshots with dialogue, music and SFX lanes
+ *
+ * 1. Lane clips are stored with gain and fade defaults filled in
+ * 2. Every lane asset is a render input and upstream of the render
+ * 3. Lane audio that runs past the last shot is cut to the timeline
+ * 4. Invalid clips and assets from another workspace are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-multitrack.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, probeAsset, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Multi-track Timeline ===\n');
+
+  const owner = await register('mixdown');
+  const other = await register('sampler');
+  const { auth } = owner;
+  const projectId = (await createProject(owner, 'Multitrack Test')).project.id;
+
+  const commit = (tracks: any, timeline: any[], message = 'Lanes') => api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message, snapshot: { schema_version: 2, timeline, tracks } }),
+    ...auth,
+  });
+
+  // 1. Generate shots and lane audio
+  console.log('--- Step 1: Generate ---');
+  const video1 = await generate(owner, projectId, '/jobs/gen-video', { prompt: 'Lane shot one', duration: 2000 });
+  const video2 = await generate(owner, projectId, '/jobs/gen-video', { prompt: 'Lane shot two', duration: 2000 });
+  const line = await generate(owner, projectId, '/jobs/gen-audio', { text: 'A line of dialogue.' });
+  const music = await generate(owner, projectId, '/jobs/gen-audio', { text: 'Music bed '.repeat(10) });
+  const whoosh = await generate(owner, projectId, '/jobs/gen-audio', { text: 'Whoosh!' });
+
+  const shot = (shotId: string, visual: string) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: 2000, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+  });
+  const timeline = [shot('shot-1', video1), shot('shot-2', video2)];
+
+  // 2. Commit lanes and read them back
+  console.log('\n--- Step 2: Commit lanes ---');
+  const lanes = await commit({
+    dialogue: [{ clip_id: 'line', asset_id: line, start_ms: 250, duration_ms: 1000 }],
+    music: [{ clip_id: 'bed', asset_id: music, start_ms: 0, duration_ms: 5000, gain_db: -9, fade_in_ms: 500, fade_out_ms: 1000 }],
+    sfx: [{ clip_id: 'whoosh', asset_id: whoosh, start_ms: 1800, duration_ms: 400 }],
+  }, timeline);
+  assert(lanes.status === 201, 'Commit with dialogue, music and SFX lanes');
+  const stored = (await api(`/projects/${projectId}/commits/${lanes.body.id}`, auth)).body.snapshot;
+  const dialogueClip = stored.tracks.dialogue[0];
+  assert(dialogueClip.gain_db === 0 && dialogueClip.fade_in_ms === 0 && dialogueClip.fade_out_ms === 0 && dialogueClip.trim_in_ms === 0,
+    'Omitted gain, fades and trim default to 0');
+  assert(stored.tracks.music[0].gain_db === -9 && stored.tracks.music[0].fade_out_ms === 1000, 'Explicit gain and fades are kept');
+  assert(stored.tracks.sfx[0].start_ms === 1800, 'Clips keep their absolute start time');
+
+  // 3. Render
+  console.log('\n--- Step 3: Render ---');
+  const asset = await renderCommit(owner, projectId, lanes.body.id);
+  const { durationMs } = await probeAsset(asset.id, auth);
+  assert(Math.abs(durationMs - 4000) < 150, `A music bed past the last shot is cut to the timeline, 4000ms (got ${durationMs}ms)`);
+  const params = asset.provenance.input.params;
+  assert([line, music, whoosh].every((id) => params.trackAssetIds.includes(id)), 'Every lane asset is a render input');
+  const upstream = asset.provenance.upstream.map((u: any) => u.asset_id);
+  assert([line, music, whoosh].every((id) => upstream.includes(id)), 'Lane assets are recorded as upstream of the render');
+
+  // 4. Rejections
+  console.log('\n--- Step 4: Invalid lanes ---');
+  const before = (await api(`/projects/${projectId}`, auth)).body.headCommit.id;
+  const clip = { clip_id: 'bad', asset_id: music, start_ms: 0, duration_ms: 1000 };
+  const rejected = async (bad: any, msg: string) =>
+    assert((await commit({ dialogue: [], music: [bad], sfx: [] }, timeline)).status >= 400, msg);
+  await rejected({ ...clip, start_ms: -500 }, 'Negative start_ms is rejected');
+  await rejected({ ...clip, duration_ms: 0 }, 'Zero duration is rejected');
+  await rejected({ ...clip, trim_in_ms: -1 }, 'Negative trim_in_ms is rejected');
+  await rejected({ ...clip, gain_db: 30 }, 'Gain above +12 dB is rejected');
+  await rejected({ ...clip, gain_db: -80 }, 'Gain below -60 dB is rejected');
+  await rejected({ ...clip, fade_in_ms: 700, fade_out_ms: 700 }, 'Fades longer than the clip are rejected');
+  const unknown = await commit({ dialogue: [], music: [{ ...clip, asset_id: '00000000-0000-0000-0000-000000000000' }], sfx: [] }, timeline);
+  assert(unknown.status === 400, 'Unknown lane assets are rejected');
+
+  const otherProject = (await createProject(other, 'Not Yours')).project.id;
+  const foreign = await generate(other, otherProject, '/jobs/gen-audio', { text: 'Borrowed sample.' });
+  const borrowed = await commit({ dialogue: [], music: [], sfx: [{ ...clip, asset_id: foreign }] }, timeline);
+  assert(borrowed.status === 403, 'Lane assets from another workspace are rejected');
+  assert((await api(`/projects/${projectId}`, auth)).body.headCommit.id === before, 'Rejected commits did not move the branch');
+}
+
+run(main, 'Multi-track test');
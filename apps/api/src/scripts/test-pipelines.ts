@@ -0,0 +1,144 @@
+/**
+ * Test: Pipelines chain generation, commit, render and publish, and refund skipped steps
+ * Usage: npx tsx apps/api/src/scripts/test-pipelines.ts
+ * Requires: API and workers running
+ */
+
+import { api, assert, run } from './helpers';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  console.log('\n=== Test: Pipelines ===\n');
+
+  const ts = Date.now();
+  const register = async (name: string) => {
+    const res = await api('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email: `${name}-${ts}@test.phork.ai`, password: 'testpass123', displayName: name }),
+    });
+    assert(res.status === 201, `Register ${name}`);
+    return { workspaceId: res.body.workspace.id as string, auth: { headers: { Authorization: `Bearer ${res.body.token}` } } };
+  };
+  const owner = await register('piper');
+  const outsider = await register('bystander');
+  const balance = async () => (await api(`/credits/balance?workspaceId=${owner.workspaceId}`, owner.auth)).body.balance;
+
+  const proj = await api('/projects', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId: owner.workspaceId, name: 'Pipeline Test', templateId: 'episode-starter' }),
+    ...owner.auth,
+  });
+  const projectId = proj.body.project.id;
+  const startBalance = await balance();
+
+  const createPipeline = (steps: any[], auth = owner.auth, extra: any = {}) => api('/pipelines', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId: owner.workspaceId, steps, ...extra }),
+    ...auth,
+  });
+  const waitForPipeline = async (id: string) => {
+    let status: any;
+    for (let i = 0; i < 120; i++) {
+      status = (await api(`/pipelines/${id}`, owner.auth)).body;
+      if (status.status !== 'running') break;
+      await sleep(1000);
+    }
+    return status;
+  };
+  const step = (status: any, id: string) => status.steps.find((s: any) => s.id === id);
+
+  // 1. Validation
+  console.log('--- Step 1: Validation ---');
+  const cycle = await createPipeline([
+    { id: 'a', type: 'gen_image', dependsOn: ['b'], params: { prompt: 'Chicken' } },
+    { id: 'b', type: 'gen_image', dependsOn: ['a'], params: { prompt: 'Egg' } },
+  ]);
+  assert(cycle.status === 400, 'Cycles are rejected');
+  const unknownRef = await createPipeline([
+    { id: 'cut', type: 'render', params: { commitId: { $ref: 'nowhere.commitId' } } },
+  ]);
+  assert(unknownRef.status === 400, 'References to unknown steps are rejected');
+  const badOutput = await createPipeline([
+    { id: 'still', type: 'gen_image', params: { prompt: 'A frame' } },
+    { id: 'cut', type: 'render', params: { commitId: { $ref: 'still.commitId' } } },
+  ]);
+  assert(badOutput.status === 400, 'References to outputs a step does not produce are rejected');
+  const badStyle = await createPipeline([
+    { id: 'cut', type: 'render', params: { branch: 'main', subtitles: { burnIn: true, style: { fontName: 'Arial\':x' } } } },
+  ]);
+  assert(badStyle.status >= 400, 'Subtitle styles are validated as for POST /jobs/render');
+  const forbidden = await createPipeline([{ id: 'a', type: 'gen_image', params: { prompt: 'Intrusion' } }], outsider.auth);
+  assert(forbidden.status === 403, 'Non-members cannot start a pipeline');
+  assert(await balance() === startBalance, 'Rejected pipelines charge nothing');
+
+  // 2. Generate, commit, render, publish
+  console.log('\n--- Step 2: Full chain ---');
+  const chain = [
+    { id: 'visual', type: 'gen_video', params: { prompt: 'A lighthouse at dusk', duration: 2000 } },
+    { id: 'voice', type: 'gen_audio', params: { text: 'The light still turns.' } },
+    {
+      id: 'place',
+      type: 'commit',
+      params: { message: 'Overnight pass', shots: [{ shotId: 'shot-001', visualAssetId: { $ref: 'visual.assetId' }, audioAssetId: { $ref: 'voice.assetId' } }] },
+    },
+    { id: 'cut', type: 'render', params: { commitId: { $ref: 'place.commitId' }, subtitles: { burnIn: true, style: { fontSize: 40 } } } },
+    { id: 'ship', type: 'publish', params: { renderAssetId: { $ref: 'cut.assetId' }, commitId: { $ref: 'cut.commitId' }, enableShareLink: true } },
+  ];
+  const created = await createPipeline(chain, owner.auth, { name: 'Overnight', idempotencyKey: `pipeline-${ts}` });
+  assert(created.status === 201, 'Start pipeline');
+  assert(created.body.cost === 25 + 5 + 15, 'Cost is the sum of its generation and render steps');
+  assert(await balance() === startBalance - created.body.cost, 'Charged up front');
+  assert(step(created.body, 'place').dependsOn.sort().join(',') === 'visual,voice', 'Referenced steps become dependencies');
+  assert(step(created.body, 'ship').level === 3, 'Steps are levelled by depth');
+  assert(step(created.body, 'cut').status === 'pending', 'Later levels wait');
+
+  const again = await createPipeline(chain, owner.auth, { name: 'Overnight', idempotencyKey: `pipeline-${ts}` });
+  assert(again.status === 200 && again.body.id === created.body.id, 'Same idempotency key returns the same pipeline');
+
+  const done = await waitForPipeline(created.body.id);
+  assert(done.status === 'succeeded', `Pipeline succeeded (got ${done.status})`);
+  assert(done.steps.every((s: any) => s.status === 'succeeded'), 'Every step succeeded');
+
+  const project = await api(`/projects/${projectId}`, owner.auth);
+  const commitId = step(done, 'place').output.commitId;
+  assert(project.body.headCommit.id === commitId, 'Commit step advanced the branch');
+  const shot = project.body.headCommit.snapshot.timeline[0];
+  assert(shot.visual_asset_id === step(done, 'visual').output.assetId, 'Commit placed the generated visual');
+  assert(shot.audio_asset_id === step(done, 'voice').output.assetId, 'Commit placed the generated audio');
+  assert(step(done, 'cut').output.commitId === commitId, 'Render used the commit step output');
+  const renderRequest = (await api(`/jobs/${step(done, 'cut').jobId}`, owner.auth)).body.request;
+  assert(renderRequest.commitId === commitId, 'Render job request was pinned to the commit');
+  assert(renderRequest.subtitles?.burnIn === true && renderRequest.subtitles.style.fontSize === 40 && renderRequest.subtitles.style.fontName === 'Arial',
+    'Render job kept its subtitle style, with defaults filled in');
+
+  const published = await api(`/publish/${projectId}`, owner.auth);
+  assert(published.body.publishedRender?.id === step(done, 'ship').output.publishedRenderId, 'Publish step published the render');
+  assert(published.body.publishedRender.renderAssetId === step(done, 'cut').output.assetId, 'Published render is the rendered asset');
+  assert(Boolean(step(done, 'ship').output.shareToken), 'Share link was enabled');
+  assert(await balance() === startBalance - created.body.cost, 'Nothing refunded when every step succeeds');
+
+  // 3. A blocked step skips and refunds everything downstream
+  console.log('\n--- Step 3: Upstream failure ---');
+  const before = await balance();
+  const doomed = await createPipeline([
+    { id: 'visual', type: 'gen_video', params: { prompt: 'A deepfake of a news anchor' } },
+    { id: 'place', type: 'commit', params: { shots: [{ shotId: 'shot-002', visualAssetId: { $ref: 'visual.assetId' } }] } },
+    { id: 'cut', type: 'render', params: { commitId: { $ref: 'place.commitId' } } },
+  ]);
+  assert(doomed.status === 201 && doomed.body.cost === 25 + 15, 'Start pipeline with a blocked prompt');
+  const settled = await waitForPipeline(doomed.body.id);
+  assert(settled.status === 'failed', 'Pipeline failed');
+  assert(step(settled, 'visual').status === 'blocked', 'Generation step was blocked');
+  assert(step(settled, 'place').status === 'skipped' && step(settled, 'cut').status === 'skipped', 'Downstream steps were skipped');
+  const renderJob = await api(`/jobs/${step(settled, 'cut').jobId}`, owner.auth);
+  assert(renderJob.body.status === 'cancelled', 'Skipped render job was cancelled');
+  assert(await balance() === before, 'Blocked and skipped steps were refunded');
+
+  const list = await api(`/pipelines?projectId=${projectId}`, owner.auth);
+  assert(list.body.data.length === 2 && list.body.data[0].id === doomed.body.id, 'Project pipelines are listed newest first');
+  const denied = await api(`/pipelines/${created.body.id}`, outsider.auth);
+  assert(denied.status === 403, 'Non-members cannot read a pipeline');
+}
+
+run(main, 'Pipelines test');
@@ -0,0 +1,77 @@
+/**
+ * Test: Shot narration is mixed into the render
+ *
+ * 1. Each shot's audio asset is rendered with its visual and listed as a render source
+ * 2. Narration longer than its shot is cut to the shot, shorter narration is padded
+ * 3. A shot with narration but no visual renders over a blank clip
+ * 4. Narration must be a platform asset from the project's workspace
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-render-narration.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, probeAsset, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Render Narration ===\n');
+
+  const owner = await register('narrator');
+  const other = await register('ventriloquist');
+  const { auth } = owner;
+  const projectId = (await createProject(owner, 'Narration Test')).project.id;
+
+  // 1. Generate visuals and narration of different lengths
+  console.log('--- Step 1: Generate ---');
+  const video1 = await generate(owner, projectId, '/jobs/gen-video', { prompt: 'Narrated shot one', duration: 3000 });
+  const video2 = await generate(owner, projectId, '/jobs/gen-video', { prompt: 'Narrated shot two', duration: 3000 });
+  const short = await generate(owner, projectId, '/jobs/gen-audio', { text: 'Hello.' });
+  const long = await generate(owner, projectId, '/jobs/gen-audio', { text: 'This line runs well past the end of its shot. '.repeat(2) });
+  const shortAsset = (await api(`/assets/${short}`, auth)).body;
+  const longAsset = (await api(`/assets/${long}`, auth)).body;
+  assert(shortAsset.durationMs < 3000, `Short narration is shorter than its shot (${shortAsset.durationMs}ms)`);
+  assert(longAsset.durationMs > 3000, `Long narration is longer than its shot (${longAsset.durationMs}ms)`);
+
+  // 2. Commit and render
+  console.log('\n--- Step 2: Render with narration ---');
+  const shot = (shotId: string, visual: string | null, audio: string | null) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: audio, duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+  });
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Narrated cut',
+      snapshot: { timeline: [shot('shot-1', video1, short), shot('shot-2', video2, long), shot('shot-3', null, short)] },
+    }),
+    ...auth,
+  });
+  assert(commit.status === 201, 'Commit shots with narration');
+
+  const asset = await renderCommit(owner, projectId, commit.body.id);
+  const { durationMs } = await probeAsset(asset.id, auth);
+  assert(Math.abs(durationMs - 9000) < 150, `Narration is fitted to each shot; render is 9000ms (got ${durationMs}ms)`);
+  const params = asset.provenance.input.params;
+  assert(params.shotAssetIds.includes(short) && params.shotAssetIds.includes(long), 'Narration assets are render inputs');
+  assert(params.shotAssetIds.includes(video1) && params.shotAssetIds.includes(video2), 'Visuals are render inputs');
+  const upstream = asset.provenance.upstream.map((u: any) => u.asset_id);
+  assert(upstream.includes(short) && upstream.includes(long), 'Narration is recorded as upstream of the render');
+  assert(asset.upstreamAssetIds.includes(long), 'Render lists narration among its upstream asset IDs');
+
+  // 3. Narration must be usable by this workspace
+  console.log('\n--- Step 3: Narration ownership ---');
+  const otherProject = (await createProject(other, 'Not Yours')).project.id;
+  const foreign = await generate(other, otherProject, '/jobs/gen-audio', { text: 'Borrowed voice.' });
+  const borrowed = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message: 'Borrow', snapshot: { timeline: [shot('shot-1', video1, foreign)] } }),
+    ...auth,
+  });
+  assert(borrowed.status === 403, 'Narration from another workspace is rejected');
+  const unknown = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message: 'Made up', snapshot: { timeline: [shot('shot-1', video1, '00000000-0000-0000-0000-000000000000')] } }),
+    ...auth,
+  });
+  assert(unknown.status === 400, 'Unknown narration assets are rejected');
+}
+
+run(main, 'Render narration test');
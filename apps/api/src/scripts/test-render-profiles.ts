@@ -0,0 +1,83 @@
+/**
+ * Test: Render output profiles
+ *
+ * 1. gen-video honors aspectRatio
+ * 2. Renders default to hd_16x9 and record the profile they used
+ * 3. Sources are fitted to the profile's frame, and the render asset records the true size
+ * 4. Frame rate and codec follow the profile (VP9 renders are WebM)
+ * 5. Unknown profiles are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-render-profiles.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, pollJob, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Render Profiles ===\n');
+
+  const user = await register('framer');
+  const { workspaceId, auth } = user;
+  const projectId = (await createProject(user, 'Profile Test')).project.id;
+
+  const video = async (prompt: string, aspectRatio: string) => {
+    const assetId = await generate(user, projectId, '/jobs/gen-video', { prompt, duration: 2000, aspectRatio });
+    return (await api(`/assets/${assetId}`, auth)).body;
+  };
+  const queueRender = (commitId: string, profileId?: string) => api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId, commitId, profileId }),
+    ...auth,
+  });
+  const render = (commitId: string, profileId: string) => renderCommit(user, projectId, commitId, { profileId });
+
+  // 1. Sources in two aspect ratios
+  console.log('--- Step 1: Generate ---');
+  const tall = await video('Tall source', '9:16');
+  const wide = await video('Wide source', '16:9');
+  assert(tall.width === 720 && tall.height === 1280, `9:16 gen-video is portrait (${tall.width}x${tall.height})`);
+  assert(wide.width === 1280 && wide.height === 720, `16:9 gen-video is landscape (${wide.width}x${wide.height})`);
+
+  const shot = (shotId: string, visual: string) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: 2000, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+  });
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message: 'Mixed aspect ratios', snapshot: { timeline: [shot('tall', tall.id), shot('wide', wide.id)] } }),
+    ...auth,
+  });
+  assert(commit.status === 201, 'Commit mixed aspect ratios');
+  const commitId = commit.body.id;
+
+  // 2. Default profile
+  console.log('\n--- Step 2: Default profile ---');
+  const queued = await queueRender(commitId);
+  assert(queued.status === 201 && queued.body.request?.profileId === 'hd_16x9', 'Renders default to hd_16x9');
+  const standard = (await api(`/assets/${(await pollJob(queued.body.id, auth)).result.assetId}`, auth)).body;
+  assert(standard.width === 1280 && standard.height === 720, `Default render is 1280x720 (${standard.width}x${standard.height})`);
+  assert(standard.mimeType === 'video/mp4', 'Default render is MP4');
+  assert(standard.provenance.input.params.profile?.id === 'hd_16x9', 'Render records its profile');
+
+  // 3. Vertical
+  console.log('\n--- Step 3: Vertical ---');
+  const vertical = await render(commitId, 'vertical_9x16');
+  assert(vertical.width === 1080 && vertical.height === 1920, `Both sources fit the 9:16 frame (${vertical.width}x${vertical.height})`);
+  assert(Math.abs(vertical.durationMs - 4000) < 150, `Fitting keeps shot timing (${vertical.durationMs}ms)`);
+  assert(vertical.provenance.input.params.profile.id === 'vertical_9x16', 'Vertical render records its profile');
+
+  // 4. Frame rate and codec
+  console.log('\n--- Step 4: Frame rate and codec ---');
+  const smooth = await render(commitId, 'fhd_16x9_60');
+  assert(smooth.width === 1920 && smooth.height === 1080, `1080p render is 1920x1080 (${smooth.width}x${smooth.height})`);
+  assert(smooth.provenance.input.params.profile.fps === 60, 'Render records the 60 fps profile');
+  const webm = await render(commitId, 'web_vp9');
+  assert(webm.mimeType === 'video/webm', `VP9 profile renders WebM (${webm.mimeType})`);
+  assert(webm.width === 1920 && webm.height === 1080, 'WebM render has the profile size');
+
+  // 5. Unknown profile
+  console.log('\n--- Step 5: Unknown profile ---');
+  const unknown = await queueRender(commitId, 'imax_70mm');
+  assert(unknown.status === 400, 'Unknown profiles are rejected');
+}
+
+run(main, 'Render profiles test');
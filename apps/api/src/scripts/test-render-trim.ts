@@ -0,0 +1,66 @@
+/**
+ * Test: Renders honor trim_in_ms / trim_out_ms and duration_ms
+ *
+ * 1. A trim window that matches the shot plays as is
+ * 2. A window shorter than the shot holds its last frame, a longer one is cut
+ * 3. The render's length is the sum of shot durations, whatever the source lengths
+ * 4. Invalid trims and durations are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-render-trim.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, probeAsset, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Render Trim ===\n');
+
+  const user = await register('trimmer');
+  const { auth } = user;
+  const projectId = (await createProject(user, 'Trim Test')).project.id;
+  const commit = (timeline: any[], message = 'Trim') => api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message, snapshot: { timeline } }),
+    ...auth,
+  });
+
+  // 1. One 4-second source, cut several ways
+  console.log('--- Step 1: Generate a 4s source ---');
+  const source = await generate(user, projectId, '/jobs/gen-video', { prompt: 'Trim source', duration: 4000 });
+  assert((await api(`/assets/${source}`, auth)).body.durationMs === 4000, 'Source is 4000ms');
+
+  const shot = (shotId: string, duration: number, trimIn: number, trimOut: number) => ({
+    shot_id: shotId, visual_asset_id: source, audio_asset_id: null, duration_ms: duration, trim_in_ms: trimIn, trim_out_ms: trimOut, subtitle: null,
+  });
+
+  // 2. Trimmed renders
+  console.log('\n--- Step 2: Render trimmed shots ---');
+  const trimmed = await commit([
+    shot('exact', 2000, 1000, 3000), // window matches the shot
+    shot('frozen', 3000, 3000, 4000), // 1s window held for 3s
+    shot('cut', 1500, 0, 0), // whole source, cut to 1.5s
+  ]);
+  assert(trimmed.status === 201, 'Commit trimmed shots');
+  const asset = await probeAsset((await renderCommit(user, projectId, trimmed.body.id)).id, auth);
+  assert(Math.abs(asset.durationMs - 6500) < 150, `Render is the sum of shot durations, 6500ms (got ${asset.durationMs}ms)`);
+  assert(asset.width === 1280 && asset.height === 720, 'Render is 1280x720');
+
+  // A source window longer than the shot
+  const long = await commit([shot('long', 1000, 0, 4000)], 'Cut short');
+  const cutAsset = await probeAsset((await renderCommit(user, projectId, long.body.id)).id, auth);
+  assert(Math.abs(cutAsset.durationMs - 1000) < 150, `A 4s window in a 1s shot is cut to 1000ms (got ${cutAsset.durationMs}ms)`);
+
+  // 3. Rejections
+  console.log('\n--- Step 3: Invalid trims ---');
+  const before = (await api(`/projects/${projectId}`, auth)).body.headCommit.id;
+  assert((await commit([shot('bad', 2000, -500, 1000)])).status >= 400, 'Negative trim_in_ms is rejected');
+  assert((await commit([shot('bad', 2000, 0, -1)])).status >= 400, 'Negative trim_out_ms is rejected');
+  assert((await commit([shot('bad', 2000, 0.5, 1000)])).status >= 400, 'Fractional trims are rejected');
+  assert((await commit([shot('bad', 0, 0, 1000)])).status >= 400, 'Zero duration is rejected');
+  assert((await commit([shot('bad', -1000, 0, 1000)])).status >= 400, 'Negative duration is rejected');
+  const { trim_in_ms: _omitted, ...missingTrim } = shot('bad', 2000, 0, 1000);
+  assert((await commit([missingTrim])).status >= 400, 'Shots without trim_in_ms are rejected');
+  assert((await api(`/projects/${projectId}`, auth)).body.headCommit.id === before, 'Rejected commits did not move the head');
+}
+
+run(main, 'Render trim test');
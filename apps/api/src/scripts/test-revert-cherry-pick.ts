@@ -0,0 +1,87 @@
+/**
+ * Test: Revert and cherry-pick — replaying one commit's shot changes onto a branch head
+ * Usage: npx tsx apps/api/src/scripts/test-revert-cherry-pick.ts
+ */
+
+import { api, assert, run } from './helpers';
+
+const shot = (id: string, extra: Record<string, unknown> = {}) => ({
+  shot_id: id, visual_asset_id: null, audio_asset_id: null,
+  duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null, ...extra,
+});
+
+const summary = (res: any) => res.body.snapshot.timeline.map((s: any) => `${s.shot_id}${s.subtitle ? `:${s.subtitle}` : ''}`).join(',');
+
+async function main() {
+  console.log('\n=== Test: Revert & Cherry-pick ===\n');
+
+  const email = `revert-${Date.now()}@test.phork.ai`;
+  const reg = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: 'testpass123', displayName: 'Revert Tester' }),
+  });
+  assert(reg.status === 201, 'Register user');
+  const workspaceId = reg.body.workspace.id;
+  const auth = { headers: { Authorization: `Bearer ${reg.body.token}` } };
+
+  const commit = (projectId: string, message: string, timeline: unknown[]) =>
+    api(`/projects/${projectId}/commits`, { method: 'POST', body: JSON.stringify({ message, snapshot: { timeline } }), ...auth });
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Replay' }), ...auth });
+  assert(proj.status === 201, 'Create project');
+  const projectId = proj.body.project.id;
+
+  // 1. Revert
+  console.log('\n--- Step 1: Revert ---');
+  const c1 = await commit(projectId, 'Two shots', [shot('a'), shot('b')]);
+  const c2 = await commit(projectId, 'Add c', [shot('a'), shot('b'), shot('c')]);
+  const c3 = await commit(projectId, 'Retitle a', [shot('a', { subtitle: 'later' }), shot('b'), shot('c')]);
+  assert(c1.status === 201 && c2.status === 201 && c3.status === 201, 'Build history');
+
+  const reverted = await api(`/projects/${projectId}/commits/${c2.body.id}/revert`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(reverted.status === 201, 'Revert "Add c"');
+  assert(summary(reverted) === 'a:later,b', `Removes c, keeps the later edit (got ${summary(reverted)})`);
+  assert(reverted.body.parentCommitId === c3.body.id, 'Revert commit sits on the old head');
+
+  const stale = await api(`/projects/${projectId}/commits/${c3.body.id}/revert`, {
+    method: 'POST',
+    body: JSON.stringify({ expectedHeadCommitId: c3.body.id }),
+    ...auth,
+  });
+  assert(stale.status === 409 && stale.body.currentHeadCommitId === reverted.body.id, 'Stale expectedHeadCommitId returns 409');
+
+  // 2. Conflicting revert
+  console.log('\n--- Step 2: Conflicting revert ---');
+  await commit(projectId, 'Retitle a again', [shot('a', { subtitle: 'again' }), shot('b')]);
+  const conflicted = await api(`/projects/${projectId}/commits/${c3.body.id}/revert`, { method: 'POST', body: JSON.stringify({}), ...auth });
+  assert(conflicted.status === 409 && conflicted.body.conflicts?.[0]?.id === 'a', 'Reverting an edit that was edited again conflicts');
+  const resolved = await api(`/projects/${projectId}/commits/${c3.body.id}/revert`, {
+    method: 'POST',
+    body: JSON.stringify({ resolutions: { 'shot:a': 'source' } }),
+    ...auth,
+  });
+  assert(resolved.status === 201 && summary(resolved) === 'a,b', 'Resolving to source applies the revert');
+
+  // 3. Cherry-pick across the fork family
+  console.log('\n--- Step 3: Cherry-pick ---');
+  const fork = await api(`/projects/${projectId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'Replay fork', fromCommitId: resolved.body.id }),
+    ...auth,
+  });
+  assert(fork.status === 201, 'Fork the project');
+  const forkId = fork.body.project.id;
+  await commit(forkId, 'Fork retitles b', [shot('a'), shot('b', { subtitle: 'fork' })]);
+  const forkD = await commit(forkId, 'Fork adds d', [shot('a'), shot('b', { subtitle: 'fork' }), shot('d')]);
+
+  const picked = await api(`/projects/${projectId}/cherry-pick`, { method: 'POST', body: JSON.stringify({ commitId: forkD.body.id }), ...auth });
+  assert(picked.status === 201, 'Cherry-pick a fork commit onto the parent');
+  assert(summary(picked) === 'a,b,d', `Only that commit's change is applied (got ${summary(picked)})`);
+
+  const other = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Unrelated' }), ...auth });
+  const unrelated = await commit(other.body.project.id, 'Elsewhere', [shot('x')]);
+  const outside = await api(`/projects/${projectId}/cherry-pick`, { method: 'POST', body: JSON.stringify({ commitId: unrelated.body.id }), ...auth });
+  assert(outside.status === 400, 'Commits from outside the fork family are rejected');
+}
+
+run(main, 'Revert/cherry-pick test');
@@ -0,0 +1,83 @@
+/**
+ * Test: Forks share their parent's commits instead of copying them
+ * Usage: npx tsx apps/api/src/scripts/test-shared-history.ts
+ */
+
+import { api, assert, run } from './helpers';
+
+const shot = (id: string, extra: Record<string, unknown> = {}) => ({
+  shot_id: id, visual_asset_id: null, audio_asset_id: null,
+  duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 3000, subtitle: null, ...extra,
+});
+
+async function main() {
+  console.log('\n=== Test: Shared Fork History ===\n');
+
+  const email = `history-${Date.now()}@test.phork.ai`;
+  const reg = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: 'testpass123', displayName: 'History Tester' }),
+  });
+  assert(reg.status === 201, 'Register user');
+  const workspaceId = reg.body.workspace.id;
+  const auth = { headers: { Authorization: `Bearer ${reg.body.token}` } };
+
+  const commit = (projectId: string, message: string, timeline: unknown[], extra: Record<string, unknown> = {}) =>
+    api(`/projects/${projectId}/commits`, { method: 'POST', body: JSON.stringify({ message, snapshot: { timeline }, ...extra }), ...auth });
+
+  const proj = await api('/projects', { method: 'POST', body: JSON.stringify({ workspaceId, name: 'Upstream' }), ...auth });
+  const parentId = proj.body.project.id;
+  const c1 = await commit(parentId, 'Three shots', [shot('a'), shot('b'), shot('c')]);
+  const c2 = await commit(parentId, 'Subtitle b', [shot('a'), shot('b', { subtitle: 'hi' }), shot('c')]);
+  assert(c1.status === 201 && c2.status === 201, 'Build parent history');
+
+  // 1. A plain fork points at the fork point
+  console.log('\n--- Step 1: Plain fork ---');
+  const plain = await api(`/projects/${parentId}/fork`, {
+    method: 'POST', body: JSON.stringify({ name: 'Plain', fromCommitId: c2.body.id }), ...auth,
+  });
+  assert(plain.status === 201, 'Fork');
+  assert(plain.body.headCommitId === c2.body.id, 'Fork head is the parent commit itself');
+  const plainHistory = await api(`/projects/${plain.body.project.id}/commits?branch=main`, auth);
+  const ids = plainHistory.body.data.map((c: any) => c.id);
+  assert(ids.length === 3 && ids[0] === c2.body.id && ids[1] === c1.body.id, 'Fork lists the shared history');
+
+  const inherited = await api(`/projects/${plain.body.project.id}/diff?to=${c1.body.id}`, auth);
+  assert(inherited.status === 200, 'Inherited commits resolve by ID in the fork');
+  const blame = await api(`/projects/${plain.body.project.id}/blame`, auth);
+  assert(blame.body.shots[1].fields.subtitle.commitId === c2.body.id, 'Blame reaches into the parent\'s commits');
+
+  // 2. A truncated fork adds one commit on top of the fork point
+  console.log('\n--- Step 2: Truncated fork ---');
+  const cut = await api(`/projects/${parentId}/fork`, {
+    method: 'POST', body: JSON.stringify({ name: 'Cut', fromCommitId: c2.body.id, truncateAtShotIndex: 1 }), ...auth,
+  });
+  assert(cut.status === 201, 'Fork with truncateAtShotIndex');
+  const cutId = cut.body.project.id;
+  const cutHistory = await api(`/projects/${cutId}/commits?branch=main`, auth);
+  const [head] = cutHistory.body.data;
+  assert(head.id === cut.body.headCommitId && head.parentCommitId === c2.body.id, 'Truncation commit sits on the fork point');
+  assert(head.snapshot.timeline.length === 2, 'Head holds the truncated timeline');
+  assert(cut.body.project.forkedFromCommitId === c2.body.id, 'forkedFromCommitId still names the parent commit');
+
+  const f1 = await commit(cutId, 'Fork subtitles a', [shot('a', { subtitle: 'fork' }), shot('b', { subtitle: 'hi' })]);
+  assert(f1.status === 201, 'Commit on the fork');
+  const parentView = await api(`/projects/${parentId}/diff?to=${f1.body.id}`, auth);
+  assert(parentView.status === 404, 'Fork commits are not part of the parent\'s history');
+
+  const mr = await api(`/projects/${cutId}/merge-requests`, { method: 'POST', body: JSON.stringify({ title: 'Fork edits' }), ...auth });
+  const preview = await api(`/projects/${parentId}/merge-requests/${mr.body.id}`, auth);
+  assert(preview.body.preview?.diff.summary.removed === 0, 'Shots cut at fork time are not merged as deletions');
+
+  // 3. Identical saves share one commit
+  console.log('\n--- Step 3: Content addressing ---');
+  await api(`/projects/${parentId}/branches`, {
+    method: 'POST', body: JSON.stringify({ name: 'twin', fromCommitId: c2.body.id }), ...auth,
+  });
+  const onMain = await commit(parentId, 'Drop c', [shot('a'), shot('b', { subtitle: 'hi' })]);
+  const onTwin = await commit(parentId, 'Drop c', [shot('a'), shot('b', { subtitle: 'hi' })], { branch: 'twin' });
+  assert(onTwin.status === 201 && onTwin.body.id === onMain.body.id, 'Same parent, message, author and snapshot give the same commit');
+  assert(typeof onMain.body.hash === 'string' && onMain.body.hash.length === 64, 'Commits carry their content hash');
+}
+
+run(main, 'Shared history test');
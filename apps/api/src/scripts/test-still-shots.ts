@@ -0,0 +1,76 @@
+/**
+ * Test: Still-image shots with Ken Burns motion
+ *
+ * 1. Image assets render as clips of the shot's duration, with or without keyframes
+ * 2. Stills and videos mix in one render at the profile's size
+ * 3. Invalid keyframes are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-still-shots.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Still Shots ===\n');
+
+  const user = await register('slideshow');
+  const { auth } = user;
+  const projectId = (await createProject(user, 'Still Test')).project.id;
+  const commit = (timeline: any[], message = 'Stills') => api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message, snapshot: { timeline } }),
+    ...auth,
+  });
+
+  // 1. One still, one video
+  console.log('--- Step 1: Generate ---');
+  const image = await generate(user, projectId, '/jobs/gen-image', { prompt: 'A quiet harbor at dawn' });
+  const imageAsset = (await api(`/assets/${image}`, auth)).body;
+  assert(imageAsset.type === 'image' && imageAsset.mimeType === 'image/png', 'gen-image makes a PNG asset');
+  const video = await generate(user, projectId, '/jobs/gen-video', { prompt: 'Boats leaving', duration: 2000 });
+
+  const shot = (shotId: string, visual: string, duration: number, motion: any = null) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: duration, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+    motion,
+  });
+  const push = {
+    keyframes: [
+      { at_ms: 0, zoom: 1, x: 0.5, y: 0.5 },
+      { at_ms: 1500, zoom: 1.3, x: 0.4, y: 0.45 },
+      { at_ms: 3000, zoom: 1.6, x: 0.3, y: 0.4 },
+    ],
+  };
+
+  // 2. Render stills next to a video
+  console.log('\n--- Step 2: Render ---');
+  const slideshow = await commit([
+    shot('pan', image, 3000, push), // Ken Burns push-in
+    shot('hold', image, 2000), // plain hold
+    shot('video', video, 2000),
+  ]);
+  assert(slideshow.status === 201, 'Commit still shots with motion');
+  assert(slideshow.body.snapshot.timeline[0].motion?.keyframes?.length === 3, 'Keyframes are stored on the shot');
+  const asset = await renderCommit(user, projectId, slideshow.body.id);
+  assert(Math.abs(asset.durationMs - 7000) < 150, `Stills last for their shot durations; render is 7000ms (got ${asset.durationMs}ms)`);
+  assert(asset.width === 1280 && asset.height === 720, `Stills are fitted to the profile (${asset.width}x${asset.height})`);
+  assert(asset.provenance.input.params.shotAssetIds.includes(image), 'The image is a render input');
+
+  // 3. Rejections
+  console.log('\n--- Step 3: Invalid keyframes ---');
+  const before = (await api(`/projects/${projectId}`, auth)).body.headCommit.id;
+  const kf = (at_ms: number, zoom = 1, x = 0.5, y = 0.5) => ({ at_ms, zoom, x, y });
+  const rejected = async (keyframes: any[], msg: string) =>
+    assert((await commit([shot('bad', image, 3000, { keyframes })])).status >= 400, msg);
+  await rejected([kf(0)], 'A single keyframe is rejected');
+  await rejected([kf(0), kf(3000, 0.8)], 'Zoom below 1 is rejected');
+  await rejected([kf(0), kf(3000, 6)], 'Zoom above 5 is rejected');
+  await rejected([kf(0), kf(3000, 1, 1.2)], 'x outside 0-1 is rejected');
+  await rejected([kf(0), kf(3000, 1, 0.5, -0.1)], 'y outside 0-1 is rejected');
+  await rejected([kf(-100), kf(3000)], 'Negative at_ms is rejected');
+  await rejected([kf(0), kf(1500.5)], 'Fractional at_ms is rejected');
+  await rejected(Array.from({ length: 11 }, (_, i) => kf(i * 250)), 'More than 10 keyframes are rejected');
+  assert((await api(`/projects/${projectId}`, auth)).body.headCommit.id === before, 'Rejected commits did not move the branch');
+}
+
+run(main, 'Still shots test');
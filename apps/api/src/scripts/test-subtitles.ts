@@ -0,0 +1,105 @@
+/**
+ * Test: Subtitle export (SRT/WebVTT) and burn-in
+ *
+ * 1. Cue timings follow shot durations and transition overlaps
+ * 2. Cue text can't break the cue structure: blank lines collapse, arrows and
+ *    lone numbers are escaped, and WebVTT escapes markup characters
+ * 3. A render with burn-in records it; invalid styles are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-subtitles.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, pollJob, register, run, text } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Subtitles ===\n');
+
+  const owner = await register('captioner');
+  const outsider = await register('eavesdropper');
+  const { workspaceId, auth } = owner;
+  const projectId = (await createProject(owner, 'Subtitle Test')).project.id;
+
+  const video = (prompt: string) => generate(owner, projectId, '/jobs/gen-video', { prompt, duration: 3000 });
+  const shot = (shotId: string, visual: string, subtitle: string | null, extra: any = {}) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: 3000, trim_in_ms: 0, trim_out_ms: 0, subtitle, ...extra,
+  });
+
+  console.log('--- Step 1: Commit subtitled shots ---');
+  const [v1, v2, v3] = [await video('Caption one'), await video('Caption two'), await video('Caption three')];
+  const commit = await api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: 'Subtitled cut',
+      snapshot: {
+        timeline: [
+          shot('shot-a', v1, 'First line\n\n\n42\nLeft --> right <i>&'),
+          shot('shot-b', v2, 'Second', { transition_in: { type: 'crossfade', duration_ms: 500 } }),
+          shot('shot-c', v3, null),
+        ],
+      },
+    }),
+    ...auth,
+  });
+  assert(commit.status === 201, 'Commit');
+  const commitId = commit.body.id;
+  const subtitlesPath = `/projects/${projectId}/commits/${commitId}/subtitles`;
+
+  // 2. SRT
+  console.log('\n--- Step 2: SRT ---');
+  const srt = await text(`${subtitlesPath}?format=srt`, auth);
+  assert(srt.status === 200 && srt.type.startsWith('application/x-subrip'), 'SRT served as SubRip');
+  const srtCues = srt.body.trim().split('\n\n');
+  assert(srtCues.length === 2, `One cue per subtitled shot, blank lines collapsed (got ${srtCues.length})`);
+  assert(srtCues[0].startsWith('1\n00:00:00,000 --> 00:00:02,500\n'), 'First cue ends where the crossfade begins');
+  assert(srtCues[1].startsWith('2\n00:00:02,500 --> 00:00:05,500\n'), 'Second cue starts at the overlap');
+  const srtLines = srtCues[0].split('\n');
+  assert(srtLines[2] === 'First line', 'Text follows the timing line');
+  assert(srtLines[3] !== '42' && srtLines[3].trim() === '42', 'A lone number is not left as a bare cue number');
+  assert(srtLines[4] === 'Left -> right <i>&', 'Arrows in text are escaped');
+  assert(srt.body.split('-->').length - 1 === 2, 'Only timing lines contain -->');
+
+  // 3. WebVTT
+  console.log('\n--- Step 3: WebVTT ---');
+  const vtt = await text(`${subtitlesPath}?format=vtt`, auth);
+  assert(vtt.status === 200 && vtt.type.startsWith('text/vtt'), 'VTT served as text/vtt');
+  assert(vtt.body.startsWith('WEBVTT\n\n'), 'VTT header');
+  assert(vtt.body.includes('\n00:00:00.000 --> 00:00:02.500\n'), 'VTT uses a dot before milliseconds');
+  assert(vtt.body.includes('Left --&gt; right &lt;i&gt;&amp;'), 'Markup characters are escaped');
+  assert(!vtt.body.includes('\n\n\n'), 'No blank lines inside a cue');
+
+  const badFormat = await api(`${subtitlesPath}?format=ass`, auth);
+  assert(badFormat.status === 400, 'Unknown formats are rejected');
+  const denied = await api(`${subtitlesPath}?format=srt`, outsider.auth);
+  assert(denied.status === 403, 'Non-members cannot export subtitles');
+
+  // 4. Burn-in
+  console.log('\n--- Step 4: Burn-in ---');
+  const badStyle = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId, commitId, subtitles: { burnIn: true, style: { fontName: "Arial':x" } } }),
+    ...auth,
+  });
+  assert(badStyle.status >= 400, 'Font names that could escape the filter argument are rejected');
+  const badColor = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId, commitId, subtitles: { burnIn: true, style: { primaryColor: 'yellow' } } }),
+    ...auth,
+  });
+  assert(badColor.status >= 400, 'Colors must be #RRGGBB');
+
+  const render = await api('/jobs/render', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, workspaceId, commitId, subtitles: { burnIn: true, style: { fontSize: 36, position: 'top' } } }),
+    ...auth,
+  });
+  assert(render.status === 201, 'Queue render with burn-in');
+  assert(render.body.request?.subtitles?.style?.fontSize === 36 && render.body.request.subtitles.style.fontName === 'Arial',
+    'Style is stored with defaults filled in');
+  const job = await pollJob(render.body.id, auth);
+  const asset = (await api(`/assets/${job.result.assetId}`, auth)).body;
+  assert(asset.provenance.input.params.subtitlesBurnedIn === true, 'Render records the burned-in subtitles');
+  assert(Math.abs(asset.durationMs - 8500) < 150, `Render runs for the timeline (${asset.durationMs}ms)`);
+}
+
+run(main, 'Subtitles test');
@@ -0,0 +1,100 @@
+/**
+ * Test: Shot-to-shot transitions
+ *
+ * 1. Each transition overlaps the shots it joins, so the render is shorter than the sum of shots
+ * 2. The viewer's totalDurationMs matches the render
+ * 3. A transition can't overlap more than the shorter of its two shots, and the two
+ *    transitions around a shot together can't overlap more than the shot
+ * 4. Unknown types and out-of-range durations are rejected
+ *
+ * Usage: npx tsx apps/api/src/scripts/test-transitions.ts
+ * Requires: API and workers running, FFmpeg installed
+ */
+
+import { api, assert, createProject, generate, probeAsset, register, renderCommit, run } from './helpers';
+
+async function main() {
+  console.log('\n=== Test: Transitions ===\n');
+
+  const user = await register('editor');
+  const { auth } = user;
+  const projectId = (await createProject(user, 'Transition Test')).project.id;
+  const commit = (timeline: any[], message = 'Cut') => api(`/projects/${projectId}/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message, snapshot: { timeline } }),
+    ...auth,
+  });
+  const render = (commitId: string) => renderCommit(user, projectId, commitId);
+
+  // 1. Generate three shots
+  console.log('--- Step 1: Generate ---');
+  const videos: string[] = [];
+  for (const prompt of ['Before', 'During', 'After']) {
+    videos.push(await generate(user, projectId, '/jobs/gen-video', { prompt, duration: 3000 }));
+  }
+  const shot = (shotId: string, visual: string, transition: any = null, duration = 3000) => ({
+    shot_id: shotId, visual_asset_id: visual, audio_asset_id: null, duration_ms: duration, trim_in_ms: 0, trim_out_ms: 0, subtitle: null,
+    transition_in: transition,
+  });
+
+  // 2. Crossfade and wipe
+  console.log('\n--- Step 2: Render with transitions ---');
+  const joined = await commit([
+    shot('shot-1', videos[0]),
+    shot('shot-2', videos[1], { type: 'crossfade', duration_ms: 1000 }),
+    shot('shot-3', videos[2], { type: 'wipe_left', duration_ms: 500 }),
+  ]);
+  assert(joined.status === 201, 'Commit shots with transitions');
+  assert(joined.body.snapshot.timeline[1].transition_in?.type === 'crossfade', 'Transitions are stored on the shot');
+  const asset = await render(joined.body.id);
+  const { durationMs } = await probeAsset(asset.id, auth);
+  assert(Math.abs(durationMs - 7500) < 150, `Transitions overlap their shots; render is 7500ms (got ${durationMs}ms)`);
+
+  // 3. The viewer reports the same runtime
+  console.log('\n--- Step 3: Published runtime ---');
+  const publish = await api('/publish', {
+    method: 'POST',
+    body: JSON.stringify({ projectId, renderAssetId: asset.id, commitId: joined.body.id }),
+    ...auth,
+  });
+  assert(publish.status === 201, 'Publish');
+  const viewer = await api(`/publish/${projectId}`, auth);
+  assert(viewer.body.totalDurationMs === 7500, `totalDurationMs accounts for overlaps (got ${viewer.body.totalDurationMs})`);
+
+  // 4. Overlap is capped by the shorter shot
+  console.log('\n--- Step 4: Overlap cap ---');
+  const capped = await commit([
+    shot('short', videos[0], null, 1000),
+    shot('long', videos[1], { type: 'dip_to_black', duration_ms: 2000 }),
+  ], 'Long dip');
+  assert(capped.status === 201, 'A transition longer than the previous shot is accepted');
+  const cappedMs = (await probeAsset((await render(capped.body.id)).id, auth)).durationMs;
+  assert(Math.abs(cappedMs - 3000) < 150, `Overlap is capped at the 1000ms shot; render is 3000ms (got ${cappedMs}ms)`);
+
+  // Two transitions around a short shot share its duration
+  const squeezed = await commit([
+    { ...shot('before', videos[0]), chapter: 'Before' },
+    { ...shot('middle', videos[1], { type: 'crossfade', duration_ms: 800 }, 1000), chapter: 'Middle' },
+    { ...shot('after', videos[2], { type: 'crossfade', duration_ms: 800 }), chapter: 'After' },
+  ], 'Squeezed');
+  assert(squeezed.status === 201, 'Commit a short shot between two transitions');
+  const squeezedAsset = await render(squeezed.body.id);
+  const squeezedMs = (await probeAsset(squeezedAsset.id, auth)).durationMs;
+  assert(Math.abs(squeezedMs - 6000) < 150, `The second overlap gets what the first left of the shot; render is 6000ms (got ${squeezedMs}ms)`);
+  const starts = squeezedAsset.provenance.input.params.chapters.map((c: any) => c.start_ms);
+  assert(JSON.stringify(starts) === JSON.stringify([0, 2200, 3000]), `Shot starts keep increasing (got ${JSON.stringify(starts)})`);
+
+  // 5. Rejections
+  console.log('\n--- Step 5: Invalid transitions ---');
+  const before = (await api(`/projects/${projectId}`, auth)).body.headCommit.id;
+  const rejected = async (transition: any, msg: string) =>
+    assert((await commit([shot('shot-1', videos[0]), shot('shot-2', videos[1], transition)])).status >= 400, msg);
+  await rejected({ type: 'spin', duration_ms: 500 }, 'Unknown transition type is rejected');
+  await rejected({ type: 'crossfade', duration_ms: 0 }, 'Zero duration is rejected');
+  await rejected({ type: 'crossfade', duration_ms: 5001 }, 'Durations over 5000ms are rejected');
+  await rejected({ type: 'crossfade', duration_ms: 250.5 }, 'Fractional durations are rejected');
+  await rejected({ type: 'crossfade' }, 'A transition without a duration is rejected');
+  assert((await api(`/projects/${projectId}`, auth)).body.headCommit.id === before, 'Rejected commits did not move the branch');
+}
+
+run(main, 'Transitions test');
@@ -7,15 +7,21 @@ import { config } from './config';
 import { authRoutes } from './routes/auth';
 import { projectRoutes } from './routes/projects';
 import { jobRoutes } from './routes/jobs';
+import { pipelineRoutes } from './routes/pipelines';
 import { creditRoutes } from './routes/credits';
 import { assetRoutes } from './routes/assets';
 import { publishRoutes } from './routes/publish';
 import { releaseRoutes } from './routes/releases';
 import { analyticsRoutes } from './routes/analytics';
+import { branchRoutes } from './routes/branches';
+import { mergeRequestRoutes } from './routes/merges';
+import { tagRoutes } from './routes/tags';
+import { networkRoutes } from './routes/network';
+import { backfillBranchesFromProjectHeads } from './lib/branches';
 
 const app = Fastify({ logger: true });
 
-/** Ensure required indexes exist — idempotent, runs on every startup */
+/** Ensure required indexes and backfills exist — idempotent, runs on every startup */
 async function ensureIndexes(db: ReturnType<typeof createDb>) {
   try {
     await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS published_renders_project_idx ON published_renders (project_id)`);
@@ -24,6 +30,11 @@ async function ensureIndexes(db: ReturnType<typeof createDb>) {
     // Non-fatal: tables may not exist yet (first deploy before db:push)
     console.warn('ensureIndexes: skipped —', (err as Error).message);
   }
+  try {
+    await backfillBranchesFromProjectHeads(db);
+  } catch (err) {
+    console.warn('backfillBranches: skipped —', (err as Error).message);
+  }
 }
 
 async function start() {
@@ -51,10 +62,15 @@ async function start() {
   await app.register(authRoutes, { prefix: '/auth' });
   await app.register(projectRoutes, { prefix: '/projects' });
   await app.register(jobRoutes, { prefix: '/jobs' });
+  await app.register(pipelineRoutes, { prefix: '/pipelines' });
   await app.register(creditRoutes, { prefix: '/credits' });
   await app.register(assetRoutes, { prefix: '/assets' });
   await app.register(publishRoutes, { prefix: '/publish' });
   await app.register(releaseRoutes, { prefix: '/projects' });
+  await app.register(branchRoutes, { prefix: '/projects' });
+  await app.register(tagRoutes, { prefix: '/projects' });
+  await app.register(mergeRequestRoutes, { prefix: '/projects' });
+  await app.register(networkRoutes, { prefix: '/projects' });
   await app.register(analyticsRoutes, { prefix: '/analytics' });
 
   // Health check
@@ -0,0 +1,90 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+/** Makes FFmpeg write machine-readable progress to stdout, for `onProgress` */
+export const FFMPEG_PROGRESS_ARGS = '-progress pipe:1 -nostats';
+
+/**
+ * Run a shell command (FFmpeg, ffprobe) without blocking the worker, so
+ * cancellations still arrive while it runs. Aborting `signal` or hitting
+ * the timeout kills the whole process tree, FFmpeg included, not just the
+ * shell that started it. Rejects on a non-zero exit, timeout or abort.
+ *
+ * For FFmpeg commands that include FFMPEG_PROGRESS_ARGS, `onProgress` gets
+ * the output position in milliseconds as encoding advances.
+ */
+export function runCommand(
+  command: string,
+  options: { timeout: number; signal?: AbortSignal; onProgress?: (outTimeMs: number) => void }
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    // On POSIX the shell leads its own process group, so killing the group reaches FFmpeg
+    const child = spawn(command, { shell: true, detached: process.platform !== 'win32', stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let failure: Error | null = null;
+
+    const stop = (err: Error) => {
+      if (failure) return;
+      failure = err;
+      killProcessTree(child);
+    };
+    const timer = setTimeout(() => stop(new Error(`Command timed out after ${options.timeout}ms: ${command}`)), options.timeout);
+    const onAbort = () => stop(options.signal!.reason instanceof Error ? options.signal!.reason : new Error('Command aborted'));
+    if (options.signal?.aborted) onAbort();
+    else options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const onProgress = options.onProgress;
+    let pending = '';
+    child.stdout!.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      if (!onProgress) return;
+      const lines = (pending + text).split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        // out_time_ms is also in microseconds, despite its name
+        const match = /^out_time_(?:us|ms)=(\d+)/.exec(line);
+        if (match) onProgress(parseInt(match[1], 10) / 1000);
+      }
+    });
+    child.stderr!.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', stop);
+    child.on('close', (code, killSignal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      if (failure) reject(Object.assign(failure, { stderr }));
+      else if (code !== 0) reject(Object.assign(new Error(`Command failed (${code ?? killSignal}): ${command}\n${stderr}`), { stderr }));
+      else resolve({ stdout, stderr });
+    });
+  });
+}
+
+/** Kill a command started by runCommand together with everything it spawned */
+function killProcessTree(child: ChildProcess) {
+  if (!child.pid || child.exitCode !== null) return;
+  try {
+    if (process.platform === 'win32') spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    else process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // Already gone
+  }
+}
+
+/** setTimeout as a promise that rejects early if `signal` aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,20 +1,33 @@
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 import { jobs, assets, safetyEvents } from '@phork/db';
 import type { Database } from '@phork/db';
+import type IORedis from 'ioredis';
 import type { ProvenanceManifest } from '@phork/shared';
 import { signMintReceipt } from '../lib/mint';
-import { saveAsset } from '../lib/storage';
+import { deleteAsset, saveAsset } from '../lib/storage';
 import { refundJob } from '../lib/refund';
+import { trackJob, untrackJob } from '../lib/cancellation';
+import { createProgressReporter, jobEvent, publishJobEvent } from '../lib/events';
+import { announceSettledJob } from '../lib/batches';
+import { FFMPEG_PROGRESS_ARGS, runCommand, sleep } from './command';
 import { checkSafety } from './safety';
 
+// Placeholder frame sizes per requested aspect ratio (unknown ratios fall back to 16:9)
+const STUB_VIDEO_SIZES: Record<string, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '1:1': { width: 720, height: 720 },
+};
+
 // Stub providers - replace with real API calls later
-async function stubGenerateVideo(prompt: string, durationMs: number): Promise<{ data: Buffer; width: number; height: number }> {
+async function stubGenerateVideo(
+  prompt: string, durationMs: number, aspectRatio: string, signal: AbortSignal, onProgress: (fraction: number) => void
+): Promise<{ data: Buffer; width: number; height: number }> {
   // Simulate processing time
-  await new Promise((r) => setTimeout(r, 2000 + Math.random() * 2000));
+  await sleep(2000 + Math.random() * 2000, signal);
 
   // Create a minimal valid mp4 placeholder
   // In production, this would call Replicate, Runway, Stability, etc.
-  const { execSync } = await import('child_process');
   const { mkdtempSync, readFileSync } = await import('fs');
   const { join } = await import('path');
   const os = await import('os');
@@ -22,33 +35,37 @@ async function stubGenerateVideo(prompt: string, durationMs: number): Promise<{
   const tmpDir = mkdtempSync(join(os.tmpdir(), 'phork-gen-'));
   const outPath = join(tmpDir, 'out.mp4');
   const durationSec = (durationMs / 1000).toFixed(2);
+  const { width, height } = STUB_VIDEO_SIZES[aspectRatio] || STUB_VIDEO_SIZES['16:9'];
 
   // Generate a simple color video with text overlay using ffmpeg
   // Normalize paths to forward slashes for FFmpeg compatibility on Windows
   const normalizedOutPath = outPath.replace(/\\/g, '/');
+  const runOptions = { timeout: 30000, signal, onProgress: (ms: number) => onProgress(ms / durationMs) };
   try {
-    execSync(
-      `ffmpeg -y -f lavfi -i "color=c=#7c3aed:s=1280x720:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec} -vf "drawtext=text='${prompt.substring(0, 40).replace(/'/g, "'")}':fontsize=24:fontcolor=white:x=(w-text_w)/2:y=(h-text_h)/2" -c:v libx264 -preset ultrafast -c:a aac -shortest "${normalizedOutPath}"`,
-      { stdio: 'pipe', timeout: 30000 }
+    await runCommand(
+      `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -f lavfi -i "color=c=#7c3aed:s=${width}x${height}:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec} -vf "drawtext=text='${prompt.substring(0, 40).replace(/'/g, "'")}':fontsize=24:fontcolor=white:x=(w-text_w)/2:y=(h-text_h)/2" -c:v libx264 -preset ultrafast -c:a aac -shortest "${normalizedOutPath}"`,
+      runOptions
     );
-  } catch {
+  } catch (err) {
+    if (signal.aborted) throw err;
     // Fallback: even simpler video if drawtext filter isn't available
-    execSync(
-      `ffmpeg -y -f lavfi -i "color=c=#7c3aed:s=1280x720:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec} -c:v libx264 -preset ultrafast -c:a aac -shortest "${normalizedOutPath}"`,
-      { stdio: 'pipe', timeout: 30000 }
+    await runCommand(
+      `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -f lavfi -i "color=c=#7c3aed:s=${width}x${height}:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec} -c:v libx264 -preset ultrafast -c:a aac -shortest "${normalizedOutPath}"`,
+      runOptions
     );
   }
 
   const data = readFileSync(outPath);
-  return { data, width: 1280, height: 720 };
+  return { data, width, height };
 }
 
-async function stubGenerateAudio(text: string, voice: string, speed: number): Promise<{ data: Buffer; durationMs: number }> {
+async function stubGenerateAudio(
+  text: string, voice: string, speed: number, signal: AbortSignal, onProgress: (fraction: number) => void
+): Promise<{ data: Buffer; durationMs: number }> {
   // Simulate processing time
-  await new Promise((r) => setTimeout(r, 1000 + Math.random() * 1000));
+  await sleep(1000 + Math.random() * 1000, signal);
 
   // Create a simple audio file (silence with duration based on text length)
-  const { execSync } = await import('child_process');
   const { mkdtempSync, readFileSync } = await import('fs');
   const { join } = await import('path');
   const os = await import('os');
@@ -61,19 +78,18 @@ async function stubGenerateAudio(text: string, voice: string, speed: number): Pr
   // In production, this would call ElevenLabs, OpenAI TTS, etc.
   // Normalize paths to forward slashes for FFmpeg compatibility on Windows
   const normalizedOutPath = outPath.replace(/\\/g, '/');
-  execSync(
-    `ffmpeg -y -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec.toFixed(2)} -c:a libmp3lame -q:a 2 "${normalizedOutPath}"`,
-    { stdio: 'pipe', timeout: 15000 }
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec.toFixed(2)} -c:a libmp3lame -q:a 2 "${normalizedOutPath}"`,
+    { timeout: 15000, signal, onProgress: (ms) => onProgress(ms / (durationSec * 1000)) }
   );
 
   const data = readFileSync(outPath);
   return { data, durationMs: Math.round(durationSec * 1000) };
 }
 
-async function stubGenerateImage(prompt: string): Promise<{ data: Buffer; width: number; height: number }> {
-  await new Promise((r) => setTimeout(r, 1500 + Math.random() * 1500));
+async function stubGenerateImage(prompt: string, signal: AbortSignal): Promise<{ data: Buffer; width: number; height: number }> {
+  await sleep(1500 + Math.random() * 1500, signal);
 
-  const { execSync } = await import('child_process');
   const { mkdtempSync, readFileSync } = await import('fs');
   const { join } = await import('path');
   const os = await import('os');
@@ -84,14 +100,15 @@ async function stubGenerateImage(prompt: string): Promise<{ data: Buffer; width:
   // Normalize paths to forward slashes for FFmpeg compatibility on Windows
   const normalizedOutPath = outPath.replace(/\\/g, '/');
   try {
-    execSync(
+    await runCommand(
       `ffmpeg -y -f lavfi -i "color=c=#7c3aed:s=1280x720" -frames:v 1 -vf "drawtext=text='${prompt.substring(0, 40).replace(/'/g, "'")}':fontsize=24:fontcolor=white:x=(w-text_w)/2:y=(h-text_h)/2" "${normalizedOutPath}"`,
-      { stdio: 'pipe', timeout: 10000 }
+      { timeout: 10000, signal }
     );
-  } catch {
-    execSync(
+  } catch (err) {
+    if (signal.aborted) throw err;
+    await runCommand(
       `ffmpeg -y -f lavfi -i "color=c=#7c3aed:s=1280x720" -frames:v 1 "${normalizedOutPath}"`,
-      { stdio: 'pipe', timeout: 10000 }
+      { timeout: 10000, signal }
     );
   }
 
@@ -99,12 +116,26 @@ async function stubGenerateImage(prompt: string): Promise<{ data: Buffer; width:
   return { data, width: 1280, height: 720 };
 }
 
-export async function processGenerationJob(db: Database, jobId: string, jobType: string) {
-  // Mark job as running
-  await db.update(jobs).set({ status: 'running', updatedAt: new Date() }).where(eq(jobs.id, jobId));
+export async function processGenerationJob(db: Database, connection: IORedis, jobId: string, jobType: string) {
+  const signal = trackJob(jobId);
+  try {
+    await runGenerationJob(db, connection, jobId, jobType, signal);
+  } finally {
+    untrackJob(jobId);
+  }
+}
 
-  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
-  if (!job) throw new Error(`Job ${jobId} not found`);
+async function runGenerationJob(db: Database, connection: IORedis, jobId: string, jobType: string, signal: AbortSignal) {
+  // Mark job as running, unless it was cancelled while queued
+  const [job] = await db.update(jobs).set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ['queued', 'running'])))
+    .returning();
+  if (!job) {
+    console.log(`Job ${jobId} is no longer queued, skipping`);
+    return;
+  }
+  publishJobEvent(connection, jobEvent(job));
+  const progress = createProgressReporter(connection, job);
 
   const request = job.request as any;
   const startedAt = new Date().toISOString();
@@ -125,11 +156,12 @@ export async function processGenerationJob(db: Database, jobId: string, jobType:
         details: { prompt: prompt.substring(0, 200), reason: safetyResult.reason },
       });
 
-      await db.update(jobs).set({
+      const [blocked] = await db.update(jobs).set({
         status: 'blocked',
         error: { message: `Blocked: ${safetyResult.reason}` },
         updatedAt: new Date(),
-      }).where(eq(jobs.id, jobId));
+      }).where(and(eq(jobs.id, jobId), eq(jobs.status, 'running'))).returning();
+      if (blocked) await announceSettledJob(db, connection, blocked);
 
       // Full refund for blocked jobs
       await refundJob(db, job, `${job.type} blocked by safety policy: ${safetyResult.category}`);
@@ -143,9 +175,10 @@ export async function processGenerationJob(db: Database, jobId: string, jobType:
     let width: number | null = null;
     let height: number | null = null;
     let durationMs: number | null = null;
+    const generating = progress.stage('generating', 0, 90);
 
     if (jobType === 'gen_video') {
-      const result = await stubGenerateVideo(request.prompt, request.duration || 4000);
+      const result = await stubGenerateVideo(request.prompt, request.duration || 4000, request.aspectRatio || '16:9', signal, generating);
       assetData = result.data;
       assetType = 'video';
       mimeType = 'video/mp4';
@@ -154,14 +187,14 @@ export async function processGenerationJob(db: Database, jobId: string, jobType:
       height = result.height;
       durationMs = request.duration || 4000;
     } else if (jobType === 'gen_audio') {
-      const result = await stubGenerateAudio(request.text, request.voice || 'default', request.speed || 1.0);
+      const result = await stubGenerateAudio(request.text, request.voice || 'default', request.speed || 1.0, signal, generating);
       assetData = result.data;
       assetType = 'audio';
       mimeType = 'audio/mpeg';
       extension = 'mp3';
       durationMs = result.durationMs;
     } else if (jobType === 'gen_image') {
-      const result = await stubGenerateImage(request.prompt);
+      const result = await stubGenerateImage(request.prompt, signal);
       assetData = result.data;
       assetType = 'image';
       mimeType = 'image/png';
@@ -172,6 +205,10 @@ export async function processGenerationJob(db: Database, jobId: string, jobType:
       throw new Error(`Unknown job type: ${jobType}`);
     }
 
+    // A cancellation that lands after the provider returns still wins
+    signal.throwIfAborted();
+    progress.stage('saving', 95, 100);
+
     // Generate asset ID and save to storage
     const { randomUUID } = await import('crypto');
     const assetId = randomUUID();
@@ -202,37 +239,52 @@ export async function processGenerationJob(db: Database, jobId: string, jobType:
       },
     };
 
-    // Save asset to DB
-    await db.insert(assets).values({
-      id: assetId,
-      workspaceId: job.workspaceId,
-      type: assetType,
-      mimeType,
-      storageUrl: storagePath,
-      bytes: assetData.length,
-      durationMs,
-      width,
-      height,
-      createdBy: job.userId,
-      mintReceiptSig: mintSig,
-      provenance,
-      safetyFlags: safetyResult.warnings?.length ? { warnings: safetyResult.warnings } : null,
+    // Flip the job and save the asset together, so a cancel that lands while
+    // saving leaves neither behind
+    const succeeded = await db.transaction(async (tx: any) => {
+      const [row] = await tx.update(jobs).set({
+        status: 'succeeded',
+        result: { assetId, assetType, storagePath },
+        updatedAt: new Date(),
+      }).where(and(eq(jobs.id, jobId), eq(jobs.status, 'running'))).returning();
+      if (!row) return null;
+      await tx.insert(assets).values({
+        id: assetId,
+        workspaceId: job.workspaceId,
+        type: assetType,
+        mimeType,
+        storageUrl: storagePath,
+        bytes: assetData.length,
+        durationMs,
+        width,
+        height,
+        createdBy: job.userId,
+        mintReceiptSig: mintSig,
+        provenance,
+        safetyFlags: safetyResult.warnings?.length ? { warnings: safetyResult.warnings } : null,
+      });
+      return row;
     });
-
-    // Update job as succeeded
-    await db.update(jobs).set({
-      status: 'succeeded',
-      result: { assetId, assetType, storagePath },
-      updatedAt: new Date(),
-    }).where(eq(jobs.id, jobId));
+    if (!succeeded) {
+      await deleteAsset(storagePath);
+      console.log(`Job ${jobId} cancelled`);
+      return;
+    }
+    await announceSettledJob(db, connection, succeeded);
 
   } catch (error: any) {
+    if (signal.aborted) {
+      // The cancel endpoint already set the status and refunded
+      console.log(`Job ${jobId} cancelled`);
+      return;
+    }
     console.error(`Job ${jobId} failed:`, error);
-    await db.update(jobs).set({
+    const [failed] = await db.update(jobs).set({
       status: 'failed',
       error: { message: error.message || 'Unknown error' },
       updatedAt: new Date(),
-    }).where(eq(jobs.id, jobId));
+    }).where(and(eq(jobs.id, jobId), eq(jobs.status, 'running'))).returning();
+    if (failed) await announceSettledJob(db, connection, failed);
 
     // Full refund for failed jobs
     await refundJob(db, job, `${job.type} failed: ${(error.message || 'Unknown error').substring(0, 100)}`);
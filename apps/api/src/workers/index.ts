@@ -1,9 +1,12 @@
-import { Worker } from 'bullmq';
+import { Worker, FlowProducer } from 'bullmq';
 import IORedis from 'ioredis';
 import { createDb } from '@phork/db';
 import { config } from '../config';
 import { processGenerationJob } from './generation';
 import { processRenderJob } from './render';
+import { processPipelineJob } from './pipeline';
+import { PIPELINE_QUEUE, failPipeline } from '../lib/pipelines';
+import { listenForCancellations } from '../lib/cancellation';
 
 const connection = new IORedis(config.redisUrl, { maxRetriesPerRequest: null });
 const db = createDb(config.databaseUrl);
@@ -13,7 +16,7 @@ const generationWorker = new Worker(
   'generation',
   async (job) => {
     console.log(`[generation] Processing job ${job.id}, type: ${job.name}`);
-    await processGenerationJob(db, job.data.jobId, job.name);
+    await processGenerationJob(db, connection, job.data.jobId, job.name);
   },
   { connection, concurrency: 3 }
 );
@@ -31,7 +34,7 @@ const renderWorker = new Worker(
   'render',
   async (job) => {
     console.log(`[render] Processing job ${job.id}`);
-    await processRenderJob(db, job.data.jobId);
+    await processRenderJob(db, connection, job.data.jobId);
   },
   { connection, concurrency: 1 }
 );
@@ -44,6 +47,32 @@ renderWorker.on('failed', (job, err) => {
   console.error(`[render] Job ${job?.id} failed:`, err.message);
 });
 
+// Pipeline worker: commit/publish steps, and advancing a pipeline once a level finishes
+const flowProducer = new FlowProducer({ connection });
+const pipelineWorker = new Worker(
+  PIPELINE_QUEUE,
+  async (job) => {
+    console.log(`[pipeline] Processing ${job.name} for pipeline ${job.data.pipelineId}`);
+    await processPipelineJob(db, connection, flowProducer, job);
+  },
+  { connection, concurrency: 3 }
+);
+
+pipelineWorker.on('failed', async (job, err) => {
+  console.error(`[pipeline] Job ${job?.id} failed:`, err.message);
+  // Out of retries: nothing else will advance this pipeline
+  if (job?.name === 'advance' && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    try {
+      await failPipeline(db, connection, job.data.pipelineId, err.message);
+    } catch (e: any) {
+      console.error(`[pipeline] Failed to settle pipeline ${job.data.pipelineId}:`, e.message);
+    }
+  }
+});
+
+// Cancelled jobs running in this process are aborted as their IDs come in
+const cancellations = listenForCancellations(connection);
+
 console.log('Phork workers started. Waiting for jobs...');
 
 // Graceful shutdown
@@ -51,5 +80,8 @@ process.on('SIGTERM', async () => {
   console.log('Shutting down workers...');
   await generationWorker.close();
   await renderWorker.close();
+  await pipelineWorker.close();
+  await flowProducer.close();
+  (await cancellations).disconnect();
   process.exit(0);
 });
@@ -0,0 +1,84 @@
+import { and, eq } from 'drizzle-orm';
+import { assets, pipelines, pipelineSteps, projects } from '@phork/db';
+import type { Database } from '@phork/db';
+import type IORedis from 'ioredis';
+import type { FlowProducer, Job } from 'bullmq';
+import { commitShotAssets, resolveCommitRef } from '../lib/branches';
+import type { ShotAssetPlacement } from '../lib/branches';
+import { advancePipeline, loadPipelineSteps, resolveStepRefs, stepOutputs } from '../lib/pipelines';
+import { publishRender } from '../lib/publish';
+
+/** Place the referenced assets into their shots as one commit on the branch */
+async function runCommitStep(db: Database, pipeline: any, project: any, params: any) {
+  const branch = params.branch || project.defaultBranch;
+  const placements: ShotAssetPlacement[] = [];
+  for (const shot of params.shots) {
+    if (shot.visualAssetId) placements.push({ shotId: shot.shotId, field: 'visual', assetId: shot.visualAssetId });
+    if (shot.audioAssetId) placements.push({ shotId: shot.shotId, field: 'audio', assetId: shot.audioAssetId });
+  }
+  const placed = await commitShotAssets(db, {
+    projectId: project.id,
+    workspaceId: pipeline.workspaceId,
+    branch,
+    userId: pipeline.userId,
+    message: params.message || `Place ${placements.length} generated asset${placements.length === 1 ? '' : 's'} (pipeline)`,
+    placements,
+  });
+  if (!placed.commitId) throw new Error(placed.error || 'Nothing to commit');
+  return { commitId: placed.commitId, branch, skippedShotIds: placed.skippedShotIds };
+}
+
+async function runPublishStep(db: Database, pipeline: any, project: any, params: any) {
+  const [renderAsset] = await db.select().from(assets).where(eq(assets.id, params.renderAssetId)).limit(1);
+  if (!renderAsset || renderAsset.type !== 'render') throw new Error('Invalid render asset');
+
+  const commitId = await resolveCommitRef(db, project.id, { commitId: params.commitId, branch: params.branch, tag: params.tag });
+  if (!commitId) throw new Error('Commit to publish not found');
+
+  const pub = await publishRender(db, {
+    project,
+    renderAssetId: renderAsset.id,
+    commitId,
+    userId: pipeline.userId,
+    title: params.title,
+    description: params.description,
+    enableShareLink: params.enableShareLink,
+  });
+  return { publishedRenderId: pub.id, shareToken: pub.shareToken };
+}
+
+export async function processPipelineJob(db: Database, connection: IORedis, flows: FlowProducer, job: Job) {
+  const { pipelineId, stepId } = job.data;
+  if (job.name === 'advance') {
+    await advancePipeline(db, connection, flows, pipelineId, job.data.level);
+    return;
+  }
+
+  const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, pipelineId)).limit(1);
+  const steps = await loadPipelineSteps(db, pipelineId);
+  const step = steps.find((s: any) => s.stepId === stepId);
+  if (!pipeline || !step) return;
+
+  // Conditional, so a retried queue job doesn't run the step twice
+  const [running] = await db.update(pipelineSteps).set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(pipelineSteps.id, step.id), eq(pipelineSteps.status, 'queued')))
+    .returning();
+  if (!running) return;
+
+  try {
+    const [project] = await db.select().from(projects).where(eq(projects.id, pipeline.projectId)).limit(1);
+    const params = resolveStepRefs(step.params, stepOutputs(steps));
+    const output = job.name === 'commit'
+      ? await runCommitStep(db, pipeline, project, params)
+      : await runPublishStep(db, pipeline, project, params);
+    await db.update(pipelineSteps).set({ status: 'succeeded', output, updatedAt: new Date() })
+      .where(eq(pipelineSteps.id, step.id));
+  } catch (error: any) {
+    console.error(`Pipeline ${pipelineId} step ${stepId} failed:`, error);
+    await db.update(pipelineSteps).set({
+      status: 'failed',
+      error: { message: error.message || 'Unknown error' },
+      updatedAt: new Date(),
+    }).where(eq(pipelineSteps.id, step.id));
+  }
+}
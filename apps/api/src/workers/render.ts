@@ -1,22 +1,47 @@
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 import { jobs, commits, assets, projects, analyticsEvents } from '@phork/db';
 import type { Database } from '@phork/db';
-import type { TimelineSnapshot, ProvenanceManifest } from '@phork/shared';
+import type IORedis from 'ioredis';
+import type {
+  AudioClip, AudioTrackKind, Chapter, MotionKeyframe, ProvenanceManifest, RenderProfile, ShotMotion, ShotSnapshot, SubtitleStyle, TransitionType,
+} from '@phork/shared';
+import {
+  upgradeSnapshot, transitionOverlapsMs, shotStartTimesMs, buildChapters, getRenderProfile, timelineDurationMs,
+  AUDIO_TRACK_KINDS, DEFAULT_RENDER_PROFILE_ID, TRUE_PEAK_LIMIT_DB,
+} from '@phork/shared';
 import { signMintReceipt } from '../lib/mint';
-import { saveAsset } from '../lib/storage';
+import { deleteAsset, saveAsset } from '../lib/storage';
 import { refundJob } from '../lib/refund';
-import { execSync, exec } from 'child_process';
+import { buildSubtitleCues, formatSrt, toForceStyle } from '../lib/subtitles';
+import { trackJob, untrackJob } from '../lib/cancellation';
+import { createProgressReporter, jobEvent, publishJobEvent } from '../lib/events';
+import { announceSettledJob } from '../lib/batches';
+import { FFMPEG_PROGRESS_ARGS, runCommand } from './command';
 import { mkdtempSync, writeFileSync, readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { join, extname } from 'path';
 import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
 
-export async function processRenderJob(db: Database, jobId: string) {
-  // Mark job as running
-  await db.update(jobs).set({ status: 'running', updatedAt: new Date() }).where(eq(jobs.id, jobId));
+export async function processRenderJob(db: Database, connection: IORedis, jobId: string) {
+  const signal = trackJob(jobId);
+  try {
+    await runRenderJob(db, connection, jobId, signal);
+  } finally {
+    untrackJob(jobId);
+  }
+}
 
-  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
-  if (!job) throw new Error(`Job ${jobId} not found`);
+async function runRenderJob(db: Database, connection: IORedis, jobId: string, signal: AbortSignal) {
+  // Mark job as running, unless it was cancelled while queued
+  const [job] = await db.update(jobs).set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ['queued', 'running'])))
+    .returning();
+  if (!job) {
+    console.log(`Render job ${jobId} is no longer queued, skipping`);
+    return;
+  }
+  publishJobEvent(connection, jobEvent(job));
+  const progress = createProgressReporter(connection, job);
 
   const request = job.request as any;
   const startedAt = new Date().toISOString();
@@ -26,89 +51,175 @@ export async function processRenderJob(db: Database, jobId: string) {
     const [commit] = await db.select().from(commits).where(eq(commits.id, request.commitId)).limit(1);
     if (!commit) throw new Error(`Commit ${request.commitId} not found`);
 
-    const snapshot = commit.snapshot as TimelineSnapshot;
-    if (!snapshot.timeline || snapshot.timeline.length === 0) {
+    const snapshot = upgradeSnapshot(commit.snapshot);
+    if (snapshot.timeline.length === 0) {
       throw new Error('Timeline is empty, nothing to render');
     }
 
+    // Jobs queued before profiles existed carry no profileId
+    const profileId = request.profileId || DEFAULT_RENDER_PROFILE_ID;
+    const profile = getRenderProfile(profileId);
+    if (!profile) throw new Error(`Unknown render profile: ${profileId}`);
+
     const tmpDir = mkdtempSync(join(tmpdir(), 'phork-render-'));
+    const totalMs = timelineDurationMs(snapshot.timeline);
+    const shotCount = snapshot.timeline.length;
     const shotAssetIds: string[] = [];
 
-    // Resolve all shot assets and build ffmpeg concat input
-    const concatEntries: string[] = [];
+    // Render each shot to a normalized segment (visual + mixed audio), then join them
+    const segmentPaths: string[] = [];
+    const shotStarts = shotStartTimesMs(snapshot.timeline);
+    const narrationCues: NarrationCue[] = [];
 
     for (let i = 0; i < snapshot.timeline.length; i++) {
       const shot = snapshot.timeline[i];
+      const durationSec = toSec(shot.duration_ms);
+      // Shots take the first 55%, each an equal slice
+      const shotProgress = progress.stage(`shot ${i + 1}/${shotCount}`, (55 * i) / shotCount, (55 * (i + 1)) / shotCount);
 
+      let visualPath: string;
+      let trimmable = false;
       if (shot.visual_asset_id) {
-        const [asset] = await db.select().from(assets).where(eq(assets.id, shot.visual_asset_id)).limit(1);
-        if (!asset) throw new Error(`Visual asset ${shot.visual_asset_id} not found`);
-
+        const { asset, path } = await copyAssetToTmp(db, shot.visual_asset_id, tmpDir, `shot_${i}_visual`);
         shotAssetIds.push(asset.id);
-        // Copy asset to temp dir for ffmpeg
-        const ext = asset.mimeType?.split('/')[1] || 'mp4';
-        const tmpPath = join(tmpDir, `shot_${i}.${ext}`);
-
-        if (existsSync(asset.storageUrl)) {
-          const data = readFileSync(asset.storageUrl);
-          writeFileSync(tmpPath, data);
+        if (asset.type === 'image') {
+          // Stills become a clip of the shot's length, with optional Ken Burns motion
+          visualPath = join(tmpDir, `shot_${i}_still.mp4`);
+          await renderStillClip(path, shot.motion || null, shot.duration_ms, profile, visualPath, signal);
         } else {
-          throw new Error(`Asset file not found at ${asset.storageUrl}`);
+          visualPath = path;
+          trimmable = true;
         }
-
-        concatEntries.push(`file '${tmpPath.replace(/\\/g, '/')}'`);
       } else {
         // Generate a blank clip for shots without visuals
-        const blankPath = join(tmpDir, `shot_${i}_blank.mp4`);
-        const durationSec = (shot.duration_ms / 1000).toFixed(2);
-        execSync(
-          `ffmpeg -y -f lavfi -i "color=c=black:s=1280x720:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=mono" -t ${durationSec} -c:v libx264 -preset ultrafast -c:a aac -shortest "${blankPath}"`,
-          { stdio: 'pipe', timeout: 15000 }
+        visualPath = join(tmpDir, `shot_${i}_blank.mp4`);
+        await runCommand(
+          `ffmpeg -y -f lavfi -i "color=c=black:s=${profile.width}x${profile.height}:r=${profile.fps}:d=${durationSec}" -f lavfi -i "anullsrc=r=44100:cl=stereo" -t ${durationSec} -c:v libx264 -preset ultrafast -c:a aac -shortest "${ffPath(visualPath)}"`,
+          { timeout: 15000, signal }
         );
-        concatEntries.push(`file '${blankPath.replace(/\\/g, '/')}'`);
       }
 
-      // Track audio assets for provenance
+      let narrationPath: string | null = null;
       if (shot.audio_asset_id) {
-        shotAssetIds.push(shot.audio_asset_id);
+        const { asset, path } = await copyAssetToTmp(db, shot.audio_asset_id, tmpDir, `shot_${i}_audio`);
+        shotAssetIds.push(asset.id);
+        narrationPath = path;
+        narrationCues.push({ path, startMs: shotStarts[i], durationMs: shot.duration_ms });
       }
-    }
 
-    // Write concat file
-    const concatPath = join(tmpDir, 'concat.txt');
-    writeFileSync(concatPath, concatEntries.join('\n'));
+      const segmentPath = join(tmpDir, `segment_${i}.mp4`);
+      await renderShotSegment({
+        visualPath,
+        narrationPath,
+        durationMs: shot.duration_ms,
+        // Blank and still clips are generated at the shot length, so there is nothing to trim
+        trimInMs: trimmable ? shot.trim_in_ms : 0,
+        trimOutMs: trimmable ? shot.trim_out_ms : 0,
+        profile,
+        outputPath: segmentPath,
+      }, signal, (ms) => shotProgress(ms / shot.duration_ms));
+      segmentPaths.push(segmentPath);
+    }
 
-    // Run ffmpeg concat — try stream copy first, fall back to re-encode
     const outputPath = join(tmpDir, 'render.mp4');
-    try {
-      execSync(
-        `ffmpeg -y -f concat -safe 0 -i "${concatPath.replace(/\\/g, '/')}" -c copy "${outputPath.replace(/\\/g, '/')}"`,
-        { stdio: 'pipe', timeout: 120000 }
-      );
-    } catch {
-      // Stream copy failed (codec mismatch between shots) — re-encode
-      execSync(
-        `ffmpeg -y -f concat -safe 0 -i "${concatPath.replace(/\\/g, '/')}" -c:v libx264 -preset fast -c:a aac "${outputPath.replace(/\\/g, '/')}"`,
-        { stdio: 'pipe', timeout: 120000 }
+    const hasTransitions = transitionOverlapsMs(snapshot.timeline).some((ms) => ms > 0);
+    const joining = progress.stage('joining', 55, 65);
+    if (hasTransitions) {
+      await joinWithTransitions(segmentPaths, snapshot.timeline, outputPath, signal, (ms) => joining(ms / totalMs));
+    } else {
+      await concatSegments(segmentPaths, tmpDir, outputPath, signal);
+    }
+
+    // Lay the dialogue, music and SFX lanes over the concatenated shots
+    const trackAssetIds: string[] = [];
+    const laneInputs: LaneClipInput[] = [];
+    for (const kind of AUDIO_TRACK_KINDS) {
+      for (const clip of snapshot.tracks[kind]) {
+        const { asset, path } = await copyAssetToTmp(db, clip.asset_id, tmpDir, `${kind}_${laneInputs.length}`);
+        trackAssetIds.push(asset.id);
+        laneInputs.push({ kind, clip, path });
+      }
+    }
+
+    let finalPath = outputPath;
+    if (laneInputs.length > 0) {
+      finalPath = join(tmpDir, 'render_mixed.mp4');
+      const mixing = progress.stage('mixing audio', 65, 72);
+      await mixAudioLanes(outputPath, laneInputs, narrationCues, finalPath, signal, (ms) => mixing(ms / totalMs));
+    }
+
+    // Bring the whole mix to the profile's loudness target
+    const normalizedPath = join(tmpDir, 'render_normalized.mp4');
+    const normalizing = progress.stage('normalizing loudness', 72, 85);
+    if (await normalizeLoudness(finalPath, profile.loudnessLufs, normalizedPath, signal, (ms) => normalizing(ms / totalMs))) {
+      finalPath = normalizedPath;
+    }
+
+    // Optionally burn shot subtitles into the picture
+    const subtitleCues = buildSubtitleCues(snapshot.timeline);
+    const burnSubtitles = Boolean(request.subtitles?.burnIn) && subtitleCues.length > 0;
+    if (burnSubtitles) {
+      const srtPath = join(tmpDir, 'subtitles.srt');
+      writeFileSync(srtPath, formatSrt(subtitleCues));
+      const subtitledPath = join(tmpDir, 'render_subtitled.mp4');
+      const burning = progress.stage('burning subtitles', 85, 90);
+      await burnInSubtitles(finalPath, srtPath, request.subtitles.style, subtitledPath, signal, (ms) => burning(ms / totalMs));
+      finalPath = subtitledPath;
+    }
+
+    // Intermediates are H.264/AAC; transcode once for other delivery codecs
+    const output = OUTPUT_FORMATS[profile.codec];
+    if (profile.codec !== 'h264') {
+      const encodedPath = join(tmpDir, `render_final.${output.extension}`);
+      const encoding = progress.stage('encoding', 90, 97);
+      await runCommand(
+        `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -i "${ffPath(finalPath)}" ${output.videoArgs} ${output.audioArgs} "${ffPath(encodedPath)}"`,
+        { timeout: 600000, signal, onProgress: (ms) => encoding(ms / totalMs) }
       );
+      finalPath = encodedPath;
+    }
+
+    // Shot chapter labels become container chapters
+    const chapters = buildChapters(snapshot.timeline);
+    if (chapters.length > 0) {
+      const chapteredPath = join(tmpDir, `render_chapters.${output.extension}`);
+      progress.stage('adding chapters', 97, 98);
+      await embedChapters(finalPath, chapters, tmpDir, chapteredPath, signal);
+      finalPath = chapteredPath;
     }
 
-    const renderData = readFileSync(outputPath);
+    progress.stage('saving', 98, 100);
+    const outputInfo = await probeVideo(finalPath, signal);
+    // Measured on the delivered file, after any final transcode
+    const measured = await measureLoudness(finalPath, signal);
+    signal.throwIfAborted();
+    const sourceAssetIds = [...new Set([...shotAssetIds, ...trackAssetIds])];
+    const renderData = readFileSync(finalPath);
     const renderAssetId = randomUUID();
-    const storagePath = await saveAsset(renderAssetId, renderData, 'mp4');
+    const storagePath = await saveAsset(renderAssetId, renderData, output.extension);
     const mintSig = signMintReceipt(renderAssetId, jobId);
 
     const provenance: ProvenanceManifest = {
       job_id: jobId,
       provider: 'phork-render',
       model: 'ffmpeg-concat',
-      model_version: '1.0.0',
+      model_version: '1.2.0',
       input: {
         prompt: `Render of commit ${request.commitId}`,
         params: {
           commitId: request.commitId,
           shotCount: snapshot.timeline.length,
           shotAssetIds,
+          trackAssetIds,
+          subtitlesBurnedIn: burnSubtitles,
+          chapters: chapters.map(({ title, start_ms }) => ({ title, start_ms })),
+          profile,
+          loudness: {
+            targetLufs: profile.loudnessLufs,
+            integratedLufs: measured?.integrated ?? null,
+            truePeakDb: measured?.truePeak ?? null,
+            lra: measured?.lra ?? null,
+          },
         },
       },
       safety: { blocked: false },
@@ -121,31 +232,41 @@ export async function processRenderJob(db: Database, jobId: string) {
         started_at: startedAt,
         finished_at: new Date().toISOString(),
       },
-      upstream: shotAssetIds.map((id) => ({ asset_id: id, relation: 'render_source' })),
+      upstream: sourceAssetIds.map((id) => ({ asset_id: id, relation: 'render_source' })),
     };
 
-    // Save render asset
-    await db.insert(assets).values({
-      id: renderAssetId,
-      workspaceId: job.workspaceId,
-      type: 'render',
-      mimeType: 'video/mp4',
-      storageUrl: storagePath,
-      bytes: renderData.length,
-      width: 1280,
-      height: 720,
-      createdBy: job.userId,
-      mintReceiptSig: mintSig,
-      provenance,
-      upstreamAssetIds: shotAssetIds,
+    // Flip the job and save the render together, so a cancel that lands while
+    // saving leaves neither behind
+    const succeeded = await db.transaction(async (tx: any) => {
+      const [row] = await tx.update(jobs).set({
+        status: 'succeeded',
+        result: { assetId: renderAssetId, commitId: request.commitId },
+        updatedAt: new Date(),
+      }).where(and(eq(jobs.id, jobId), eq(jobs.status, 'running'))).returning();
+      if (!row) return null;
+      await tx.insert(assets).values({
+        id: renderAssetId,
+        workspaceId: job.workspaceId,
+        type: 'render',
+        mimeType: output.mimeType,
+        storageUrl: storagePath,
+        bytes: renderData.length,
+        durationMs: outputInfo.durationMs,
+        width: outputInfo.width,
+        height: outputInfo.height,
+        createdBy: job.userId,
+        mintReceiptSig: mintSig,
+        provenance,
+        upstreamAssetIds: sourceAssetIds,
+      });
+      return row;
     });
-
-    // Update job
-    await db.update(jobs).set({
-      status: 'succeeded',
-      result: { assetId: renderAssetId, commitId: request.commitId },
-      updatedAt: new Date(),
-    }).where(eq(jobs.id, jobId));
+    if (!succeeded) {
+      await deleteAsset(storagePath);
+      console.log(`Render job ${jobId} cancelled`);
+      return;
+    }
+    await announceSettledJob(db, connection, succeeded);
 
     // Record fork_rendered analytics if this is a forked project
     try {
@@ -165,14 +286,467 @@ export async function processRenderJob(db: Database, jobId: string) {
     }
 
   } catch (error: any) {
+    if (signal.aborted) {
+      // The cancel endpoint already set the status and refunded
+      console.log(`Render job ${jobId} cancelled`);
+      return;
+    }
     console.error(`Render job ${jobId} failed:`, error);
-    await db.update(jobs).set({
+    const [failed] = await db.update(jobs).set({
       status: 'failed',
       error: { message: error.message || 'Render failed' },
       updatedAt: new Date(),
-    }).where(eq(jobs.id, jobId));
+    }).where(and(eq(jobs.id, jobId), eq(jobs.status, 'running'))).returning();
+    if (failed) await announceSettledJob(db, connection, failed);
 
     // Full refund for failed render jobs
     await refundJob(db, job, `render failed: ${(error.message || 'Render failed').substring(0, 100)}`);
   }
 }
+
+/** Normalize paths to forward slashes for FFmpeg compatibility on Windows */
+function ffPath(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+// Every intermediate (segments, joins, mixes) uses the same codec params
+const INTERMEDIATE_VIDEO_ARGS = '-c:v libx264 -preset fast -pix_fmt yuv420p';
+
+const OUTPUT_FORMATS: Record<RenderProfile['codec'], { extension: string; mimeType: string; videoArgs: string; audioArgs: string }> = {
+  h264: { extension: 'mp4', mimeType: 'video/mp4', videoArgs: INTERMEDIATE_VIDEO_ARGS, audioArgs: '-c:a aac' },
+  h265: { extension: 'mp4', mimeType: 'video/mp4', videoArgs: '-c:v libx265 -preset fast -pix_fmt yuv420p -tag:v hvc1', audioArgs: '-c:a copy' },
+  vp9: { extension: 'webm', mimeType: 'video/webm', videoArgs: '-c:v libvpx-vp9 -b:v 0 -crf 32 -row-mt 1 -pix_fmt yuv420p', audioArgs: '-c:a libopus -b:a 128k' },
+};
+
+function toSec(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/** Copy a stored asset into the render temp dir so ffmpeg can read it */
+async function copyAssetToTmp(db: Database, assetId: string, tmpDir: string, name: string) {
+  const [asset] = await db.select().from(assets).where(eq(assets.id, assetId)).limit(1);
+  if (!asset) throw new Error(`Asset ${assetId} not found`);
+  if (!existsSync(asset.storageUrl)) {
+    throw new Error(`Asset file not found at ${asset.storageUrl}`);
+  }
+
+  const ext = extname(asset.storageUrl) || `.${asset.mimeType?.split('/')[1] || 'mp4'}`;
+  const path = join(tmpDir, `${name}${ext}`);
+  writeFileSync(path, readFileSync(asset.storageUrl));
+  return { asset, path };
+}
+
+/** Actual dimensions and runtime of a rendered file */
+async function probeVideo(path: string, signal: AbortSignal): Promise<{ width: number; height: number; durationMs: number }> {
+  const { stdout } = await runCommand(
+    `ffprobe -v error -select_streams v:0 -show_entries stream=width,height:format=duration -of json "${ffPath(path)}"`,
+    { timeout: 15000, signal }
+  );
+  const info = JSON.parse(stdout);
+  return {
+    width: info.streams?.[0]?.width,
+    height: info.streams?.[0]?.height,
+    durationMs: Math.round(parseFloat(info.format?.duration || '0') * 1000),
+  };
+}
+
+async function hasAudioStream(path: string, signal: AbortSignal): Promise<boolean> {
+  const { stdout } = await runCommand(
+    `ffprobe -v error -select_streams a -show_entries stream=index -of csv=p=0 "${ffPath(path)}"`,
+    { timeout: 15000, signal }
+  );
+  return stdout.trim().length > 0;
+}
+
+interface ShotSegmentInput {
+  visualPath: string;
+  narrationPath: string | null;
+  durationMs: number;
+  trimInMs: number;
+  /** End of the source window; values <= trimInMs mean "to the end of the source" */
+  trimOutMs: number;
+  profile: RenderProfile;
+  outputPath: string;
+}
+
+/**
+ * Render one shot to a self-contained segment of exactly `durationMs`.
+ *
+ * The visual is cut to its trim window, then fitted to the shot duration:
+ * a short window freezes its last frame, a long one is cut.
+ *
+ * The audio bed is silence of the shot's length, mixed with the clip's own
+ * audio (trimmed with the visual, if any) and the shot's narration
+ * padded/cut to the shot duration. Every segment is encoded with identical
+ * codec params so the final concat can stream-copy.
+ */
+async function renderShotSegment(segment: ShotSegmentInput, signal: AbortSignal, onProgress?: (outTimeMs: number) => void) {
+  const durationSec = toSec(segment.durationMs);
+  const trimArgs = [`-ss ${toSec(segment.trimInMs)}`];
+  if (segment.trimOutMs > segment.trimInMs) {
+    trimArgs.push(`-to ${toSec(segment.trimOutMs)}`);
+  }
+
+  const inputs = [
+    `${trimArgs.join(' ')} -i "${ffPath(segment.visualPath)}"`,
+    `-f lavfi -t ${durationSec} -i "anullsrc=r=44100:cl=stereo"`,
+  ];
+  const mixInputs = ['[1:a]'];
+  const { width, height, fps } = segment.profile;
+  // Letterbox/pillarbox into the profile frame, then clone the last frame for
+  // up to the full shot length; -t cuts the excess
+  const filters = [
+    `[0:v]setpts=PTS-STARTPTS,scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${fps},tpad=stop_mode=clone:stop_duration=${durationSec}[vout]`,
+  ];
+
+  if (await hasAudioStream(segment.visualPath, signal)) {
+    filters.push(`[0:a]aresample=44100,aformat=channel_layouts=stereo,asetpts=PTS-STARTPTS[clip]`);
+    mixInputs.push('[clip]');
+  }
+
+  if (segment.narrationPath) {
+    inputs.push(`-i "${ffPath(segment.narrationPath)}"`);
+    filters.push(
+      `[2:a]aresample=44100,aformat=channel_layouts=stereo,apad,atrim=0:${durationSec},asetpts=PTS-STARTPTS[narration]`
+    );
+    mixInputs.push('[narration]');
+  }
+
+  // duration=first keeps the mix exactly as long as the silence bed
+  filters.push(`${mixInputs.join('')}amix=inputs=${mixInputs.length}:duration=first:dropout_transition=0:normalize=0[aout]`);
+
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} ${inputs.join(' ')} -filter_complex "${filters.join(';')}" -map "[vout]" -map "[aout]" -t ${durationSec} ${INTERMEDIATE_VIDEO_ARGS} -c:a aac -ar 44100 -ac 2 "${ffPath(segment.outputPath)}"`,
+    { timeout: 60000, signal, onProgress }
+  );
+}
+
+interface LaneClipInput {
+  kind: AudioTrackKind;
+  clip: AudioClip;
+  path: string;
+}
+
+/** Where a shot's narration plays on the output timeline */
+interface NarrationCue {
+  path: string;
+  startMs: number;
+  durationMs: number;
+}
+
+// Music drops ~10 dB within 20 ms of speech and recovers over 400 ms
+const DUCKING_FILTER = 'sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400';
+
+/**
+ * Mix audio-lane clips over an already rendered video. Each clip is cut to
+ * its source window, faded, gain-adjusted and delayed to its absolute
+ * start; the mix keeps the video's length, so overhanging clips are cut.
+ *
+ * Music is ducked under speech: shot narration and dialogue-lane clips are
+ * summed into a sidechain key that drives a compressor on the music bus.
+ */
+async function mixAudioLanes(
+  inputPath: string, lanes: LaneClipInput[], narration: NarrationCue[], outputPath: string, signal: AbortSignal, onProgress?: (outTimeMs: number) => void
+) {
+  const inputs = [`-i "${ffPath(inputPath)}"`];
+  const filters: string[] = [];
+  const mixInputs = ['[0:a]'];
+  const musicLabels: string[] = [];
+  const speechLabels: string[] = [];
+
+  lanes.forEach(({ kind, clip, path }, n) => {
+    inputs.push(`-i "${ffPath(path)}"`);
+    const chain = [
+      `atrim=start=${toSec(clip.trim_in_ms)}:duration=${toSec(clip.duration_ms)}`,
+      'asetpts=PTS-STARTPTS',
+      'aresample=44100',
+      'aformat=channel_layouts=stereo',
+    ];
+    if (clip.fade_in_ms > 0) {
+      chain.push(`afade=t=in:st=0:d=${toSec(clip.fade_in_ms)}`);
+    }
+    if (clip.fade_out_ms > 0) {
+      chain.push(`afade=t=out:st=${toSec(clip.duration_ms - clip.fade_out_ms)}:d=${toSec(clip.fade_out_ms)}`);
+    }
+    chain.push(`volume=${clip.gain_db}dB`, `adelay=${clip.start_ms}:all=1`);
+
+    if (kind === 'music') {
+      filters.push(`[${n + 1}:a]${chain.join(',')}[lane${n}]`);
+      musicLabels.push(`[lane${n}]`);
+    } else if (kind === 'dialogue') {
+      // Dialogue is heard and also keys the ducking
+      filters.push(`[${n + 1}:a]${chain.join(',')},asplit=2[lane${n}][key${n}]`);
+      mixInputs.push(`[lane${n}]`);
+      speechLabels.push(`[key${n}]`);
+    } else {
+      filters.push(`[${n + 1}:a]${chain.join(',')}[lane${n}]`);
+      mixInputs.push(`[lane${n}]`);
+    }
+  });
+
+  if (musicLabels.length > 0) {
+    // Narration is already in the video's audio; these inputs only feed the key
+    narration.forEach(({ path, startMs, durationMs }, n) => {
+      const input = lanes.length + 1 + n;
+      inputs.push(`-i "${ffPath(path)}"`);
+      filters.push(
+        `[${input}:a]atrim=duration=${toSec(durationMs)},asetpts=PTS-STARTPTS,aresample=44100,aformat=channel_layouts=stereo,adelay=${startMs}:all=1[narr${n}]`
+      );
+      speechLabels.push(`[narr${n}]`);
+    });
+
+    const musicBus = musicLabels.length > 1
+      ? `${musicLabels.join('')}amix=inputs=${musicLabels.length}:duration=longest:dropout_transition=0:normalize=0`
+      : `${musicLabels[0]}anull`;
+    if (speechLabels.length > 0) {
+      // sidechaincompress stops at the end of either input, so the key is padded
+      // with silence to let music that outlasts the last line play on, unducked
+      const keyBus = speechLabels.length > 1
+        ? `${speechLabels.join('')}amix=inputs=${speechLabels.length}:duration=longest:dropout_transition=0:normalize=0,apad`
+        : `${speechLabels[0]}apad`;
+      filters.push(`${musicBus}[music]`, `${keyBus}[speech]`, `[music][speech]${DUCKING_FILTER}[ducked]`);
+      mixInputs.push('[ducked]');
+    } else {
+      filters.push(`${musicBus}[music]`);
+      mixInputs.push('[music]');
+    }
+  }
+
+  filters.push(`${mixInputs.join('')}amix=inputs=${mixInputs.length}:duration=first:dropout_transition=0:normalize=0[aout]`);
+
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} ${inputs.join(' ')} -filter_complex "${filters.join(';')}" -map 0:v:0 -map "[aout]" -c:v copy -c:a aac -ar 44100 -ac 2 "${ffPath(outputPath)}"`,
+    { timeout: 120000, signal, onProgress }
+  );
+}
+
+interface LoudnessStats {
+  integrated: number;
+  truePeak: number;
+  lra: number;
+  threshold: number;
+  offset: number;
+}
+
+/**
+ * Measure a file's loudness with loudnorm's analysis pass. Returns null when
+ * there is nothing to measure (no audio stream, or digital silence).
+ */
+async function measureLoudness(path: string, signal: AbortSignal): Promise<LoudnessStats | null> {
+  if (!(await hasAudioStream(path, signal))) return null;
+  let stderr: string;
+  try {
+    ({ stderr } = await runCommand(
+      `ffmpeg -hide_banner -nostats -i "${ffPath(path)}" -map 0:a:0 -af loudnorm=print_format=json -f null -`,
+      { timeout: 300000, signal }
+    ));
+  } catch (err: any) {
+    if (signal.aborted) throw err;
+    throw new Error(`Loudness measurement failed: ${err.stderr?.slice(-500)}`);
+  }
+
+  // loudnorm prints its JSON summary as the last block on stderr
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+  const stats = JSON.parse(json);
+  const integrated = parseFloat(stats.input_i);
+  if (!Number.isFinite(integrated)) return null;
+  return {
+    integrated,
+    truePeak: parseFloat(stats.input_tp),
+    lra: parseFloat(stats.input_lra),
+    threshold: parseFloat(stats.input_thresh),
+    offset: parseFloat(stats.target_offset),
+  };
+}
+
+/**
+ * Two-pass EBU R128 normalization to `targetLufs` with a true-peak ceiling.
+ * The first pass measures, the second applies a linear gain using those
+ * measurements so dynamics are preserved. Video is stream-copied. Returns
+ * false (and writes nothing) for silent renders.
+ */
+async function normalizeLoudness(
+  inputPath: string, targetLufs: number, outputPath: string, signal: AbortSignal, onProgress?: (outTimeMs: number) => void
+): Promise<boolean> {
+  const measured = await measureLoudness(inputPath, signal);
+  if (!measured) return false;
+
+  const loudnorm = [
+    `I=${targetLufs}`,
+    `TP=${TRUE_PEAK_LIMIT_DB}`,
+    'LRA=11',
+    `measured_I=${measured.integrated}`,
+    `measured_TP=${measured.truePeak}`,
+    `measured_LRA=${measured.lra}`,
+    `measured_thresh=${measured.threshold}`,
+    `offset=${measured.offset}`,
+    'linear=true',
+  ].join(':');
+
+  // loudnorm resamples internally to 192 kHz; bring it back down for AAC
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -i "${ffPath(inputPath)}" -af "loudnorm=${loudnorm}" -map 0:v:0 -map 0:a:0 -c:v copy -c:a aac -ar 44100 -ac 2 "${ffPath(outputPath)}"`,
+    { timeout: 300000, signal, onProgress }
+  );
+  return true;
+}
+
+/** Hard cuts only: join segments end to end with the concat demuxer */
+async function concatSegments(segmentPaths: string[], tmpDir: string, outputPath: string, signal: AbortSignal) {
+  const concatPath = join(tmpDir, 'concat.txt');
+  writeFileSync(concatPath, segmentPaths.map((p) => `file '${ffPath(p)}'`).join('\n'));
+
+  // Segments share codec params, so stream copy normally succeeds
+  try {
+    await runCommand(
+      `ffmpeg -y -f concat -safe 0 -i "${ffPath(concatPath)}" -c copy "${ffPath(outputPath)}"`,
+      { timeout: 120000, signal }
+    );
+  } catch (err) {
+    if (signal.aborted) throw err;
+    // Stream copy failed (codec mismatch between shots) — re-encode
+    await runCommand(
+      `ffmpeg -y -f concat -safe 0 -i "${ffPath(concatPath)}" ${INTERMEDIATE_VIDEO_ARGS} -c:a aac "${ffPath(outputPath)}"`,
+      { timeout: 120000, signal }
+    );
+  }
+}
+
+const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+  crossfade: 'fade',
+  dip_to_black: 'fadeblack',
+  wipe_left: 'wipeleft',
+  wipe_right: 'wiperight',
+  slide_left: 'slideleft',
+  slide_right: 'slideright',
+};
+
+/**
+ * Join segments with a single filter graph. Shots with a `transition_in`
+ * overlap the previous shot via xfade (video) and acrossfade (audio); the
+ * rest are joined with the concat filter, so hard cuts and transitions can
+ * be mixed freely.
+ */
+async function joinWithTransitions(
+  segmentPaths: string[], timeline: ShotSnapshot[], outputPath: string, signal: AbortSignal, onProgress?: (outTimeMs: number) => void
+) {
+  const inputs = segmentPaths.map((p) => `-i "${ffPath(p)}"`);
+  const filters: string[] = [];
+  let videoLabel = '[0:v]';
+  let audioLabel = '[0:a]';
+  const overlaps = transitionOverlapsMs(timeline);
+  let lengthMs = timeline[0].duration_ms;
+
+  for (let i = 1; i < segmentPaths.length; i++) {
+    const overlapMs = overlaps[i];
+    const nextVideo = `[v${i}]`;
+    const nextAudio = `[a${i}]`;
+
+    if (overlapMs > 0) {
+      const transition = XFADE_TRANSITIONS[timeline[i].transition_in!.type];
+      const offsetSec = toSec(lengthMs - overlapMs);
+      filters.push(
+        `${videoLabel}[${i}:v]xfade=transition=${transition}:duration=${toSec(overlapMs)}:offset=${offsetSec}${nextVideo}`,
+        `${audioLabel}[${i}:a]acrossfade=d=${toSec(overlapMs)}:c1=tri:c2=tri${nextAudio}`,
+      );
+    } else {
+      filters.push(`${videoLabel}${audioLabel}[${i}:v][${i}:a]concat=n=2:v=1:a=1${nextVideo}${nextAudio}`);
+    }
+
+    videoLabel = nextVideo;
+    audioLabel = nextAudio;
+    lengthMs += timeline[i].duration_ms - overlapMs;
+  }
+
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} ${inputs.join(' ')} -filter_complex "${filters.join(';')}" -map "${videoLabel}" -map "${audioLabel}" ${INTERMEDIATE_VIDEO_ARGS} -c:a aac -ar 44100 -ac 2 "${ffPath(outputPath)}"`,
+    { timeout: 300000, signal, onProgress }
+  );
+}
+
+async function burnInSubtitles(
+  inputPath: string, srtPath: string, style: SubtitleStyle, outputPath: string, signal: AbortSignal, onProgress?: (outTimeMs: number) => void
+) {
+  // The subtitles filter parses its own argument, so ':' (Windows drive letters) must be escaped
+  const subtitleFile = ffPath(srtPath).replace(/:/g, '\\:');
+  await runCommand(
+    `ffmpeg -y ${FFMPEG_PROGRESS_ARGS} -i "${ffPath(inputPath)}" -vf "subtitles='${subtitleFile}':force_style='${toForceStyle(style)}'" ${INTERMEDIATE_VIDEO_ARGS} -c:a copy "${ffPath(outputPath)}"`,
+    { timeout: 300000, signal, onProgress }
+  );
+}
+
+/** FFMETADATA escaping: '=', ';', '#', backslash and newline get a backslash prefix */
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Write chapter markers into the container via an FFMETADATA file.
+ * Streams are copied untouched.
+ */
+async function embedChapters(inputPath: string, chapters: Chapter[], tmpDir: string, outputPath: string, signal: AbortSignal) {
+  const metadataPath = join(tmpDir, 'chapters.txt');
+  const lines = [';FFMETADATA1'];
+  for (const chapter of chapters) {
+    lines.push('[CHAPTER]', 'TIMEBASE=1/1000', `START=${chapter.start_ms}`, `END=${chapter.end_ms}`, `title=${escapeMetadata(chapter.title)}`);
+  }
+  writeFileSync(metadataPath, lines.join('\n') + '\n');
+
+  await runCommand(
+    `ffmpeg -y -i "${ffPath(inputPath)}" -i "${ffPath(metadataPath)}" -map 0 -map_metadata 1 -map_chapters 1 -c copy "${ffPath(outputPath)}"`,
+    { timeout: 60000, signal }
+  );
+}
+
+// A static still: whole frame, centred
+const STILL_KEYFRAMES: MotionKeyframe[] = [
+  { at_ms: 0, zoom: 1, x: 0.5, y: 0.5 },
+  { at_ms: 0, zoom: 1, x: 0.5, y: 0.5 },
+];
+
+/**
+ * Piecewise-linear zoompan expression for one keyframe property, evaluated
+ * per output frame (`on`). Values hold before the first and after the last
+ * keyframe.
+ */
+function keyframeExpr(keyframes: MotionKeyframe[], prop: 'zoom' | 'x' | 'y', fps: number): string {
+  const frames = keyframes.map((k) => Math.round((k.at_ms / 1000) * fps));
+  let expr = String(keyframes[keyframes.length - 1][prop]);
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i][prop];
+    const to = keyframes[i + 1][prop];
+    const span = Math.max(1, frames[i + 1] - frames[i]);
+    expr = `if(lt(on,${frames[i + 1]}),${from}+(${to - from})*(on-${frames[i]})/${span},${expr})`;
+  }
+  return `if(lt(on,${frames[0]}),${keyframes[0][prop]},${expr})`;
+}
+
+/**
+ * Turn a still image into a silent clip of `durationMs` in the profile frame.
+ * The image is first cropped to fill the frame at 2x resolution so zooming in
+ * stays sharp, then zoompan applies the motion keyframes.
+ */
+async function renderStillClip(imagePath: string, motion: ShotMotion | null, durationMs: number, profile: RenderProfile, outputPath: string, signal: AbortSignal) {
+  const { width, height, fps } = profile;
+  const durationSec = toSec(durationMs);
+  const keyframes = [...(motion?.keyframes || STILL_KEYFRAMES)].sort((a, b) => a.at_ms - b.at_ms);
+
+  const zoom = keyframeExpr(keyframes, 'zoom', fps);
+  const centreX = keyframeExpr(keyframes, 'x', fps);
+  const centreY = keyframeExpr(keyframes, 'y', fps);
+  // zoompan positions the top-left corner; keep the window inside the image
+  const x = `max(0,min(iw-iw/zoom,(${centreX})*iw-iw/zoom/2))`;
+  const y = `max(0,min(ih-ih/zoom,(${centreY})*ih-ih/zoom/2))`;
+
+  const filter = [
+    `scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase`,
+    `crop=${width * 2}:${height * 2}`,
+    `zoompan=z='${zoom}':x='${x}':y='${y}':d=1:s=${width}x${height}:fps=${fps}`,
+    'setsar=1',
+  ].join(',');
+
+  await runCommand(
+    `ffmpeg -y -loop 1 -framerate ${fps} -t ${durationSec} -i "${ffPath(imagePath)}" -vf "${filter}" -t ${durationSec} ${INTERMEDIATE_VIDEO_ARGS} -an "${ffPath(outputPath)}"`,
+    { timeout: 120000, signal }
+  );
+}
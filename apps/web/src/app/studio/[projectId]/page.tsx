@@ -4,7 +4,8 @@ import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuthStore } from '@/stores/auth';
 import { useProjectStore } from '@/stores/project';
-import { api } from '@/lib/api';
+import { api, ApiRequestError } from '@/lib/api';
+import { watchJob } from '@/lib/jobs';
 import { ShotList } from '@/components/ShotList';
 import { ShotEditor } from '@/components/ShotEditor';
 import { PreviewPlayer } from '@/components/PreviewPlayer';
@@ -15,8 +16,17 @@ import { ReleaseDialog } from '@/components/ReleaseDialog';
 import { FolderNav, type FolderTab } from '@/components/FolderNav';
 import { AssetGrid } from '@/components/AssetGrid';
 import { UpstreamLibrary } from '@/components/UpstreamLibrary';
-import type { ShotSnapshot, TimelineSnapshot } from '@phork/shared';
-import { GitFork, Play, Save, ArrowLeft, Info, Globe, Package, Eye } from 'lucide-react';
+import { BranchSwitcher } from '@/components/BranchSwitcher';
+import { HistoryDialog } from '@/components/HistoryDialog';
+import { MergeRequestsDialog } from '@/components/MergeRequestsDialog';
+import { SyncUpstreamDialog } from '@/components/SyncUpstreamDialog';
+import { ForkNetworkDialog } from '@/components/ForkNetworkDialog';
+import { SaveConflictDialog } from '@/components/SaveConflictDialog';
+import { BatchGenerateDialog } from '@/components/BatchGenerateDialog';
+import { PipelinesDialog } from '@/components/PipelinesDialog';
+import type { JobProgress, ShotSnapshot, TimelineSnapshot } from '@phork/shared';
+import { createSnapshot, RENDER_PROFILES, DEFAULT_RENDER_PROFILE_ID } from '@phork/shared';
+import { GitFork, Play, Save, ArrowLeft, Info, Globe, Package, Eye, History, GitPullRequest, RefreshCw, Network, XCircle, Layers, Workflow } from 'lucide-react';
 
 export default function ProjectStudioPage() {
   const router = useRouter();
@@ -24,20 +34,34 @@ export default function ProjectStudioPage() {
   const projectId = params.projectId as string;
   const { token, workspaceId } = useAuthStore();
   const {
-    project, headCommit, shots, selectedShotIndex,
-    setProject, setHeadCommit, setShots, selectShot,
+    project, headCommit, shots, tracks, selectedShotIndex,
+    setProject, setHeadCommit, loadSnapshot, selectShot,
     addShot, removeShot, reorderShots, updateShot,
   } = useProjectStore();
 
   const [loading, setLoading] = useState(true);
+  const [branch, setBranch] = useState('');
   const [saving, setSaving] = useState(false);
   const [rendering, setRendering] = useState(false);
+  // Queued render job; while set, the Render button cancels it
+  const [renderJobId, setRenderJobId] = useState<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<JobProgress | null>(null);
+  const [burnSubtitles, setBurnSubtitles] = useState(false);
+  const [renderProfileId, setRenderProfileId] = useState(DEFAULT_RENDER_PROFILE_ID);
   const [renderAssetId, setRenderAssetId] = useState<string | null>(null);
   const [renderDownloadUrl, setRenderDownloadUrl] = useState<string | null>(null);
   const [showFork, setShowFork] = useState(false);
+  const [forkFromCommitId, setForkFromCommitId] = useState<string | undefined>(undefined);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMergeRequests, setShowMergeRequests] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showNetwork, setShowNetwork] = useState(false);
+  const [saveConflict, setSaveConflict] = useState<{ message: string; snapshot: TimelineSnapshot; currentHead: any } | null>(null);
   const [showProvenance, setShowProvenance] = useState(false);
   const [showPublish, setShowPublish] = useState(false);
   const [showReleaseDialog, setShowReleaseDialog] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showPipelines, setShowPipelines] = useState(false);
   const [credits, setCredits] = useState(0);
   const [publishedRender, setPublishedRender] = useState<any>(null);
 
@@ -60,14 +84,16 @@ export default function ProjectStudioPage() {
     }
   }, [activeTab, workspaceId, projectId]);
 
-  const loadProject = async () => {
+  // Loads the head of `branchName`, or of the default branch when omitted
+  const loadProject = async (branchName?: string) => {
     try {
-      const res = await api.get(`/projects/${projectId}`);
+      const query = branchName ? `?branch=${encodeURIComponent(branchName)}` : '';
+      const res = await api.get(`/projects/${projectId}${query}`);
       setProject(res.project);
+      setBranch(res.branch);
       setHeadCommit(res.headCommit);
-      if (res.headCommit?.snapshot) {
-        setShots((res.headCommit.snapshot as TimelineSnapshot).timeline || []);
-      }
+      loadSnapshot(res.headCommit?.snapshot);
+      selectShot(null);
       // Check if published
       try {
         const pub = await api.get(`/publish/${projectId}`);
@@ -80,6 +106,11 @@ export default function ProjectStudioPage() {
     }
   };
 
+  const switchBranch = (branchName: string) => {
+    if (branchName === branch) return;
+    loadProject(branchName || undefined);
+  };
+
   const loadCredits = async () => {
     try {
       const res = await api.get(`/credits/balance?workspaceId=${workspaceId}`);
@@ -110,18 +141,28 @@ export default function ProjectStudioPage() {
     }
   };
 
-  const saveCommit = async () => {
+  // Resolves false when nothing was saved (an error, or someone else moved the branch)
+  const saveCommit = async (): Promise<boolean> => {
     setSaving(true);
+    const snapshot = createSnapshot(shots, tracks);
+    const message = `Update timeline (${shots.length} shots)`;
     try {
-      const snapshot: TimelineSnapshot = { timeline: shots };
       const res = await api.post(`/projects/${projectId}/commits`, {
-        message: `Update timeline (${shots.length} shots)`,
+        branch,
+        message,
         snapshot,
+        expectedHeadCommitId: headCommit?.id,
       });
       setHeadCommit(res);
+      return true;
     } catch (err: any) {
-      console.error('Failed to save:', err);
-      alert(err.message || 'Failed to save');
+      if (err instanceof ApiRequestError && err.status === 409 && err.data?.currentHead) {
+        setSaveConflict({ message, snapshot, currentHead: err.data.currentHead });
+      } else {
+        console.error('Failed to save:', err);
+        alert(err.message || 'Failed to save');
+      }
+      return false;
     } finally {
       setSaving(false);
     }
@@ -133,47 +174,63 @@ export default function ProjectStudioPage() {
     setRenderAssetId(null);
     setRenderDownloadUrl(null);
     try {
-      await saveCommit();
+      if (!(await saveCommit())) {
+        setRendering(false);
+        return;
+      }
       const res = await api.post('/jobs/render', {
         projectId,
         workspaceId,
-        commitId: headCommit.id,
+        // The branch head is the commit that was just saved
+        branch,
+        profileId: renderProfileId,
+        subtitles: burnSubtitles ? { burnIn: true } : undefined,
       });
-      pollJob(res.id);
+      setRenderJobId(res.id);
+      followRenderJob(res.id);
     } catch (err: any) {
       console.error('Render failed:', err);
       setRendering(false);
     }
   };
 
-  const pollJob = async (jobId: string) => {
-    const poll = setInterval(async () => {
-      try {
-        const job = await api.get(`/jobs/${jobId}`);
-        if (job.status === 'succeeded') {
-          clearInterval(poll);
-          setRendering(false);
-          const assetId = job.result?.assetId || null;
-          setRenderAssetId(assetId);
-          if (assetId) {
-            try {
-              const assetMeta = await api.get(`/assets/${assetId}`);
-              setRenderDownloadUrl(assetMeta.downloadUrl || null);
-            } catch (err) {
-              console.error('Failed to fetch asset download URL:', err);
-            }
+  // The job stream sees the cancelled status and resets the button
+  const cancelRender = async () => {
+    if (!renderJobId) return;
+    try {
+      await api.post(`/jobs/${renderJobId}/cancel`, {});
+      loadCredits();
+    } catch (err: any) {
+      // 409: the render finished first, and polling picks up its result
+      console.error('Cancel failed:', err);
+    }
+  };
+
+  const followRenderJob = async (jobId: string) => {
+    try {
+      const job = await watchJob(projectId, jobId, (progress) => setRenderProgress(progress));
+      if (job.status === 'succeeded') {
+        const assetId = (job.result?.assetId as string) || null;
+        setRenderAssetId(assetId);
+        if (assetId) {
+          try {
+            const assetMeta = await api.get(`/assets/${assetId}`);
+            setRenderDownloadUrl(assetMeta.downloadUrl || null);
+          } catch (err) {
+            console.error('Failed to fetch asset download URL:', err);
           }
-          loadCredits();
-        } else if (job.status === 'failed' || job.status === 'blocked') {
-          clearInterval(poll);
-          setRendering(false);
-          alert(`Job ${job.status}: ${job.error?.message || 'Unknown error'}`);
         }
-      } catch {
-        clearInterval(poll);
-        setRendering(false);
+        loadCredits();
+      } else if (job.status === 'failed' || job.status === 'blocked') {
+        alert(`Job ${job.status}: ${job.error?.message || 'Unknown error'}`);
       }
-    }, 2000);
+    } catch (err) {
+      console.error('Failed to follow render:', err);
+    } finally {
+      setRendering(false);
+      setRenderJobId(null);
+      setRenderProgress(null);
+    }
   };
 
   const handleAddShot = () => {
@@ -210,6 +267,7 @@ export default function ProjectStudioPage() {
           {project?.parentProjectId && (
             <span className="rounded-full bg-[var(--accent)]/20 px-2 py-0.5 text-xs text-[var(--accent)]">Forked</span>
           )}
+          {branch && <BranchSwitcher projectId={projectId} currentBranch={branch} onSwitch={switchBranch} />}
         </div>
         <div className="flex items-center gap-2">
           <span className="text-sm text-[var(--text-secondary)]">{credits} credits</span>
@@ -226,7 +284,36 @@ export default function ProjectStudioPage() {
             <Package size={14} /> Release
           </button>
           <button
-            onClick={() => setShowFork(true)}
+            onClick={() => setShowHistory(true)}
+            disabled={!headCommit}
+            className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+          >
+            <History size={14} /> History
+          </button>
+          <button
+            onClick={() => setShowMergeRequests(true)}
+            className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+          >
+            <GitPullRequest size={14} /> Merge Requests
+          </button>
+          {project?.parentProjectId && (
+            <button
+              onClick={() => setShowSync(true)}
+              className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+              title="Pull new commits from the parent project"
+            >
+              <RefreshCw size={14} /> Sync
+            </button>
+          )}
+          <button
+            onClick={() => setShowNetwork(true)}
+            className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+            title="Where this project came from and how it has been forked"
+          >
+            <Network size={14} /> Network
+          </button>
+          <button
+            onClick={() => { setForkFromCommitId(undefined); setShowFork(true); }}
             className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
           >
             <GitFork size={14} /> Fork
@@ -239,6 +326,21 @@ export default function ProjectStudioPage() {
               <Eye size={14} /> View
             </button>
           )}
+          <button
+            onClick={() => setShowBatch(true)}
+            disabled={shots.length === 0}
+            className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+            title="Generate visuals and dialogue for every shot at once"
+          >
+            <Layers size={14} /> Generate All
+          </button>
+          <button
+            onClick={() => setShowPipelines(true)}
+            className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+            title="Status of this project's pipelines"
+          >
+            <Workflow size={14} /> Pipelines
+          </button>
           <button
             onClick={saveCommit}
             disabled={saving}
@@ -254,13 +356,43 @@ export default function ProjectStudioPage() {
           >
             <Globe size={14} /> Publish
           </button>
-          <button
-            onClick={startRender}
-            disabled={rendering || shots.length === 0}
-            className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-1.5 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+          <select
+            value={renderProfileId}
+            onChange={(e) => setRenderProfileId(e.target.value)}
+            className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-2 py-1.5 text-xs outline-none"
+            title="Render output profile"
           >
-            <Play size={14} /> {rendering ? 'Rendering...' : 'Render'}
-          </button>
+            {RENDER_PROFILES.map((p) => (
+              <option key={p.id} value={p.id}>{p.name} · {p.loudnessLufs} LUFS</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)]" title="Burn shot subtitles into the rendered video">
+            <input
+              type="checkbox"
+              checked={burnSubtitles}
+              onChange={(e) => setBurnSubtitles(e.target.checked)}
+              className="accent-[var(--accent)]"
+            />
+            Subtitles
+          </label>
+          {renderJobId ? (
+            <button
+              onClick={cancelRender}
+              className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-4 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+              title="Cancel and refund the render"
+            >
+              <XCircle size={14} />
+              {renderProgress ? `${renderProgress.percent}% · ${renderProgress.stage}` : 'Queued'} · Cancel
+            </button>
+          ) : (
+            <button
+              onClick={startRender}
+              disabled={rendering || shots.length === 0}
+              className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-1.5 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+            >
+              <Play size={14} /> {rendering ? 'Rendering...' : 'Render'}
+            </button>
+          )}
         </div>
       </header>
 
@@ -348,6 +480,8 @@ export default function ProjectStudioPage() {
         {showProvenance && selectedShotIndex !== null && shots[selectedShotIndex] && (
           <ProvenancePanel
             shot={shots[selectedShotIndex]}
+            projectId={projectId}
+            commitId={headCommit?.id}
             onClose={() => setShowProvenance(false)}
           />
         )}
@@ -357,6 +491,8 @@ export default function ProjectStudioPage() {
       {showFork && (
         <ForkDialog
           projectId={projectId}
+          branch={branch}
+          initialCommitId={forkFromCommitId}
           onClose={() => setShowFork(false)}
           onForked={(newProjectId) => {
             setShowFork(false);
@@ -365,6 +501,75 @@ export default function ProjectStudioPage() {
         />
       )}
 
+      {showHistory && headCommit && (
+        <HistoryDialog
+          projectId={projectId}
+          branch={branch}
+          headCommitId={headCommit.id}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => {
+            setShowHistory(false);
+            loadProject(branch);
+          }}
+          onFork={(commitId) => {
+            setShowHistory(false);
+            setForkFromCommitId(commitId);
+            setShowFork(true);
+          }}
+        />
+      )}
+
+      {showMergeRequests && (
+        <MergeRequestsDialog
+          projectId={projectId}
+          proposeBranch={project?.parentProjectId ? branch : undefined}
+          onClose={() => setShowMergeRequests(false)}
+          onMerged={() => {
+            setShowMergeRequests(false);
+            loadProject(branch);
+          }}
+        />
+      )}
+
+      {showSync && (
+        <SyncUpstreamDialog
+          projectId={projectId}
+          branch={branch}
+          onClose={() => setShowSync(false)}
+          onSynced={() => {
+            setShowSync(false);
+            loadProject(branch);
+          }}
+        />
+      )}
+
+      {showNetwork && (
+        <ForkNetworkDialog projectId={projectId} onClose={() => setShowNetwork(false)} />
+      )}
+
+      {saveConflict && headCommit && (
+        <SaveConflictDialog
+          projectId={projectId}
+          branch={branch}
+          message={saveConflict.message}
+          baseSnapshot={headCommit.snapshot}
+          localSnapshot={saveConflict.snapshot}
+          currentHead={saveConflict.currentHead}
+          onSaved={(commit) => {
+            setSaveConflict(null);
+            setHeadCommit(commit);
+            loadSnapshot(commit.snapshot);
+          }}
+          onDiscard={(head) => {
+            setSaveConflict(null);
+            setHeadCommit(head);
+            loadSnapshot(head.snapshot);
+            selectShot(null);
+          }}
+          onClose={() => setSaveConflict(null)}
+        />
+      )}
+
       {showPublish && renderAssetId && headCommit && (
         <PublishDialog
           projectId={projectId}
@@ -379,6 +584,23 @@ export default function ProjectStudioPage() {
         />
       )}
 
+      {showBatch && (
+        <BatchGenerateDialog
+          projectId={projectId}
+          workspaceId={workspaceId!}
+          branch={branch}
+          shots={shots}
+          onSave={saveCommit}
+          onClose={() => setShowBatch(false)}
+          onCreditsChange={loadCredits}
+          onCommitted={() => loadProject(branch)}
+        />
+      )}
+
+      {showPipelines && (
+        <PipelinesDialog projectId={projectId} onClose={() => setShowPipelines(false)} />
+      )}
+
       {showReleaseDialog && (
         <ReleaseDialog
           projectId={projectId}
@@ -1,13 +1,13 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
 import { ShotMarkers } from '@/components/ShotMarkers';
 import { ViewerForkDialog } from '@/components/ViewerForkDialog';
-import { GitFork, Play, Clock, User, Package } from 'lucide-react';
-import type { ShotSnapshot } from '@phork/shared';
+import { GitFork, Play, Clock, User, Package, ListVideo } from 'lucide-react';
+import type { Chapter, ShotSnapshot } from '@phork/shared';
 
 interface ViewerData {
   project: { id: string; name: string; description: string | null; forkLicense: string } | null;
@@ -17,6 +17,7 @@ interface ViewerData {
   creator: { displayName: string } | null;
   totalDurationMs: number;
   shotCount: number;
+  chapters: Chapter[];
   releases: any[];
 }
 
@@ -33,11 +34,37 @@ export default function ViewerPage() {
   const [error, setError] = useState('');
   const [selectedShotIndex, setSelectedShotIndex] = useState<number | null>(null);
   const [showFork, setShowFork] = useState(false);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const jumpToChapter = (chapter: Chapter) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = chapter.start_ms / 1000;
+    video.play().catch(() => { /* autoplay may be blocked */ });
+  };
 
   useEffect(() => {
     loadViewer();
   }, [projectId]);
 
+  // Captions are fetched with auth and handed to the <track> as a blob URL
+  useEffect(() => {
+    if (!data) return;
+    let url: string | null = null;
+    const query = shareToken ? `?shareToken=${shareToken}` : '';
+    api.getText(`/publish/${projectId}/captions.vtt${query}`)
+      .then((vtt) => {
+        if (!vtt.includes('-->')) return; // no subtitled shots
+        url = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+        setCaptionsUrl(url);
+      })
+      .catch(() => { /* captions are optional */ });
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [data, projectId, shareToken]);
+
   const loadViewer = async () => {
     try {
       let url = `/publish/${projectId}`;
@@ -75,7 +102,8 @@ export default function ViewerPage() {
     );
   }
 
-  const forkable = data.project?.forkLicense !== 'no_forks';
+  // A release can license forks even when the project itself doesn't
+  const forkable = data.project?.forkLicense !== 'no_forks' || data.releases.some((r: any) => r.license !== 'no_forks');
 
   return (
     <div className="min-h-screen">
@@ -109,11 +137,13 @@ export default function ViewerPage() {
         {/* Video Player */}
         <div className="overflow-hidden rounded-xl border border-[var(--border-color)] bg-black">
           <video
+            ref={videoRef}
             src={data.downloadUrl}
             controls
             className="w-full"
             style={{ maxHeight: '480px' }}
           >
+            {captionsUrl && <track kind="captions" src={captionsUrl} srcLang="en" label="Captions" default />}
             Your browser does not support the video tag.
           </video>
         </div>
@@ -126,6 +156,29 @@ export default function ViewerPage() {
           onSelect={setSelectedShotIndex}
         />
 
+        {/* Chapters */}
+        {data.chapters.length > 0 && (
+          <div className="mt-4 rounded-xl border border-[var(--border-color)] p-4">
+            <h3 className="mb-2 flex items-center gap-1.5 text-sm font-medium">
+              <ListVideo size={14} className="text-[var(--accent)]" /> Chapters
+            </h3>
+            <div className="space-y-1">
+              {data.chapters.map((chapter) => (
+                <button
+                  key={chapter.shot_index}
+                  onClick={() => jumpToChapter(chapter)}
+                  className="flex w-full items-center gap-3 rounded-lg px-2 py-1.5 text-left text-sm hover:bg-[var(--bg-tertiary)]"
+                >
+                  <span className="w-12 font-mono text-xs text-[var(--text-secondary)]">
+                    {formatTimestamp(chapter.start_ms)}
+                  </span>
+                  <span>{chapter.title}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Metadata + Actions */}
         <div className="mt-6 flex flex-wrap items-center gap-4 text-sm text-[var(--text-secondary)]">
           {data.creator && (
@@ -184,6 +237,7 @@ export default function ViewerPage() {
           shotIndex={selectedShotIndex}
           shotCount={data.shotCount}
           releases={data.releases}
+          forkLicense={data.project.forkLicense}
           onClose={() => setShowFork(false)}
           onForked={(newProjectId) => {
             setShowFork(false);
@@ -194,3 +248,8 @@ export default function ViewerPage() {
     </div>
   );
 }
+
+function formatTimestamp(ms: number): string {
+  const totalSec = Math.floor(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Layers, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import type { JobBatch, ShotSnapshot } from '@phork/shared';
+import { api } from '@/lib/api';
+import { watchJob } from '@/lib/jobs';
+
+interface BatchGenerateDialogProps {
+  projectId: string;
+  workspaceId: string;
+  branch: string;
+  shots: ShotSnapshot[];
+  /** Saves local edits first, so the batch sees every shot; resolves false if nothing was saved */
+  onSave: () => Promise<boolean>;
+  onClose: () => void;
+  onCreditsChange: () => void;
+  /** The batch committed its assets to the branch */
+  onCommitted: () => void;
+}
+
+// Stub pricing, as charged by the API
+const COSTS = { video: 25, image: 10, audio: 5 };
+
+export function BatchGenerateDialog({
+  projectId, workspaceId, branch, shots, onSave, onClose, onCreditsChange, onCommitted,
+}: BatchGenerateDialogProps) {
+  const [prompts, setPrompts] = useState<Record<string, string>>({});
+  // Dialogue starts from each shot's subtitle
+  const [texts, setTexts] = useState<Record<string, string>>(
+    () => Object.fromEntries(shots.map((s) => [s.shot_id, s.subtitle || '']))
+  );
+  const [visual, setVisual] = useState<'video' | 'image'>('video');
+  const [autoCommit, setAutoCommit] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [total, setTotal] = useState(0);
+  const [done, setDone] = useState(0);
+  const [batch, setBatch] = useState<JobBatch | null>(null);
+
+  const entries = shots
+    .map((s) => ({ shotId: s.shot_id, prompt: prompts[s.shot_id]?.trim() || undefined, text: texts[s.shot_id]?.trim() || undefined }))
+    .filter((e) => e.prompt || e.text);
+  const cost = entries.reduce((sum, e) => sum + (e.prompt ? COSTS[visual] : 0) + (e.text ? COSTS.audio : 0), 0);
+  const running = total > 0 && !batch;
+
+  const handleGenerate = async () => {
+    if (entries.length === 0) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      if (!(await onSave())) return;
+      const res = await api.post('/jobs/batch', { projectId, workspaceId, branch, shots: entries, visual, autoCommit });
+      onCreditsChange();
+      setTotal(res.jobs.length);
+
+      await Promise.all(res.jobs.map((job: any) => watchJob(projectId, job.id).finally(() => setDone((n) => n + 1))));
+      // The batch settles before its last job is announced, so this is final
+      const settled: JobBatch = await api.get(`/jobs/batch/${res.id}`);
+      setBatch(settled);
+      onCreditsChange();
+      if (settled.commitId) onCommitted();
+    } catch (err: any) {
+      setError(err.message || 'Batch generation failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const shotLabel = (shotId: string) => `Shot ${shots.findIndex((s) => s.shot_id === shotId) + 1}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-primary)] p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Layers size={18} className="text-[var(--accent)]" />
+            <h2 className="text-lg font-semibold">Generate All Shots</h2>
+          </div>
+          <button onClick={onClose} className="rounded-lg p-1.5 hover:bg-[var(--bg-tertiary)]">
+            <X size={18} />
+          </button>
+        </div>
+
+        {batch ? (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              {batch.status === 'succeeded' && !batch.commitError
+                ? <CheckCircle size={16} className="text-[var(--success)]" />
+                : <AlertTriangle size={16} className="text-yellow-400" />}
+              <span>
+                {batch.counts.succeeded || 0} of {batch.jobs.length} jobs succeeded
+                {batch.commitId ? ` — committed to ${batch.branch}` : ''}
+              </span>
+            </div>
+            {batch.commitError && (
+              <p className="text-xs text-red-400">
+                Nothing was committed to {batch.branch}: {batch.commitError}. The generated assets are in the vault.
+              </p>
+            )}
+            {batch.failures.length > 0 && (
+              <div className="space-y-1 rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] p-3 text-xs">
+                {batch.failures.map((f) => (
+                  <div key={f.jobId}>
+                    <span className="font-medium">{shotLabel(f.shotId)} {f.field}</span>
+                    <span className="text-[var(--text-secondary)]"> — {f.status}: {f.message} (refunded)</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {batch.skippedShotIds.length > 0 && (
+              <p className="text-xs text-[var(--text-secondary)]">
+                {batch.skippedShotIds.length} shot(s) were removed from the branch before the commit; their assets are in the vault.
+              </p>
+            )}
+            <div className="flex justify-end">
+              <button onClick={onClose} className="rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)]">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 space-y-2 overflow-y-auto">
+              {shots.map((shot, i) => (
+                <div key={shot.shot_id} className="grid grid-cols-[4rem_1fr_1fr] items-start gap-2">
+                  <span className="pt-2 text-xs text-[var(--text-secondary)]">Shot {i + 1}</span>
+                  <textarea
+                    value={prompts[shot.shot_id] || ''}
+                    onChange={(e) => setPrompts((prev) => ({ ...prev, [shot.shot_id]: e.target.value }))}
+                    placeholder="Visual prompt"
+                    rows={2}
+                    disabled={running}
+                    className="resize-none rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                  />
+                  <textarea
+                    value={texts[shot.shot_id] || ''}
+                    onChange={(e) => setTexts((prev) => ({ ...prev, [shot.shot_id]: e.target.value }))}
+                    placeholder="Dialogue"
+                    rows={2}
+                    disabled={running}
+                    className="resize-none rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-xs text-[var(--text-secondary)]">
+              <select
+                value={visual}
+                onChange={(e) => setVisual(e.target.value as 'video' | 'image')}
+                disabled={running}
+                className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-2 py-1.5 outline-none"
+              >
+                <option value="video">Video clips</option>
+                <option value="image">Still images</option>
+              </select>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={autoCommit}
+                  onChange={(e) => setAutoCommit(e.target.checked)}
+                  disabled={running}
+                  className="accent-[var(--accent)]"
+                />
+                Commit results to {branch}
+              </label>
+              <span className="ml-auto">{cost} credits</span>
+            </div>
+
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button onClick={onClose} className="rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)]">
+                {running ? 'Hide' : 'Cancel'}
+              </button>
+              <button
+                onClick={handleGenerate}
+                disabled={submitting || entries.length === 0}
+                className="flex items-center gap-2 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+              >
+                {submitting && <Loader2 size={14} className="animate-spin" />}
+                {running ? `${done}/${total} jobs done` : `Generate ${entries.length} shot${entries.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Branch } from '@phork/shared';
+import { isValidBranchName } from '@phork/shared';
+import { api } from '@/lib/api';
+import { GitBranch, Plus, Pencil, Trash2, Star } from 'lucide-react';
+
+interface BranchSwitcherProps {
+  projectId: string;
+  currentBranch: string;
+  onSwitch: (branch: string) => void;
+}
+
+export function BranchSwitcher({ projectId, currentBranch, onSwitch }: BranchSwitcherProps) {
+  const [branches, setBranches] = useState<Branch[]>([]);
+
+  const loadBranches = async () => {
+    try {
+      const res = await api.get(`/projects/${projectId}/branches`);
+      setBranches(res.data || []);
+    } catch (err) {
+      console.error('Failed to load branches:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadBranches();
+  }, [projectId, currentBranch]);
+
+  const askForName = (message: string, initial = ''): string | null => {
+    const name = prompt(message, initial)?.trim();
+    if (!name) return null;
+    if (!isValidBranchName(name)) {
+      alert('Branch names may contain letters, digits, ".", "_" and "-"');
+      return null;
+    }
+    return name;
+  };
+
+  const createBranch = async () => {
+    const name = askForName(`New branch from "${currentBranch}":`);
+    if (!name) return;
+    try {
+      await api.post(`/projects/${projectId}/branches`, { name, fromBranch: currentBranch });
+      onSwitch(name);
+    } catch (err: any) {
+      alert(err.message || 'Failed to create branch');
+    }
+  };
+
+  const renameBranch = async () => {
+    const name = askForName(`Rename "${currentBranch}" to:`, currentBranch);
+    if (!name || name === currentBranch) return;
+    try {
+      await api.patch(`/projects/${projectId}/branches/${encodeURIComponent(currentBranch)}`, { name });
+      onSwitch(name);
+    } catch (err: any) {
+      alert(err.message || 'Failed to rename branch');
+    }
+  };
+
+  const deleteBranch = async () => {
+    if (!confirm(`Delete branch "${currentBranch}"? Its commits stay in the project history.`)) return;
+    try {
+      await api.delete(`/projects/${projectId}/branches/${encodeURIComponent(currentBranch)}`);
+      onSwitch(branches.find((b) => b.isDefault)?.name || '');
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete branch');
+    }
+  };
+
+  const makeDefault = async () => {
+    try {
+      await api.put(`/projects/${projectId}/default-branch`, { name: currentBranch });
+      loadBranches();
+    } catch (err: any) {
+      alert(err.message || 'Failed to set default branch');
+    }
+  };
+
+  const isDefault = branches.find((b) => b.name === currentBranch)?.isDefault ?? true;
+
+  return (
+    <div className="flex items-center gap-1">
+      <GitBranch size={14} className="text-[var(--text-secondary)]" />
+      <select
+        value={currentBranch}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-2 py-1 text-xs outline-none"
+        title="Switch branch"
+      >
+        {branches.map((b) => (
+          <option key={b.id} value={b.name}>{b.name}{b.isDefault ? ' (default)' : ''}</option>
+        ))}
+      </select>
+      <button onClick={createBranch} className="rounded p-1 hover:bg-[var(--bg-tertiary)]" title="New branch">
+        <Plus size={14} />
+      </button>
+      <button onClick={renameBranch} className="rounded p-1 hover:bg-[var(--bg-tertiary)]" title="Rename branch">
+        <Pencil size={12} />
+      </button>
+      {!isDefault && (
+        <>
+          <button onClick={makeDefault} className="rounded p-1 hover:bg-[var(--bg-tertiary)]" title="Make default branch">
+            <Star size={12} />
+          </button>
+          <button onClick={deleteBranch} className="rounded p-1 text-red-400 hover:bg-[var(--bg-tertiary)]" title="Delete branch">
+            <Trash2 size={12} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import type { MergeConflict, MergeResolution, SnapshotDiff } from '@phork/shared';
+import { conflictKey } from '@phork/shared';
+import { AlertTriangle } from 'lucide-react';
+
+interface ConflictListProps {
+  conflicts: MergeConflict[];
+  /** Diff of the merge preview, used to label shots by position */
+  diff: SnapshotDiff | null;
+  /** What the incoming side is called, e.g. "fork" or "upstream" */
+  sourceLabel: string;
+  resolutions: Record<string, MergeResolution>;
+  /** Omit to show conflicts read-only */
+  onResolve?: (key: string, side: MergeResolution) => void;
+  /** Option labels for the two sides */
+  choiceLabels?: Record<MergeResolution, string>;
+}
+
+function conflictTitle(conflict: MergeConflict, diff: SnapshotDiff | null): string {
+  if (conflict.target === 'order') return 'Shot order';
+  if (conflict.target === 'clip') return `${conflict.track} clip ${conflict.id.slice(0, 8)}`;
+  const shot = diff?.shots.find((s) => s.shot_id === conflict.id);
+  const index = shot?.to_index ?? shot?.from_index;
+  return index !== undefined && index !== null ? `Shot ${index + 1}` : `Shot ${conflict.id.slice(0, 8)}`;
+}
+
+function conflictDescription(conflict: MergeConflict, sourceLabel: string): string {
+  switch (conflict.type) {
+    case 'both_modified': return 'changed on both sides';
+    case 'both_added': return 'added differently on both sides';
+    case 'modify_delete': return `changed here, deleted in ${sourceLabel}`;
+    case 'delete_modify': return `deleted here, changed in ${sourceLabel}`;
+    case 'both_reordered': return 'shots reordered on both sides';
+  }
+}
+
+export function ConflictList({ conflicts, diff, sourceLabel, resolutions, onResolve, choiceLabels }: ConflictListProps) {
+  if (conflicts.length === 0) return null;
+  const labels = choiceLabels || { target: 'Keep ours', source: `Take ${sourceLabel}'s` };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-yellow-500/40 bg-yellow-500/5 p-3">
+      <div className="flex items-center gap-1.5 text-sm font-medium text-yellow-400">
+        <AlertTriangle size={14} /> {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+      </div>
+      {conflicts.map((conflict) => {
+        const key = conflictKey(conflict);
+        return (
+          <div key={key} className="flex items-center justify-between gap-2 text-sm">
+            <div>
+              <span className="font-medium">{conflictTitle(conflict, diff)}</span>{' '}
+              <span className="text-xs text-[var(--text-secondary)]">
+                {conflictDescription(conflict, sourceLabel)}
+                {conflict.target !== 'order' && conflict.fields.length > 0 && ` (${conflict.fields.join(', ')})`}
+              </span>
+            </div>
+            {onResolve && (
+              <select
+                value={resolutions[key] || ''}
+                onChange={(e) => onResolve(key, e.target.value as MergeResolution)}
+                className="rounded border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-2 py-1 text-xs outline-none"
+              >
+                <option value="" disabled>Choose...</option>
+                <option value="target">{labels.target}</option>
+                <option value="source">{labels.source}</option>
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import type { FieldChange, SnapshotDiff } from '@phork/shared';
+import { ArrowUpDown } from 'lucide-react';
+
+interface DiffViewProps {
+  diff: SnapshotDiff;
+  /** Hide shots that did not change */
+  changesOnly?: boolean;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  visual_asset_id: 'Visual',
+  audio_asset_id: 'Narration',
+  asset_id: 'Asset',
+  duration_ms: 'Duration',
+  trim_in_ms: 'Trim in',
+  trim_out_ms: 'Trim out',
+  start_ms: 'Start',
+  gain_db: 'Gain',
+  fade_in_ms: 'Fade in',
+  fade_out_ms: 'Fade out',
+  subtitle: 'Subtitle',
+  transition_in: 'Transition',
+  motion: 'Motion',
+  chapter: 'Chapter',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  added: 'border-l-green-500 bg-green-500/5',
+  removed: 'border-l-red-500 bg-red-500/5',
+  modified: 'border-l-yellow-500 bg-yellow-500/5',
+  unchanged: 'border-l-transparent',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field.endsWith('_ms') && typeof value === 'number') return `${(value / 1000).toFixed(1)}s`;
+  if (field === 'gain_db' && typeof value === 'number') return `${value} dB`;
+  if (field.endsWith('asset_id') && typeof value === 'string') return value.slice(0, 8);
+  if (field === 'transition_in' && typeof value === 'object') {
+    const t = value as { type: string; duration_ms: number };
+    return `${t.type.replace(/_/g, ' ')} ${(t.duration_ms / 1000).toFixed(1)}s`;
+  }
+  if (field === 'motion') return 'keyframes';
+  return String(value);
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {changes.map((c) => (
+        <li key={c.field} className="text-xs text-[var(--text-secondary)]">
+          <span className="text-[var(--text-primary)]">{FIELD_LABELS[c.field] || c.field}:</span>{' '}
+          <span className="line-through">{formatValue(c.field, c.from)}</span> → {formatValue(c.field, c.to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function DiffView({ diff, changesOnly = false }: DiffViewProps) {
+  const shots = changesOnly ? diff.shots.filter((s) => s.status !== 'unchanged' || s.moved) : diff.shots;
+  const { summary } = diff;
+  const noChanges = summary.added + summary.removed + summary.modified + summary.moved + summary.clipsChanged === 0;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-[var(--text-secondary)]">
+        {noChanges
+          ? 'No changes'
+          : `${summary.added} added · ${summary.removed} removed · ${summary.modified} modified · ${summary.moved} moved` +
+            (summary.clipsChanged > 0 ? ` · ${summary.clipsChanged} audio clip changes` : '')}
+      </p>
+
+      {shots.map((shot) => (
+        <div key={`${shot.status}-${shot.shot_id}`} className={`rounded border-l-2 px-3 py-2 text-sm ${STATUS_STYLES[shot.status]}`}>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">
+              Shot {(shot.to_index ?? shot.from_index ?? 0) + 1}
+            </span>
+            <span className="text-xs text-[var(--text-secondary)]">{shot.status}</span>
+            {shot.moved && (
+              <span className="flex items-center gap-0.5 text-xs text-[var(--accent)]" title={`Was shot ${shot.from_index! + 1}`}>
+                <ArrowUpDown size={10} /> moved from {shot.from_index! + 1}
+              </span>
+            )}
+          </div>
+          {shot.changes.length > 0 && <ChangeList changes={shot.changes} />}
+        </div>
+      ))}
+
+      {diff.clips.map((clip) => (
+        <div key={`${clip.kind}-${clip.clip_id}`} className={`rounded border-l-2 px-3 py-2 text-sm ${STATUS_STYLES[clip.status]}`}>
+          <div className="flex items-center gap-2">
+            <span className="font-medium capitalize">{clip.kind} clip</span>
+            <span className="text-xs text-[var(--text-secondary)]">{clip.status}</span>
+          </div>
+          {clip.changes.length > 0 && <ChangeList changes={clip.changes} />}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,30 +1,56 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import type { SnapshotDiff, Tag } from '@phork/shared';
 import { api } from '@/lib/api';
+import { DiffView } from '@/components/DiffView';
+import { TagBadges } from '@/components/TagBadges';
 import { X, GitFork } from 'lucide-react';
 
 interface ForkDialogProps {
   projectId: string;
+  /** Offer fork points from this branch's history */
+  branch?: string;
+  /** Preselected fork point (defaults to the most recent commit) */
+  initialCommitId?: string;
   onClose: () => void;
   onForked: (newProjectId: string) => void;
 }
 
-export function ForkDialog({ projectId, onClose, onForked }: ForkDialogProps) {
+export function ForkDialog({ projectId, branch, initialCommitId, onClose, onForked }: ForkDialogProps) {
   const [commits, setCommits] = useState<any[]>([]);
   const [selectedCommitId, setSelectedCommitId] = useState<string | null>(null);
   const [forkName, setForkName] = useState('');
   const [loading, setLoading] = useState(false);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
 
   useEffect(() => {
-    api.get(`/projects/${projectId}/commits`).then((res) => {
+    const query = branch ? `?branch=${encodeURIComponent(branch)}` : '';
+    api.get(`/projects/${projectId}/commits${query}`).then((res) => {
       setCommits(res.data);
-      if (res.data.length > 0) {
+      if (initialCommitId && res.data.some((c: any) => c.id === initialCommitId)) {
+        setSelectedCommitId(initialCommitId);
+      } else if (res.data.length > 0) {
         setSelectedCommitId(res.data[0].id); // Default to most recent commit (head)
       }
     });
+  }, [projectId, branch, initialCommitId]);
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/tags`).then((res) => setTags(res.data)).catch(() => setTags([]));
   }, [projectId]);
 
+  // When forking from an older commit, show how it differs from the head
+  const headCommitId = commits[0]?.id;
+  useEffect(() => {
+    setDiff(null);
+    if (!selectedCommitId || !headCommitId || selectedCommitId === headCommitId) return;
+    api.get(`/projects/${projectId}/diff?from=${headCommitId}&to=${selectedCommitId}`)
+      .then(setDiff)
+      .catch(() => { /* preview only */ });
+  }, [projectId, selectedCommitId, headCommitId]);
+
   const handleFork = async () => {
     if (!selectedCommitId || !forkName.trim()) return;
     setLoading(true);
@@ -78,7 +104,8 @@ export function ForkDialog({ projectId, onClose, onForked }: ForkDialogProps) {
                   }`}
                 >
                   <div className="font-medium">{commit.message}</div>
-                  <div className="text-xs text-[var(--text-secondary)] mt-0.5">
+                  <div className="text-xs text-[var(--text-secondary)] mt-0.5 flex flex-wrap items-center gap-2">
+                    <TagBadges tags={tags} commitId={commit.id} />
                     {new Date(commit.createdAt).toLocaleString()}
                   </div>
                 </button>
@@ -86,6 +113,15 @@ export function ForkDialog({ projectId, onClose, onForked }: ForkDialogProps) {
             </div>
           </div>
 
+          {diff && (
+            <div>
+              <label className="mb-1 block text-sm text-[var(--text-secondary)]">Differences from the current head</label>
+              <div className="max-h-48 overflow-y-auto rounded-lg border border-[var(--border-color)] p-2">
+                <DiffView diff={diff} changesOnly />
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-2">
             <button
               onClick={onClose}
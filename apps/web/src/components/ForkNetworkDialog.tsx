@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { ForkNetwork, ForkNetworkNode } from '@phork/shared';
+import { api } from '@/lib/api';
+import { ForkNetworkGraph } from '@/components/ForkNetworkGraph';
+import { X, Network, ExternalLink } from 'lucide-react';
+
+interface ForkNetworkDialogProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+export function ForkNetworkDialog({ projectId, onClose }: ForkNetworkDialogProps) {
+  const router = useRouter();
+  const [network, setNetwork] = useState<ForkNetwork | null>(null);
+  const [selected, setSelected] = useState<ForkNetworkNode | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/network`)
+      .then((res: ForkNetwork) => {
+        setNetwork(res);
+        setSelected(res.nodes.find((n) => n.relation === 'self') || null);
+      })
+      .catch((err) => setError(err.message || 'Failed to load fork network'));
+  }, [projectId]);
+
+  const descendants = network?.nodes.filter((n) => n.relation === 'descendant').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex h-[75vh] w-full max-w-5xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] p-6 shadow-2xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <Network size={18} /> Fork Network
+            {network && (
+              <span className="text-sm font-normal text-[var(--text-secondary)]">
+                · {descendants} fork{descendants === 1 ? '' : 's'} downstream
+              </span>
+            )}
+          </h3>
+          <button onClick={onClose} className="rounded p-1 hover:bg-[var(--bg-tertiary)]">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!network && !error && <p className="text-sm text-[var(--text-secondary)]">Loading...</p>}
+
+        {network && (
+          <div className="flex flex-1 gap-4 overflow-hidden">
+            <div className="flex-1 overflow-auto rounded-lg border border-[var(--border-color)] bg-[var(--bg-primary)]">
+              <ForkNetworkGraph network={network} selectedId={selected?.projectId || null} onSelect={setSelected} />
+            </div>
+
+            {selected && (
+              <div className="w-64 flex-shrink-0 space-y-3 overflow-y-auto text-sm">
+                <div>
+                  <div className="font-semibold">{selected.name}</div>
+                  <div className="text-xs capitalize text-[var(--text-secondary)]">
+                    {selected.relation === 'self' ? 'This project' : selected.relation}
+                    {' · '}created {new Date(selected.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+
+                {!selected.accessible && (
+                  <p className="text-xs text-[var(--text-secondary)]">In a workspace you are not a member of.</p>
+                )}
+
+                {selected.forkPoint && (
+                  <div>
+                    <div className="text-xs text-[var(--text-secondary)]">Forked from</div>
+                    <div>{selected.forkPoint.message}</div>
+                    <div className="text-xs text-[var(--text-secondary)]">
+                      {selected.forkPoint.id.slice(0, 8)} · {new Date(selected.forkPoint.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+
+                {selected.head && (
+                  <div>
+                    <div className="text-xs text-[var(--text-secondary)]">Head</div>
+                    <div>{selected.head.message}</div>
+                    <div className="text-xs text-[var(--text-secondary)]">
+                      {selected.head.id.slice(0, 8)} · {new Date(selected.head.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="rounded-lg bg-[var(--bg-tertiary)] p-2">
+                    <div className="text-lg font-semibold">{selected.forkCount}</div>
+                    <div className="text-[var(--text-secondary)]">direct forks</div>
+                  </div>
+                  <div className="rounded-lg bg-[var(--bg-tertiary)] p-2">
+                    <div className="text-lg font-semibold">{selected.renderCount}</div>
+                    <div className="text-[var(--text-secondary)]">renders</div>
+                  </div>
+                </div>
+
+                {selected.published && (
+                  <div className="text-xs">
+                    Published{selected.published.title ? ` as "${selected.published.title}"` : ''}{' '}
+                    {new Date(selected.published.publishedAt).toLocaleDateString()}
+                  </div>
+                )}
+
+                {selected.accessible && selected.relation !== 'self' && (
+                  <button
+                    onClick={() => router.push(`/studio/${selected.projectId}`)}
+                    className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-3 py-1.5 text-sm hover:bg-[var(--bg-tertiary)]"
+                  >
+                    <ExternalLink size={14} /> Open in studio
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { ForkNetwork, ForkNetworkNode } from '@phork/shared';
+
+interface ForkNetworkGraphProps {
+  network: ForkNetwork;
+  selectedId: string | null;
+  onSelect: (node: ForkNetworkNode) => void;
+}
+
+const NODE_W = 168;
+const NODE_H = 48;
+const X_GAP = 192;
+const Y_GAP = 84;
+const PAD = 16;
+
+interface Placed {
+  node: ForkNetworkNode;
+  x: number;
+  y: number;
+}
+
+/** Tidy top-down layout: leaves get consecutive columns, parents centre over their forks */
+function layout(nodes: ForkNetworkNode[]): Placed[] {
+  const ids = new Set(nodes.map((n) => n.projectId));
+  const children = new Map<string, ForkNetworkNode[]>();
+  const roots: ForkNetworkNode[] = [];
+  for (const node of nodes) {
+    if (node.parentProjectId && ids.has(node.parentProjectId)) {
+      children.set(node.parentProjectId, [...(children.get(node.parentProjectId) || []), node]);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const placed: Placed[] = [];
+  let nextColumn = 0;
+  const place = (node: ForkNetworkNode, depth: number): number => {
+    const kids = children.get(node.projectId) || [];
+    let column: number;
+    if (kids.length === 0) {
+      column = nextColumn++;
+    } else {
+      const columns = kids.map((kid) => place(kid, depth + 1));
+      column = (columns[0] + columns[columns.length - 1]) / 2;
+    }
+    placed.push({ node, x: PAD + column * X_GAP, y: PAD + depth * Y_GAP });
+    return column;
+  };
+  for (const root of roots) place(root, 0);
+  return placed;
+}
+
+export function ForkNetworkGraph({ network, selectedId, onSelect }: ForkNetworkGraphProps) {
+  const placed = useMemo(() => layout(network.nodes), [network]);
+  const byId = new Map(placed.map((p) => [p.node.projectId, p]));
+  const width = Math.max(...placed.map((p) => p.x)) + NODE_W + PAD;
+  const height = Math.max(...placed.map((p) => p.y)) + NODE_H + PAD;
+
+  return (
+    <svg width={width} height={height} className="block">
+      {placed.map(({ node, x, y }) => {
+        const parent = node.parentProjectId ? byId.get(node.parentProjectId) : undefined;
+        if (!parent) return null;
+        const fromX = parent.x + NODE_W / 2;
+        const fromY = parent.y + NODE_H;
+        const toX = x + NODE_W / 2;
+        const midY = (fromY + y) / 2;
+        return (
+          <path
+            key={`edge-${node.projectId}`}
+            d={`M ${fromX} ${fromY} C ${fromX} ${midY}, ${toX} ${midY}, ${toX} ${y}`}
+            fill="none"
+            stroke="var(--border-color)"
+            strokeWidth={1.5}
+          />
+        );
+      })}
+      {placed.map(({ node, x, y }) => {
+        const selected = node.projectId === selectedId;
+        const isSelf = node.relation === 'self';
+        return (
+          <g
+            key={node.projectId}
+            transform={`translate(${x}, ${y})`}
+            onClick={() => onSelect(node)}
+            className="cursor-pointer"
+          >
+            <rect
+              width={NODE_W}
+              height={NODE_H}
+              rx={8}
+              fill={selected ? 'var(--bg-tertiary)' : 'var(--bg-secondary)'}
+              stroke={isSelf || selected ? 'var(--accent)' : 'var(--border-color)'}
+              strokeWidth={isSelf ? 2 : 1}
+              strokeDasharray={node.accessible ? undefined : '4 3'}
+            />
+            <text x={10} y={19} fontSize={12} fontWeight={600} fill="var(--text-primary)">
+              {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+            </text>
+            <text x={10} y={36} fontSize={10} fill="var(--text-secondary)">
+              {node.forkCount} fork{node.forkCount === 1 ? '' : 's'} · {node.renderCount} render{node.renderCount === 1 ? '' : 's'}
+              {node.published ? ' · published' : ''}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MergeConflict, MergeResolution, SnapshotDiff, Tag } from '@phork/shared';
+import { conflictKey, isValidTagName } from '@phork/shared';
+import { api, ApiRequestError } from '@/lib/api';
+import { DiffView } from '@/components/DiffView';
+import { TagBadges } from '@/components/TagBadges';
+import { X, History, RotateCcw, Undo2, GitFork, Tag as TagIcon } from 'lucide-react';
+
+interface HistoryDialogProps {
+  projectId: string;
+  branch: string;
+  headCommitId: string;
+  onClose: () => void;
+  onRestored: () => void;
+  onFork: (commitId: string) => void;
+}
+
+type CompareMode = 'head' | 'parent';
+
+export function HistoryDialog({ projectId, branch, headCommitId, onClose, onRestored, onFork }: HistoryDialogProps) {
+  const [commits, setCommits] = useState<any[]>([]);
+  const [selected, setSelected] = useState<any | null>(null);
+  const [compare, setCompare] = useState<CompareMode>('head');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/commits?branch=${encodeURIComponent(branch)}`).then((res) => {
+      setCommits(res.data);
+      // Most recent commit other than the head is the usual restore target
+      setSelected(res.data.find((c: any) => c.id !== headCommitId) || res.data[0] || null);
+    });
+  }, [projectId, branch, headCommitId]);
+
+  const loadTags = () => {
+    api.get(`/projects/${projectId}/tags`).then((res) => setTags(res.data)).catch(() => setTags([]));
+  };
+  useEffect(loadTags, [projectId]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setDiff(null);
+    // "head": what restoring would change; "parent": what the commit itself changed
+    const query = compare === 'head' ? `from=${headCommitId}&to=${selected.id}` : `to=${selected.id}`;
+    api.get(`/projects/${projectId}/diff?${query}`)
+      .then(setDiff)
+      .catch((err) => console.error('Failed to load diff:', err));
+  }, [projectId, selected, compare, headCommitId]);
+
+  const restore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await api.post(`/projects/${projectId}/commits`, {
+        branch,
+        message: `Restore "${selected.message}" (${selected.id.slice(0, 8)})`,
+        snapshot: selected.snapshot,
+        expectedHeadCommitId: headCommitId,
+      });
+      onRestored();
+    } catch (err: any) {
+      alert(err.message || 'Restore failed');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const revert = async (resolutions?: Record<string, MergeResolution>) => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await api.post(`/projects/${projectId}/commits/${selected.id}/revert`, {
+        branch,
+        expectedHeadCommitId: headCommitId,
+        resolutions,
+      });
+      onRestored();
+    } catch (err: any) {
+      const conflicts: MergeConflict[] | undefined = err instanceof ApiRequestError ? err.data?.conflicts : undefined;
+      if (!resolutions && conflicts?.length) {
+        // Later commits touched the same shots: offer to keep those edits and revert the rest
+        if (confirm(`${conflicts.length} shot(s) changed again after this commit. Keep the later edits and revert everything else?`)) {
+          setRestoring(false);
+          return revert(Object.fromEntries(conflicts.map((c) => [conflictKey(c), 'target' as MergeResolution])));
+        }
+      } else {
+        alert(err.message || 'Revert failed');
+      }
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const addTag = async () => {
+    if (!selected) return;
+    const name = prompt('Tag name (letters, digits, ".", "_" and "-")')?.trim();
+    if (!name) return;
+    if (!isValidTagName(name)) {
+      alert('Invalid tag name');
+      return;
+    }
+    try {
+      await api.post(`/projects/${projectId}/tags`, { name, commitId: selected.id });
+      loadTags();
+    } catch (err: any) {
+      alert(err.message || 'Failed to create tag');
+    }
+  };
+
+  const isHead = selected?.id === headCommitId;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex h-[70vh] w-full max-w-4xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] p-6 shadow-2xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <History size={18} /> History · {branch}
+          </h3>
+          <button onClick={onClose} className="rounded p-1 hover:bg-[var(--bg-tertiary)]">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 gap-4 overflow-hidden">
+          {/* Commit list */}
+          <div className="w-64 flex-shrink-0 overflow-y-auto rounded-lg border border-[var(--border-color)]">
+            {commits.map((commit) => (
+              <button
+                key={commit.id}
+                onClick={() => setSelected(commit)}
+                className={`w-full border-b border-[var(--border-color)] p-3 text-left text-sm last:border-b-0 ${
+                  selected?.id === commit.id ? 'bg-[var(--accent)]/10' : 'hover:bg-[var(--bg-tertiary)]'
+                }`}
+              >
+                <div className="font-medium">{commit.message}</div>
+                <div className="mt-0.5 text-xs text-[var(--text-secondary)]">
+                  {commit.id === headCommitId && <span className="mr-1 text-[var(--accent)]">HEAD</span>}
+                  {new Date(commit.createdAt).toLocaleString()}
+                </div>
+                <div className="mt-1 text-xs">
+                  <TagBadges tags={tags} commitId={commit.id} />
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <div className="mb-2 flex items-center gap-2 text-xs">
+              <span className="text-[var(--text-secondary)]">Compare with</span>
+              <select
+                value={compare}
+                onChange={(e) => setCompare(e.target.value as CompareMode)}
+                className="rounded border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-2 py-1 outline-none"
+              >
+                <option value="head">current head (changes if restored)</option>
+                <option value="parent">its parent (what this commit changed)</option>
+              </select>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {diff ? <DiffView diff={diff} changesOnly /> : <p className="text-sm text-[var(--text-secondary)]">Loading diff...</p>}
+            </div>
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                onClick={addTag}
+                disabled={!selected}
+                className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+              >
+                <TagIcon size={14} /> Tag
+              </button>
+              <button
+                onClick={() => selected && onFork(selected.id)}
+                disabled={!selected}
+                className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+              >
+                <GitFork size={14} /> Fork from here
+              </button>
+              <button
+                onClick={() => revert()}
+                disabled={!selected || !selected.parentCommitId || restoring}
+                title="New commit that undoes only this commit's changes"
+                className="flex items-center gap-1.5 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+              >
+                <Undo2 size={14} /> Revert
+              </button>
+              <button
+                onClick={restore}
+                disabled={!selected || isHead || restoring}
+                className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+              >
+                <RotateCcw size={14} /> {restoring ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
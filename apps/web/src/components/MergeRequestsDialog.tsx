@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MergeConflict, MergeResolution } from '@phork/shared';
+import { conflictKey } from '@phork/shared';
+import { api } from '@/lib/api';
+import { DiffView } from '@/components/DiffView';
+import { ConflictList } from '@/components/ConflictList';
+import { X, GitPullRequest, GitMerge } from 'lucide-react';
+
+interface MergeRequestsDialogProps {
+  projectId: string;
+  /** Set for forks: the branch a new merge request proposes */
+  proposeBranch?: string;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+export function MergeRequestsDialog({ projectId, proposeBranch, onClose, onMerged }: MergeRequestsDialogProps) {
+  const [requests, setRequests] = useState<any[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<any | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadRequests = async (select?: string) => {
+    const res = await api.get(`/projects/${projectId}/merge-requests`);
+    setRequests(res.data);
+    const next = select || res.data.find((mr: any) => mr.status === 'open')?.id || res.data[0]?.id || null;
+    setSelectedId(next);
+    if (!next && proposeBranch) setCreating(true);
+  };
+
+  useEffect(() => {
+    loadRequests().catch((err) => console.error('Failed to load merge requests:', err));
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    setDetail(null);
+    setResolutions({});
+    api.get(`/projects/${projectId}/merge-requests/${selectedId}`)
+      .then(setDetail)
+      .catch((err) => console.error('Failed to load merge request:', err));
+  }, [projectId, selectedId]);
+
+  const propose = async () => {
+    if (!title.trim()) return;
+    setBusy(true);
+    try {
+      const mr = await api.post(`/projects/${projectId}/merge-requests`, {
+        title: title.trim(),
+        description: description.trim() || undefined,
+        branch: proposeBranch,
+      });
+      setCreating(false);
+      setTitle('');
+      setDescription('');
+      await loadRequests(mr.id);
+    } catch (err: any) {
+      alert(err.message || 'Failed to open merge request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async () => {
+    if (!detail) return;
+    setBusy(true);
+    try {
+      await api.post(`/projects/${projectId}/merge-requests/${detail.id}/merge`, { resolutions });
+      onMerged();
+    } catch (err: any) {
+      alert(err.message || 'Merge failed');
+      setBusy(false);
+    }
+  };
+
+  const close = async () => {
+    if (!detail || !confirm('Close this merge request without merging?')) return;
+    setBusy(true);
+    try {
+      await api.post(`/projects/${projectId}/merge-requests/${detail.id}/close`, {});
+      await loadRequests(detail.id);
+    } catch (err: any) {
+      alert(err.message || 'Failed to close');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const summary = requests.find((mr) => mr.id === selectedId);
+  const incoming = summary?.direction === 'incoming';
+  const conflicts: MergeConflict[] = detail?.preview?.conflicts || [];
+  const unresolved = conflicts.filter((c) => !resolutions[conflictKey(c)]).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex h-[70vh] w-full max-w-4xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] p-6 shadow-2xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <GitPullRequest size={18} /> Merge Requests
+          </h3>
+          <button onClick={onClose} className="rounded p-1 hover:bg-[var(--bg-tertiary)]">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 gap-4 overflow-hidden">
+          {/* Request list */}
+          <div className="flex w-64 flex-shrink-0 flex-col overflow-hidden rounded-lg border border-[var(--border-color)]">
+            <div className="flex-1 overflow-y-auto">
+              {requests.length === 0 && (
+                <p className="p-3 text-sm text-[var(--text-secondary)]">No merge requests yet</p>
+              )}
+              {requests.map((mr) => (
+                <button
+                  key={mr.id}
+                  onClick={() => { setCreating(false); setSelectedId(mr.id); }}
+                  className={`w-full border-b border-[var(--border-color)] p-3 text-left text-sm last:border-b-0 ${
+                    !creating && selectedId === mr.id ? 'bg-[var(--accent)]/10' : 'hover:bg-[var(--bg-tertiary)]'
+                  }`}
+                >
+                  <div className="font-medium">{mr.title}</div>
+                  <div className="mt-0.5 text-xs text-[var(--text-secondary)]">
+                    {mr.status} · {mr.direction === 'incoming' ? `from ${mr.sourceProjectName}` : `to ${mr.targetProjectName}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+            {proposeBranch && (
+              <button
+                onClick={() => setCreating(true)}
+                className="border-t border-[var(--border-color)] p-2 text-sm text-[var(--accent)] hover:bg-[var(--bg-tertiary)]"
+              >
+                + Propose {proposeBranch} upstream
+              </button>
+            )}
+          </div>
+
+          {/* Detail */}
+          <div className="flex flex-1 flex-col overflow-hidden">
+            {creating ? (
+              <div className="space-y-3">
+                <p className="text-sm text-[var(--text-secondary)]">
+                  Propose the head of <span className="text-[var(--text-primary)]">{proposeBranch}</span> to the parent project.
+                </p>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Title"
+                  className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                />
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  rows={4}
+                  className="w-full resize-none rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                />
+                <div className="flex justify-end">
+                  <button
+                    onClick={propose}
+                    disabled={busy || !title.trim()}
+                    className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+                  >
+                    <GitPullRequest size={14} /> {busy ? 'Opening...' : 'Open merge request'}
+                  </button>
+                </div>
+              </div>
+            ) : !detail ? (
+              <p className="text-sm text-[var(--text-secondary)]">{selectedId ? 'Loading...' : ''}</p>
+            ) : (
+              <>
+                <div className="mb-2">
+                  <div className="font-medium">{detail.title}</div>
+                  <div className="text-xs text-[var(--text-secondary)]">
+                    into {summary?.targetProjectName} / {detail.targetBranch} · {detail.status}
+                  </div>
+                  {detail.description && <p className="mt-1 text-sm text-[var(--text-secondary)]">{detail.description}</p>}
+                </div>
+
+                <div className="flex-1 space-y-3 overflow-y-auto">
+                  {detail.status !== 'open' && (
+                    <p className="text-sm text-[var(--text-secondary)]">
+                      {detail.status === 'merged' ? `Merged as ${detail.mergeCommitId?.slice(0, 8)}` : 'Closed without merging'}
+                    </p>
+                  )}
+                  {detail.message && <p className="text-sm text-red-400">{detail.message}</p>}
+
+                  <ConflictList
+                    conflicts={conflicts}
+                    diff={detail.preview?.diff || null}
+                    sourceLabel="fork"
+                    resolutions={resolutions}
+                    onResolve={incoming ? (key, side) => setResolutions({ ...resolutions, [key]: side }) : undefined}
+                  />
+
+                  {detail.preview && (
+                    <div>
+                      <p className="mb-1 text-xs text-[var(--text-secondary)]">Changes to {detail.targetBranch} if merged</p>
+                      <DiffView diff={detail.preview.diff} changesOnly />
+                    </div>
+                  )}
+                </div>
+
+                {detail.status === 'open' && (
+                  <div className="flex justify-end gap-3 pt-4">
+                    <button
+                      onClick={close}
+                      disabled={busy}
+                      className="rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+                    >
+                      Close
+                    </button>
+                    {incoming && (
+                      <button
+                        onClick={merge}
+                        disabled={busy || !detail.preview || unresolved > 0}
+                        title={unresolved > 0 ? 'Resolve all conflicts first' : undefined}
+                        className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+                      >
+                        <GitMerge size={14} /> {busy ? 'Merging...' : 'Merge'}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
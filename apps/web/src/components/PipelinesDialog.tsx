@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Workflow, RefreshCw } from 'lucide-react';
+import type { Pipeline, PipelineStepStatus } from '@phork/shared';
+import { api } from '@/lib/api';
+
+interface PipelinesDialogProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<PipelineStepStatus | Pipeline['status'], string> = {
+  pending: 'text-[var(--text-secondary)]',
+  queued: 'text-[var(--text-secondary)]',
+  running: 'text-[var(--accent)]',
+  succeeded: 'text-[var(--success)]',
+  blocked: 'text-red-400',
+  failed: 'text-red-400',
+  cancelled: 'text-yellow-400',
+  skipped: 'text-yellow-400',
+};
+
+/** Outputs worth showing at a glance; IDs are shortened */
+function describeOutput(output: Record<string, unknown> | null) {
+  if (!output) return '';
+  return Object.entries(output)
+    .filter(([key, value]) => typeof value === 'string' && ['assetId', 'commitId', 'publishedRenderId', 'branch'].includes(key))
+    .map(([key, value]) => `${key} ${key === 'branch' ? value : (value as string).slice(0, 8)}`)
+    .join(' · ');
+}
+
+export function PipelinesDialog({ projectId, onClose }: PipelinesDialogProps) {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadPipelines = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await api.get(`/pipelines?projectId=${projectId}`);
+      setPipelines(res.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load pipelines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPipelines();
+  }, [projectId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-primary)] p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Workflow size={18} className="text-[var(--accent)]" />
+            <h2 className="text-lg font-semibold">Pipelines</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={loadPipelines} disabled={loading} className="rounded-lg p-1.5 hover:bg-[var(--bg-tertiary)] disabled:opacity-50" title="Refresh">
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            </button>
+            <button onClick={onClose} className="rounded-lg p-1.5 hover:bg-[var(--bg-tertiary)]">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto">
+          {!loading && pipelines.length === 0 && (
+            <p className="text-sm text-[var(--text-secondary)]">
+              No pipelines yet. Start one with <code>POST /pipelines</code>.
+            </p>
+          )}
+          {pipelines.map((pipeline) => (
+            <div key={pipeline.id} className="rounded-lg border border-[var(--border-color)] p-3">
+              <div className="mb-2 flex items-center justify-between text-sm">
+                <span className="font-medium">{pipeline.name || 'Untitled pipeline'}</span>
+                <span className={`text-xs ${STATUS_COLORS[pipeline.status]}`}>{pipeline.status}</span>
+              </div>
+              <div className="space-y-1 text-xs">
+                {pipeline.steps.map((step) => (
+                  <div key={step.id} className="flex items-start gap-2" style={{ paddingLeft: step.level * 12 }}>
+                    <span className="font-mono">{step.id}</span>
+                    <span className="text-[var(--text-secondary)]">{step.type}</span>
+                    <span className={STATUS_COLORS[step.status]}>{step.status}</span>
+                    <span className="flex-1 truncate text-[var(--text-secondary)]">
+                      {step.error?.message || describeOutput(step.output)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-[var(--text-secondary)]">
+                Started {new Date(pipeline.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
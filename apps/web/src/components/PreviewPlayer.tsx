@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import type { ShotSnapshot } from '@phork/shared';
+import { timelineDurationMs } from '@phork/shared';
 import { Play, Film } from 'lucide-react';
 
 interface PreviewPlayerProps {
@@ -11,7 +12,7 @@ interface PreviewPlayerProps {
 }
 
 export function PreviewPlayer({ shots, renderAssetId, renderDownloadUrl }: PreviewPlayerProps) {
-  const totalDuration = shots.reduce((sum, s) => sum + s.duration_ms, 0);
+  const totalDuration = timelineDurationMs(shots);
 
   return (
     <div className="flex flex-1 flex-col items-center justify-center bg-black/50 p-8">
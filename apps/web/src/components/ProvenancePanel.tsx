@@ -1,18 +1,31 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { ShotSnapshot } from '@phork/shared';
+import type { BlameEntry, ShotBlame, ShotSnapshot, SnapshotBlame } from '@phork/shared';
+import { SHOT_DIFF_FIELDS } from '@phork/shared';
 import { api } from '@/lib/api';
 import { X } from 'lucide-react';
 
 interface ProvenancePanelProps {
   shot: ShotSnapshot;
+  projectId: string;
+  /** Saved commit to attribute changes against (the loaded branch head) */
+  commitId?: string;
   onClose: () => void;
 }
 
-export function ProvenancePanel({ shot, onClose }: ProvenancePanelProps) {
+function BlameLine({ entry }: { entry: BlameEntry }) {
+  return (
+    <span title={`${entry.message} (${entry.commitId.slice(0, 8)})`}>
+      {entry.authorName || 'Unknown'} · {new Date(entry.createdAt).toLocaleString()}
+    </span>
+  );
+}
+
+export function ProvenancePanel({ shot, projectId, commitId, onClose }: ProvenancePanelProps) {
   const [visualProvenance, setVisualProvenance] = useState<any>(null);
   const [audioProvenance, setAudioProvenance] = useState<any>(null);
+  const [blame, setBlame] = useState<SnapshotBlame | null>(null);
 
   useEffect(() => {
     if (shot.visual_asset_id) {
@@ -23,6 +36,13 @@ export function ProvenancePanel({ shot, onClose }: ProvenancePanelProps) {
     }
   }, [shot]);
 
+  useEffect(() => {
+    if (!commitId) return;
+    api.get(`/projects/${projectId}/blame?commitId=${commitId}`).then(setBlame).catch(() => setBlame(null));
+  }, [projectId, commitId]);
+
+  const shotBlame: ShotBlame | undefined = blame?.shots.find((s) => s.shot_id === shot.shot_id);
+
   return (
     <div className="absolute right-0 top-0 z-10 h-full w-96 overflow-y-auto border-l border-[var(--border-color)] bg-[var(--bg-secondary)] p-4 shadow-xl">
       <div className="flex items-center justify-between mb-4">
@@ -35,6 +55,11 @@ export function ProvenancePanel({ shot, onClose }: ProvenancePanelProps) {
       {shot.visual_asset_id && visualProvenance && (
         <div className="mb-4">
           <h4 className="text-xs font-medium text-[var(--accent)] mb-2">Visual Asset</h4>
+          {shotBlame && (
+            <p className="mb-2 text-xs text-[var(--text-secondary)]">
+              Swapped in by <BlameLine entry={shotBlame.fields.visual_asset_id} />
+            </p>
+          )}
           <pre className="rounded-lg bg-[var(--bg-tertiary)] p-3 text-xs overflow-x-auto whitespace-pre-wrap">
             {JSON.stringify(visualProvenance, null, 2)}
           </pre>
@@ -44,6 +69,11 @@ export function ProvenancePanel({ shot, onClose }: ProvenancePanelProps) {
       {shot.audio_asset_id && audioProvenance && (
         <div className="mb-4">
           <h4 className="text-xs font-medium text-[var(--accent)] mb-2">Audio Asset</h4>
+          {shotBlame && (
+            <p className="mb-2 text-xs text-[var(--text-secondary)]">
+              Swapped in by <BlameLine entry={shotBlame.fields.audio_asset_id} />
+            </p>
+          )}
           <pre className="rounded-lg bg-[var(--bg-tertiary)] p-3 text-xs overflow-x-auto whitespace-pre-wrap">
             {JSON.stringify(audioProvenance, null, 2)}
           </pre>
@@ -53,6 +83,30 @@ export function ProvenancePanel({ shot, onClose }: ProvenancePanelProps) {
       {!shot.visual_asset_id && !shot.audio_asset_id && (
         <p className="text-sm text-[var(--text-secondary)]">No assets generated for this shot yet.</p>
       )}
+
+      <div className="mt-4">
+        <h4 className="text-xs font-medium text-[var(--accent)] mb-2">Shot History</h4>
+        {shotBlame ? (
+          <>
+            <p className="mb-2 text-xs">
+              Last changed by <BlameLine entry={shotBlame.lastChange} />
+              <span className="block text-[var(--text-secondary)]">{shotBlame.lastChange.message}</span>
+            </p>
+            <table className="w-full text-xs">
+              <tbody>
+                {SHOT_DIFF_FIELDS.map((field) => shotBlame.fields[field] && (
+                  <tr key={field} className="border-t border-[var(--border-color)]">
+                    <td className="py-1 pr-2 font-mono text-[var(--text-secondary)]">{field}</td>
+                    <td className="py-1"><BlameLine entry={shotBlame.fields[field]} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <p className="text-xs text-[var(--text-secondary)]">{blame ? 'Not saved in a commit yet.' : 'Loading...'}</p>
+        )}
+      </div>
     </div>
   );
 }
@@ -1,8 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { Tag } from '@phork/shared';
 import { X, Globe, Link } from 'lucide-react';
 import { api } from '@/lib/api';
+import { TagBadges } from '@/components/TagBadges';
 
 interface PublishDialogProps {
   projectId: string;
@@ -19,6 +21,11 @@ export function PublishDialog({ projectId, renderAssetId, commitId, projectName,
   const [enableShareLink, setEnableShareLink] = useState(false);
   const [publishing, setPublishing] = useState(false);
   const [error, setError] = useState('');
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/tags`).then((res) => setTags(res.data)).catch(() => setTags([]));
+  }, [projectId]);
 
   const handlePublish = async () => {
     setPublishing(true);
@@ -54,6 +61,11 @@ export function PublishDialog({ projectId, renderAssetId, commitId, projectName,
         </div>
 
         <div className="space-y-4">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-[var(--text-secondary)]">Commit</span>
+            <TagBadges tags={tags} commitId={commitId} />
+          </div>
+
           <div>
             <label className="mb-1 block text-sm text-[var(--text-secondary)]">Title</label>
             <input
@@ -0,0 +1,126 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { MergeResolution, TimelineSnapshot } from '@phork/shared';
+import { conflictKey, diffSnapshots, mergeSnapshots, upgradeSnapshot } from '@phork/shared';
+import { api, ApiRequestError } from '@/lib/api';
+import { DiffView } from '@/components/DiffView';
+import { ConflictList } from '@/components/ConflictList';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+
+interface SaveConflictDialogProps {
+  projectId: string;
+  branch: string;
+  message: string;
+  /** Snapshot of the head the edits started from */
+  baseSnapshot: unknown;
+  /** The unsaved edits */
+  localSnapshot: TimelineSnapshot;
+  /** The newer branch head returned with the 409 */
+  currentHead: any;
+  /** Called with the commit that was saved */
+  onSaved: (commit: any) => void;
+  /** Drop the edits and load the newer head */
+  onDiscard: (head: any) => void;
+  onClose: () => void;
+}
+
+export function SaveConflictDialog({
+  projectId, branch, message, baseSnapshot, localSnapshot, currentHead: initialHead, onSaved, onDiscard, onClose,
+}: SaveConflictDialogProps) {
+  const [currentHead, setCurrentHead] = useState(initialHead);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [saving, setSaving] = useState(false);
+
+  const headSnapshot = useMemo(() => upgradeSnapshot(currentHead.snapshot), [currentHead]);
+  // Rebase: replay the local edits (source) onto the newer head (target)
+  const rebase = useMemo(
+    () => mergeSnapshots(upgradeSnapshot(baseSnapshot), headSnapshot, localSnapshot, resolutions),
+    [baseSnapshot, headSnapshot, localSnapshot, resolutions],
+  );
+  const conflicts = useMemo(
+    () => mergeSnapshots(upgradeSnapshot(baseSnapshot), headSnapshot, localSnapshot).conflicts,
+    [baseSnapshot, headSnapshot, localSnapshot],
+  );
+  const diff = useMemo(() => diffSnapshots(headSnapshot, localSnapshot), [headSnapshot, localSnapshot]);
+  const unresolved = conflicts.filter((c) => !resolutions[conflictKey(c)]).length;
+
+  const save = async (snapshot: TimelineSnapshot) => {
+    setSaving(true);
+    try {
+      const commit = await api.post(`/projects/${projectId}/commits`, {
+        branch,
+        message,
+        snapshot,
+        expectedHeadCommitId: currentHead.id,
+      });
+      onSaved(commit);
+    } catch (err: any) {
+      if (err instanceof ApiRequestError && err.status === 409 && err.data?.currentHead) {
+        // Moved again while deciding: start over against the newest head
+        setCurrentHead(err.data.currentHead);
+        setResolutions({});
+      } else {
+        alert(err.message || 'Failed to save');
+      }
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex max-h-[75vh] w-full max-w-2xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] p-6 shadow-2xl">
+        <h3 className="mb-2 flex items-center gap-2 text-lg font-semibold">
+          <AlertTriangle size={18} className="text-yellow-400" /> {branch} changed while you were editing
+        </h3>
+        <p className="mb-4 text-sm text-[var(--text-secondary)]">
+          Newer commit: <span className="text-[var(--text-primary)]">{currentHead.message}</span>{' '}
+          ({new Date(currentHead.createdAt).toLocaleString()}). Your edits were not saved.
+        </p>
+
+        <div className="flex-1 space-y-3 overflow-y-auto">
+          <ConflictList
+            conflicts={conflicts}
+            diff={diff}
+            sourceLabel="your edits"
+            resolutions={resolutions}
+            onResolve={(key, side) => setResolutions({ ...resolutions, [key]: side })}
+            choiceLabels={{ target: 'Keep theirs', source: 'Keep mine' }}
+          />
+          <div>
+            <p className="mb-1 text-xs text-[var(--text-secondary)]">Your edits compared with the newer commit</p>
+            <DiffView diff={diff} changesOnly />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4">
+          <button onClick={onClose} className="rounded-lg px-4 py-2 text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)]">
+            Keep editing
+          </button>
+          <button
+            onClick={() => onDiscard(currentHead)}
+            disabled={saving}
+            className="rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+          >
+            Discard mine
+          </button>
+          <button
+            onClick={() => confirm('Replace the newer commit\'s changes with your version?') && save(localSnapshot)}
+            disabled={saving}
+            className="rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+          >
+            Overwrite
+          </button>
+          <button
+            onClick={() => save(rebase.snapshot)}
+            disabled={saving || unresolved > 0}
+            title={unresolved > 0 ? 'Resolve all conflicts first' : 'Apply your edits on top of the newer commit'}
+            className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+          >
+            <GitMerge size={14} /> {saving ? 'Saving...' : 'Rebase & save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
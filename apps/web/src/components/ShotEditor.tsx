@@ -1,9 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-import type { ShotSnapshot } from '@phork/shared';
+import type { MotionKeyframe, ShotSnapshot, TransitionType } from '@phork/shared';
+import { TRANSITION_TYPES } from '@phork/shared';
 import { api } from '@/lib/api';
-import { Wand2, Volume2, Loader2 } from 'lucide-react';
+import { watchJob } from '@/lib/jobs';
+import { Wand2, Volume2, Loader2, Image as ImageIcon, XCircle } from 'lucide-react';
 
 interface ShotEditorProps {
   shot: ShotSnapshot;
@@ -14,11 +16,41 @@ interface ShotEditorProps {
   onCreditsChange: () => void;
 }
 
+type MotionPreset = 'zoom_in' | 'zoom_out' | 'pan_left' | 'pan_right';
+
+// Start/end keyframes for each Ken Burns preset, stretched over the shot
+const MOTION_PRESETS: Record<MotionPreset, [Omit<MotionKeyframe, 'at_ms'>, Omit<MotionKeyframe, 'at_ms'>]> = {
+  zoom_in: [{ zoom: 1, x: 0.5, y: 0.5 }, { zoom: 1.3, x: 0.5, y: 0.5 }],
+  zoom_out: [{ zoom: 1.3, x: 0.5, y: 0.5 }, { zoom: 1, x: 0.5, y: 0.5 }],
+  pan_left: [{ zoom: 1.2, x: 0.6, y: 0.5 }, { zoom: 1.2, x: 0.4, y: 0.5 }],
+  pan_right: [{ zoom: 1.2, x: 0.4, y: 0.5 }, { zoom: 1.2, x: 0.6, y: 0.5 }],
+};
+
+function motionForPreset(preset: MotionPreset, durationMs: number) {
+  const [start, end] = MOTION_PRESETS[preset];
+  return { keyframes: [{ at_ms: 0, ...start }, { at_ms: durationMs, ...end }] };
+}
+
+function presetForMotion(shot: ShotSnapshot): MotionPreset | '' {
+  const keyframes = shot.motion?.keyframes;
+  if (!keyframes || keyframes.length !== 2) return '';
+  const match = (Object.keys(MOTION_PRESETS) as MotionPreset[]).find((preset) =>
+    MOTION_PRESETS[preset].every((k, i) => k.zoom === keyframes[i].zoom && k.x === keyframes[i].x && k.y === keyframes[i].y)
+  );
+  return match || '';
+}
+
 export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate, onCreditsChange }: ShotEditorProps) {
   const [visualPrompt, setVisualPrompt] = useState('');
   const [audioText, setAudioText] = useState('');
   const [generatingVisual, setGeneratingVisual] = useState(false);
+  const [generatingStill, setGeneratingStill] = useState(false);
   const [generatingAudio, setGeneratingAudio] = useState(false);
+  // Queued job per generate button; while set, the button cancels it
+  const [visualJobId, setVisualJobId] = useState<string | null>(null);
+  const [stillJobId, setStillJobId] = useState<string | null>(null);
+  const [audioJobId, setAudioJobId] = useState<string | null>(null);
+  const [jobPercent, setJobPercent] = useState<Record<string, number>>({});
 
   const generateVisual = async () => {
     if (!visualPrompt.trim()) return;
@@ -30,9 +62,9 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
         prompt: visualPrompt.trim(),
         duration: shot.duration_ms,
       });
+      setVisualJobId(jobRes.id);
 
-      // Poll for completion
-      const result = await pollJob(jobRes.id);
+      const result = await waitForJob(jobRes.id);
       if (result?.result?.assetId) {
         onUpdate({ ...shot, visual_asset_id: result.result.assetId });
         onCreditsChange();
@@ -41,6 +73,31 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
       alert(err.message || 'Generation failed');
     } finally {
       setGeneratingVisual(false);
+      setVisualJobId(null);
+    }
+  };
+
+  const generateStill = async () => {
+    if (!visualPrompt.trim()) return;
+    setGeneratingStill(true);
+    try {
+      const jobRes = await api.post('/jobs/gen-image', {
+        projectId,
+        workspaceId,
+        prompt: visualPrompt.trim(),
+      });
+      setStillJobId(jobRes.id);
+
+      const result = await waitForJob(jobRes.id);
+      if (result?.result?.assetId) {
+        onUpdate({ ...shot, visual_asset_id: result.result.assetId });
+        onCreditsChange();
+      }
+    } catch (err: any) {
+      alert(err.message || 'Generation failed');
+    } finally {
+      setGeneratingStill(false);
+      setStillJobId(null);
     }
   };
 
@@ -53,8 +110,9 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
         workspaceId,
         text: audioText.trim(),
       });
+      setAudioJobId(jobRes.id);
 
-      const result = await pollJob(jobRes.id);
+      const result = await waitForJob(jobRes.id);
       if (result?.result?.assetId) {
         onUpdate({ ...shot, audio_asset_id: result.result.assetId });
         onCreditsChange();
@@ -63,27 +121,32 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
       alert(err.message || 'Generation failed');
     } finally {
       setGeneratingAudio(false);
+      setAudioJobId(null);
     }
   };
 
-  const pollJob = async (jobId: string): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      const poll = setInterval(async () => {
-        try {
-          const job = await api.get(`/jobs/${jobId}`);
-          if (job.status === 'succeeded') {
-            clearInterval(poll);
-            resolve(job);
-          } else if (job.status === 'failed' || job.status === 'blocked') {
-            clearInterval(poll);
-            reject(new Error(job.error?.message || `Job ${job.status}`));
-          }
-        } catch (err) {
-          clearInterval(poll);
-          reject(err);
-        }
-      }, 2000);
+  // The job stream sees the cancelled status and resets the button
+  const cancelJob = async (jobId: string) => {
+    try {
+      await api.post(`/jobs/${jobId}/cancel`, {});
+      onCreditsChange();
+    } catch (err: any) {
+      // 409: the job finished first, and polling picks up its result
+      console.error('Cancel failed:', err);
+    }
+  };
+
+  // Mirrors the renderer: the source window is frozen or cut to fit duration_ms
+  const trimWindowMs = Math.max(0, shot.trim_out_ms - shot.trim_in_ms);
+
+  // Resolves with the finished job, or null if it was cancelled
+  const waitForJob = async (jobId: string): Promise<any> => {
+    const job = await watchJob(projectId, jobId, (progress) => {
+      setJobPercent((prev) => ({ ...prev, [jobId]: progress.percent }));
     });
+    if (job.status === 'cancelled') return null;
+    if (job.status !== 'succeeded') throw new Error(job.error?.message || `Job ${job.status}`);
+    return job;
   };
 
   return (
@@ -103,12 +166,101 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
           value={shot.duration_ms / 1000}
           onChange={(e) => {
             const ms = Math.round(parseFloat(e.target.value) * 1000);
-            onUpdate({ ...shot, duration_ms: ms, trim_out_ms: ms });
+            // Keep an untouched trim window in step with the duration
+            const windowFollowsDuration = shot.trim_out_ms - shot.trim_in_ms === shot.duration_ms;
+            const preset = presetForMotion(shot);
+            onUpdate({
+              ...shot,
+              duration_ms: ms,
+              trim_out_ms: windowFollowsDuration ? shot.trim_in_ms + ms : shot.trim_out_ms,
+              motion: preset ? motionForPreset(preset, ms) : shot.motion,
+            });
           }}
           className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
         />
       </div>
 
+      {/* Trim */}
+      <div>
+        <label className="mb-1 block text-xs text-[var(--text-secondary)]">Trim window (seconds into source)</label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={shot.trim_in_ms / 1000}
+            onChange={(e) => {
+              const ms = Math.max(0, Math.round(parseFloat(e.target.value) * 1000) || 0);
+              onUpdate({ ...shot, trim_in_ms: ms, trim_out_ms: Math.max(shot.trim_out_ms, ms) });
+            }}
+            className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+            title="Trim in"
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={shot.trim_out_ms / 1000}
+            onChange={(e) => {
+              const ms = Math.max(0, Math.round(parseFloat(e.target.value) * 1000) || 0);
+              onUpdate({ ...shot, trim_out_ms: ms });
+            }}
+            className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+            title="Trim out"
+          />
+        </div>
+        {trimWindowMs > 0 && trimWindowMs < shot.duration_ms && (
+          <p className="mt-1 text-xs text-[var(--text-secondary)]">
+            Last frame held for {((shot.duration_ms - trimWindowMs) / 1000).toFixed(1)}s
+          </p>
+        )}
+        {trimWindowMs > shot.duration_ms && (
+          <p className="mt-1 text-xs text-[var(--text-secondary)]">
+            Cut {((trimWindowMs - shot.duration_ms) / 1000).toFixed(1)}s short to fit the duration
+          </p>
+        )}
+      </div>
+
+      {/* Transition from the previous shot */}
+      {shotIndex > 0 && (
+        <div>
+          <label className="mb-1 block text-xs text-[var(--text-secondary)]">Transition in</label>
+          <div className="flex gap-2">
+            <select
+              value={shot.transition_in?.type || ''}
+              onChange={(e) => {
+                const type = e.target.value as TransitionType | '';
+                onUpdate({
+                  ...shot,
+                  transition_in: type ? { type, duration_ms: shot.transition_in?.duration_ms || 500 } : null,
+                });
+              }}
+              className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+            >
+              <option value="">Hard cut</option>
+              {TRANSITION_TYPES.map((t) => (
+                <option key={t} value={t}>{t.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+            {shot.transition_in && (
+              <input
+                type="number"
+                min={0.1}
+                max={5}
+                step={0.1}
+                value={shot.transition_in.duration_ms / 1000}
+                onChange={(e) => {
+                  const ms = Math.round(parseFloat(e.target.value) * 1000) || 0;
+                  onUpdate({ ...shot, transition_in: { ...shot.transition_in!, duration_ms: Math.min(5000, Math.max(100, ms)) } });
+                }}
+                className="w-24 rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                title="Transition length (seconds)"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Visual Generation */}
       <div>
         <label className="mb-1 block text-xs text-[var(--text-secondary)]">Visual Prompt</label>
@@ -119,19 +271,69 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
           rows={3}
           className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)] resize-none"
         />
-        <button
-          onClick={generateVisual}
-          disabled={generatingVisual || !visualPrompt.trim()}
-          className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
-        >
-          {generatingVisual ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
-          {generatingVisual ? 'Generating...' : 'Generate Visual'}
-        </button>
+        <div className="mt-2 flex gap-2">
+          {visualJobId ? (
+            <button
+              onClick={() => cancelJob(visualJobId)}
+              className="flex flex-1 items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)]"
+              title="Cancel and refund the video job"
+            >
+              <XCircle size={14} /> {jobPercent[visualJobId] ?? 0}% · Cancel
+            </button>
+          ) : (
+            <button
+              onClick={generateVisual}
+              disabled={generatingVisual || generatingStill || !visualPrompt.trim()}
+              className="flex flex-1 items-center justify-center gap-2 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+            >
+              {generatingVisual ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+              {generatingVisual ? 'Generating...' : 'Generate Visual'}
+            </button>
+          )}
+          {stillJobId ? (
+            <button
+              onClick={() => cancelJob(stillJobId)}
+              className="flex items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)]"
+              title="Cancel and refund the image job"
+            >
+              <XCircle size={14} /> {jobPercent[stillJobId] ?? 0}% · Cancel
+            </button>
+          ) : (
+            <button
+              onClick={generateStill}
+              disabled={generatingVisual || generatingStill || !visualPrompt.trim()}
+              className="flex items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+              title="Generate a still image (10 credits)"
+            >
+              {generatingStill ? <Loader2 size={14} className="animate-spin" /> : <ImageIcon size={14} />}
+              {generatingStill ? 'Generating...' : 'Generate Still'}
+            </button>
+          )}
+        </div>
         {shot.visual_asset_id && (
           <p className="mt-1 text-xs text-[var(--success)]">Visual asset ready</p>
         )}
       </div>
 
+      {/* Ken Burns motion (applied when the visual is a still image) */}
+      <div>
+        <label className="mb-1 block text-xs text-[var(--text-secondary)]">Still motion</label>
+        <select
+          value={presetForMotion(shot)}
+          onChange={(e) => {
+            const preset = e.target.value as MotionPreset | '';
+            onUpdate({ ...shot, motion: preset ? motionForPreset(preset, shot.duration_ms) : null });
+          }}
+          className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+        >
+          <option value="">None</option>
+          <option value="zoom_in">Zoom in</option>
+          <option value="zoom_out">Zoom out</option>
+          <option value="pan_left">Pan left</option>
+          <option value="pan_right">Pan right</option>
+        </select>
+      </div>
+
       {/* Audio Generation */}
       <div>
         <label className="mb-1 block text-xs text-[var(--text-secondary)]">Audio / Dialogue Text</label>
@@ -142,19 +344,42 @@ export function ShotEditor({ shot, shotIndex, projectId, workspaceId, onUpdate,
           rows={3}
           className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)] resize-none"
         />
-        <button
-          onClick={generateAudio}
-          disabled={generatingAudio || !audioText.trim()}
-          className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
-        >
-          {generatingAudio ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
-          {generatingAudio ? 'Generating...' : 'Generate Audio'}
-        </button>
+        {audioJobId ? (
+          <button
+            onClick={() => cancelJob(audioJobId)}
+            className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)]"
+            title="Cancel and refund the audio job"
+          >
+            <XCircle size={14} /> {jobPercent[audioJobId] ?? 0}% · Cancel
+          </button>
+        ) : (
+          <button
+            onClick={generateAudio}
+            disabled={generatingAudio || !audioText.trim()}
+            className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-[var(--border-color)] px-4 py-2 text-sm hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+          >
+            {generatingAudio ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+            {generatingAudio ? 'Generating...' : 'Generate Audio'}
+          </button>
+        )}
         {shot.audio_asset_id && (
           <p className="mt-1 text-xs text-[var(--success)]">Audio asset ready</p>
         )}
       </div>
 
+      {/* Chapter */}
+      <div>
+        <label className="mb-1 block text-xs text-[var(--text-secondary)]">Chapter (optional)</label>
+        <input
+          type="text"
+          value={shot.chapter || ''}
+          onChange={(e) => onUpdate({ ...shot, chapter: e.target.value || null })}
+          placeholder="Start a chapter at this shot..."
+          maxLength={100}
+          className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm outline-none focus:border-[var(--accent)]"
+        />
+      </div>
+
       {/* Subtitle */}
       <div>
         <label className="mb-1 block text-xs text-[var(--text-secondary)]">Subtitle (optional)</label>
@@ -1,6 +1,7 @@
 'use client';
 
 import type { ShotSnapshot } from '@phork/shared';
+import { transitionOverlapMs } from '@phork/shared';
 
 interface ShotMarkersProps {
   shots: ShotSnapshot[];
@@ -20,7 +21,9 @@ export function ShotMarkers({ shots, totalDurationMs, selectedIndex, onSelect }:
       </div>
       <div className="flex h-8 overflow-hidden rounded-lg border border-[var(--border-color)]">
         {shots.map((shot, i) => {
-          const widthPct = (shot.duration_ms / totalDurationMs) * 100;
+          // A shot's on-screen span ends where the next shot's transition begins
+          const spanMs = shot.duration_ms - transitionOverlapMs(shots, i + 1);
+          const widthPct = (spanMs / totalDurationMs) * 100;
           const isSelected = selectedIndex === i;
           return (
             <button
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MergeConflict, MergeResolution } from '@phork/shared';
+import { conflictKey } from '@phork/shared';
+import { api } from '@/lib/api';
+import { DiffView } from '@/components/DiffView';
+import { ConflictList } from '@/components/ConflictList';
+import { X, RefreshCw } from 'lucide-react';
+
+interface SyncUpstreamDialogProps {
+  projectId: string;
+  branch: string;
+  onClose: () => void;
+  onSynced: () => void;
+}
+
+export function SyncUpstreamDialog({ projectId, branch, onClose, onSynced }: SyncUpstreamDialogProps) {
+  const [status, setStatus] = useState<any | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/upstream?branch=${encodeURIComponent(branch)}`)
+      .then(setStatus)
+      .catch((err) => console.error('Failed to load upstream status:', err));
+  }, [projectId, branch]);
+
+  const sync = async () => {
+    setSyncing(true);
+    try {
+      await api.post(`/projects/${projectId}/sync-upstream`, { branch, resolutions });
+      onSynced();
+    } catch (err: any) {
+      alert(err.message || 'Sync failed');
+      setSyncing(false);
+    }
+  };
+
+  const conflicts: MergeConflict[] = status?.conflicts || [];
+  const unresolved = conflicts.filter((c) => !resolutions[conflictKey(c)]).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="flex max-h-[70vh] w-full max-w-2xl flex-col rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] p-6 shadow-2xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <RefreshCw size={18} /> Sync with Upstream · {branch}
+          </h3>
+          <button onClick={onClose} className="rounded p-1 hover:bg-[var(--bg-tertiary)]">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!status ? (
+          <p className="text-sm text-[var(--text-secondary)]">Checking upstream...</p>
+        ) : status.upToDate ? (
+          <p className="text-sm text-[var(--text-secondary)]">Up to date with the parent project.</p>
+        ) : (
+          <div className="flex-1 space-y-3 overflow-y-auto">
+            <div>
+              <p className="mb-1 text-sm">
+                {status.behind.length} new upstream commit{status.behind.length === 1 ? '' : 's'}
+              </p>
+              <ul className="space-y-0.5 text-xs text-[var(--text-secondary)]">
+                {status.behind.map((c: any) => (
+                  <li key={c.id}>
+                    <span className="font-mono">{c.id.slice(0, 8)}</span> {c.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <ConflictList
+              conflicts={conflicts}
+              diff={status.diff}
+              sourceLabel="upstream"
+              resolutions={resolutions}
+              onResolve={(key, side) => setResolutions({ ...resolutions, [key]: side })}
+            />
+
+            <div>
+              <p className="mb-1 text-xs text-[var(--text-secondary)]">Changes to {branch} after syncing</p>
+              <DiffView diff={status.diff} changesOnly />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4">
+          <button onClick={onClose} className="rounded-lg px-4 py-2 text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)]">
+            Cancel
+          </button>
+          <button
+            onClick={sync}
+            disabled={!status || status.upToDate || syncing || unresolved > 0}
+            title={unresolved > 0 ? 'Resolve all conflicts first' : undefined}
+            className="flex items-center gap-1.5 rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white hover:bg-[var(--accent-hover)] disabled:opacity-50"
+          >
+            <RefreshCw size={14} /> {syncing ? 'Syncing...' : 'Sync'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
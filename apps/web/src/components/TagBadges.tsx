@@ -0,0 +1,30 @@
+'use client';
+
+import type { Tag } from '@phork/shared';
+import { Tag as TagIcon, Lock } from 'lucide-react';
+
+interface TagBadgesProps {
+  tags: Tag[];
+  /** Only show the tags on this commit */
+  commitId: string;
+}
+
+/** Short commit ID followed by the tags that point at it */
+export function TagBadges({ tags, commitId }: TagBadgesProps) {
+  const onCommit = tags.filter((t) => t.commitId === commitId);
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      <code className="text-[var(--text-secondary)]">{commitId.slice(0, 8)}</code>
+      {onCommit.map((tag) => (
+        <span
+          key={tag.id}
+          title={tag.protected ? 'Protected tag' : undefined}
+          className="inline-flex items-center gap-0.5 rounded bg-[var(--accent)]/15 px-1.5 py-0.5 text-[10px] font-medium text-[var(--accent)]"
+        >
+          {tag.protected ? <Lock size={9} /> : <TagIcon size={9} />}
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -3,30 +3,44 @@
 import { useState } from 'react';
 import { X, GitFork } from 'lucide-react';
 import { api } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
 
 interface Release {
   id: string;
   name: string;
   includeMode: string;
+  license: string;
   assetCount?: number;
 }
 
+const LICENSE_TERMS: Record<string, string> = {
+  no_forks: 'Forks outside the creator\'s workspace are not allowed',
+  forks_nc: 'Non-commercial use only',
+  forks_revshare: 'Revenue from the fork is shared with the creator',
+  sharealike: 'Your fork must be shared under the same terms',
+};
+
 interface ViewerForkDialogProps {
   projectId: string;
   commitId: string;
   shotIndex: number | null;
   shotCount: number;
   releases: Release[];
+  /** The project's own fork license, used when no release is picked */
+  forkLicense: string;
   onClose: () => void;
   onForked: (newProjectId: string) => void;
 }
 
-export function ViewerForkDialog({ projectId, commitId, shotIndex, shotCount, releases, onClose, onForked }: ViewerForkDialogProps) {
+export function ViewerForkDialog({ projectId, commitId, shotIndex, shotCount, releases, forkLicense, onClose, onForked }: ViewerForkDialogProps) {
+  const { workspaceId } = useAuthStore();
   const [name, setName] = useState('');
   const [selectedReleaseId, setSelectedReleaseId] = useState<string | null>(null);
   const [forking, setForking] = useState(false);
   const [error, setError] = useState('');
 
+  const license = releases.find((r) => r.id === selectedReleaseId)?.license || forkLicense;
+
   const handleFork = async () => {
     if (!name.trim()) return;
     setForking(true);
@@ -49,6 +63,9 @@ export function ViewerForkDialog({ projectId, commitId, shotIndex, shotCount, re
       if (selectedReleaseId) {
         body.sourceReleaseId = selectedReleaseId;
       }
+      if (workspaceId) {
+        body.targetWorkspaceId = workspaceId;
+      }
 
       const res = await api.post(`/projects/${projectId}/fork`, body);
       onForked(res.project.id);
@@ -113,6 +130,13 @@ export function ViewerForkDialog({ projectId, commitId, shotIndex, shotCount, re
             </div>
           )}
 
+          <div className="rounded-lg bg-[var(--bg-secondary)] p-3 text-xs">
+            <span className="font-medium">License: {license}</span>
+            <span className="block text-[var(--text-secondary)]">
+              {LICENSE_TERMS[license] || ''}. The fork keeps these terms.
+            </span>
+          </div>
+
           {error && <p className="text-sm text-red-400">{error}</p>}
 
           <div className="flex gap-3">
@@ -1,5 +1,17 @@
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+/** Thrown for non-2xx responses; `data` is the parsed error body (e.g. 409 details) */
+export class ApiRequestError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any) {
+    super(message);
+    this.status = status;
+    this.data = data;
+  }
+}
+
 class ApiClient {
   private getToken(): string | null {
     if (typeof window === 'undefined') return null;
@@ -8,9 +20,8 @@ class ApiClient {
 
   private async request(method: string, path: string, body?: any): Promise<any> {
     const token = this.getToken();
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    // Fastify rejects an empty body sent as JSON, so only label requests that carry one
+    const headers: Record<string, string> = body !== undefined ? { 'Content-Type': 'application/json' } : {};
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
     }
@@ -18,19 +29,71 @@ class ApiClient {
     const res = await fetch(`${API_BASE}${path}`, {
       method,
       headers,
-      body: body ? JSON.stringify(body) : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
     });
 
     const data = await res.json();
     if (!res.ok) {
-      throw new Error(data.message || `Request failed: ${res.status}`);
+      throw new ApiRequestError(data.message || `Request failed: ${res.status}`, res.status, data);
     }
     return data;
   }
 
+  /** Fetch a non-JSON resource (e.g. WebVTT captions) as text */
+  async getText(path: string): Promise<string> {
+    const token = this.getToken();
+    const res = await fetch(`${API_BASE}${path}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    if (!res.ok) {
+      throw new Error(`Request failed: ${res.status}`);
+    }
+    return res.text();
+  }
+
+  /**
+   * Read a Server-Sent Events stream until the server ends it or `signal`
+   * aborts. Uses fetch rather than EventSource so the request can carry the
+   * auth header. `onOpen` runs once the response headers arrive.
+   */
+  async stream(path: string, onEvent: (event: string, data: any) => void, signal: AbortSignal, onOpen?: () => void): Promise<void> {
+    const token = this.getToken();
+    const res = await fetch(`${API_BASE}${path}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const data = await res.json().catch(() => null);
+      throw new ApiRequestError(data?.message || `Request failed: ${res.status}`, res.status, data);
+    }
+    onOpen?.();
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      // Events are separated by a blank line; comment lines (heartbeats) start with ':'
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+      }
+    }
+  }
+
   get(path: string) { return this.request('GET', path); }
   post(path: string, body: any) { return this.request('POST', path, body); }
   put(path: string, body: any) { return this.request('PUT', path, body); }
+  patch(path: string, body: any) { return this.request('PATCH', path, body); }
   delete(path: string) { return this.request('DELETE', path); }
 }
 
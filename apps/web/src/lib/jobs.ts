@@ -0,0 +1,102 @@
+/**
+ * Live job updates from the API's event stream (GET /jobs/events). Every
+ * job watched in a project shares one stream, which closes when the last of
+ * them finishes.
+ */
+import type { JobEvent, JobProgress } from '@phork/shared';
+import { isTerminalJobStatus } from '@phork/shared';
+import { api, ApiRequestError } from './api';
+
+interface Watcher {
+  onProgress?: (progress: JobProgress) => void;
+  resolve: (job: JobEvent) => void;
+  reject: (err: Error) => void;
+}
+
+interface ProjectStream {
+  controller: AbortController;
+  watchers: Map<string, Watcher>;
+  open: boolean;
+}
+
+const RECONNECT_MS = 3000;
+
+const streams = new Map<string, ProjectStream>();
+
+function settle(projectId: string, stream: ProjectStream, jobId: string, job: JobEvent) {
+  const watcher = stream.watchers.get(jobId);
+  if (!watcher) return;
+  stream.watchers.delete(jobId);
+  watcher.resolve(job);
+  if (stream.watchers.size === 0) {
+    stream.controller.abort();
+    streams.delete(projectId);
+  }
+}
+
+function handleEvent(projectId: string, stream: ProjectStream, event: JobEvent) {
+  const watcher = stream.watchers.get(event.jobId);
+  if (!watcher) return;
+  if (isTerminalJobStatus(event.status)) {
+    settle(projectId, stream, event.jobId, event);
+  } else if (event.progress) {
+    watcher.onProgress?.(event.progress);
+  }
+}
+
+/** Catch up on a job that may have finished while the stream was not connected */
+async function reconcile(projectId: string, stream: ProjectStream, jobId: string) {
+  try {
+    const job = await api.get(`/jobs/${jobId}`);
+    if (isTerminalJobStatus(job.status)) {
+      settle(projectId, stream, jobId, { ...job, jobId: job.id, progress: null });
+    }
+  } catch {
+    // The stream will deliver it
+  }
+}
+
+async function run(projectId: string, stream: ProjectStream) {
+  const { signal } = stream.controller;
+  while (!signal.aborted) {
+    try {
+      await api.stream(
+        `/jobs/events?projectId=${projectId}`,
+        (type, data) => { if (type === 'job') handleEvent(projectId, stream, data); },
+        signal,
+        () => {
+          stream.open = true;
+          for (const jobId of [...stream.watchers.keys()]) reconcile(projectId, stream, jobId);
+        },
+      );
+    } catch (err) {
+      if (signal.aborted) return;
+      // Not allowed to watch this project: retrying won't help
+      if (err instanceof ApiRequestError && err.status >= 400 && err.status < 500) {
+        for (const watcher of stream.watchers.values()) watcher.reject(err);
+        streams.delete(projectId);
+        return;
+      }
+    }
+    stream.open = false;
+    await new Promise((r) => setTimeout(r, RECONNECT_MS));
+  }
+}
+
+/**
+ * Wait for a job to reach a terminal status and resolve with its final
+ * state. `onProgress` receives the stage and percent while it runs.
+ */
+export function watchJob(projectId: string, jobId: string, onProgress?: (progress: JobProgress) => void): Promise<JobEvent> {
+  return new Promise((resolve, reject) => {
+    let stream = streams.get(projectId);
+    const isNew = !stream;
+    if (!stream) {
+      stream = { controller: new AbortController(), watchers: new Map(), open: false };
+      streams.set(projectId, stream);
+    }
+    stream.watchers.set(jobId, { onProgress, resolve, reject });
+    if (isNew) run(projectId, stream);
+    else if (stream.open) reconcile(projectId, stream, jobId);
+  });
+}
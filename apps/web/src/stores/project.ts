@@ -1,29 +1,41 @@
 import { create } from 'zustand';
-import type { ShotSnapshot } from '@phork/shared';
+import type { ShotSnapshot, AudioClip, AudioTrackKind, TimelineTracks } from '@phork/shared';
+import { upgradeSnapshot, emptyTracks } from '@phork/shared';
 
 interface ProjectState {
   project: any | null;
   headCommit: any | null;
   shots: ShotSnapshot[];
+  tracks: TimelineTracks;
   selectedShotIndex: number | null;
   setProject: (project: any) => void;
   setHeadCommit: (commit: any) => void;
+  loadSnapshot: (snapshot: unknown) => void;
   setShots: (shots: ShotSnapshot[]) => void;
   selectShot: (index: number | null) => void;
   addShot: (shot: ShotSnapshot) => void;
   removeShot: (index: number) => void;
   updateShot: (index: number, shot: ShotSnapshot) => void;
   reorderShots: (fromIndex: number, toIndex: number) => void;
+  addClip: (kind: AudioTrackKind, clip: AudioClip) => void;
+  removeClip: (kind: AudioTrackKind, clipId: string) => void;
+  updateClip: (kind: AudioTrackKind, clip: AudioClip) => void;
 }
 
 export const useProjectStore = create<ProjectState>((set) => ({
   project: null,
   headCommit: null,
   shots: [],
+  tracks: emptyTracks(),
   selectedShotIndex: null,
 
   setProject: (project) => set({ project }),
   setHeadCommit: (headCommit) => set({ headCommit }),
+  loadSnapshot: (raw) => {
+    // Older (v1) snapshots are upgraded so the studio always edits the current format
+    const snapshot = upgradeSnapshot(raw);
+    set({ shots: snapshot.timeline, tracks: snapshot.tracks });
+  },
   setShots: (shots) => set({ shots }),
   selectShot: (index) => set({ selectedShotIndex: index }),
 
@@ -54,4 +66,16 @@ export const useProjectStore = create<ProjectState>((set) => ({
     newShots.splice(toIndex, 0, moved);
     return { shots: newShots, selectedShotIndex: toIndex };
   }),
+
+  addClip: (kind, clip) => set((state) => ({
+    tracks: { ...state.tracks, [kind]: [...state.tracks[kind], clip] },
+  })),
+
+  removeClip: (kind, clipId) => set((state) => ({
+    tracks: { ...state.tracks, [kind]: state.tracks[kind].filter((c) => c.clip_id !== clipId) },
+  })),
+
+  updateClip: (kind, clip) => set((state) => ({
+    tracks: { ...state.tracks, [kind]: state.tracks[kind].map((c) => (c.clip_id === clip.clip_id ? clip : c)) },
+  })),
 }));
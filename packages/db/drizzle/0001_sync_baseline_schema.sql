@@ -0,0 +1,54 @@
+CREATE TABLE "analytics_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid,
+	"user_id" uuid,
+	"project_id" uuid,
+	"event" text NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "published_renders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"render_asset_id" uuid NOT NULL,
+	"commit_id" uuid NOT NULL,
+	"title" text,
+	"description" text,
+	"share_token" text,
+	"published_at" timestamp DEFAULT now(),
+	"published_by" uuid NOT NULL,
+	CONSTRAINT "published_renders_share_token_unique" UNIQUE("share_token")
+);
+--> statement-breakpoint
+CREATE TABLE "source_release_assets" (
+	"source_release_id" uuid NOT NULL,
+	"asset_id" uuid NOT NULL,
+	CONSTRAINT "source_release_assets_source_release_id_asset_id_pk" PRIMARY KEY("source_release_id","asset_id")
+);
+--> statement-breakpoint
+CREATE TABLE "source_releases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"include_mode" text NOT NULL,
+	"license" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"created_by" uuid NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" DROP CONSTRAINT "jobs_idempotency_key_unique";--> statement-breakpoint
+ALTER TABLE "analytics_events" ADD CONSTRAINT "analytics_events_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analytics_events" ADD CONSTRAINT "analytics_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analytics_events" ADD CONSTRAINT "analytics_events_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "published_renders" ADD CONSTRAINT "published_renders_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "published_renders" ADD CONSTRAINT "published_renders_render_asset_id_assets_id_fk" FOREIGN KEY ("render_asset_id") REFERENCES "public"."assets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "published_renders" ADD CONSTRAINT "published_renders_commit_id_commits_id_fk" FOREIGN KEY ("commit_id") REFERENCES "public"."commits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "published_renders" ADD CONSTRAINT "published_renders_published_by_users_id_fk" FOREIGN KEY ("published_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "source_release_assets" ADD CONSTRAINT "source_release_assets_source_release_id_source_releases_id_fk" FOREIGN KEY ("source_release_id") REFERENCES "public"."source_releases"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "source_release_assets" ADD CONSTRAINT "source_release_assets_asset_id_assets_id_fk" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "source_releases" ADD CONSTRAINT "source_releases_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "source_releases" ADD CONSTRAINT "source_releases_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analytics_project_event_idx" ON "analytics_events" USING btree ("project_id","event");--> statement-breakpoint
+CREATE UNIQUE INDEX "published_renders_project_idx" ON "published_renders" USING btree ("project_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "jobs_workspace_idempotency_key" ON "jobs" USING btree ("workspace_id","idempotency_key");
\ No newline at end of file
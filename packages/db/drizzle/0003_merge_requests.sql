@@ -0,0 +1,26 @@
+CREATE TABLE "merge_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_project_id" uuid NOT NULL,
+	"source_commit_id" uuid NOT NULL,
+	"target_project_id" uuid NOT NULL,
+	"target_branch" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"status" text DEFAULT 'open' NOT NULL,
+	"created_by" uuid NOT NULL,
+	"merged_by" uuid,
+	"merge_commit_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"merged_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "commits" ADD COLUMN "merge_parent_commit_id" uuid;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_source_project_id_projects_id_fk" FOREIGN KEY ("source_project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_source_commit_id_commits_id_fk" FOREIGN KEY ("source_commit_id") REFERENCES "public"."commits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_target_project_id_projects_id_fk" FOREIGN KEY ("target_project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_merged_by_users_id_fk" FOREIGN KEY ("merged_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_requests" ADD CONSTRAINT "merge_requests_merge_commit_id_commits_id_fk" FOREIGN KEY ("merge_commit_id") REFERENCES "public"."commits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "merge_requests_target_status_idx" ON "merge_requests" USING btree ("target_project_id","status");--> statement-breakpoint
+CREATE INDEX "merge_requests_source_idx" ON "merge_requests" USING btree ("source_project_id");
\ No newline at end of file
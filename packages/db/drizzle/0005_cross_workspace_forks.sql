@@ -0,0 +1,13 @@
+CREATE TABLE "asset_grants" (
+	"asset_id" uuid NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"source_release_id" uuid,
+	"project_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "asset_grants_asset_id_workspace_id_pk" PRIMARY KEY("asset_id","workspace_id")
+);
+--> statement-breakpoint
+ALTER TABLE "asset_grants" ADD CONSTRAINT "asset_grants_asset_id_assets_id_fk" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "asset_grants" ADD CONSTRAINT "asset_grants_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "asset_grants" ADD CONSTRAINT "asset_grants_source_release_id_source_releases_id_fk" FOREIGN KEY ("source_release_id") REFERENCES "public"."source_releases"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "asset_grants" ADD CONSTRAINT "asset_grants_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "commits" ADD COLUMN "hash" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "fork_base_commit_id" uuid;--> statement-breakpoint
+ALTER TABLE "commits" ADD CONSTRAINT "commits_hash_unique" UNIQUE("hash");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "job_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	"branch" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"auto_commit" boolean DEFAULT false NOT NULL,
+	"commit_message" text,
+	"commit_id" uuid,
+	"skipped_shot_ids" text[],
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"idempotency_key" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "job_batches" ADD CONSTRAINT "job_batches_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_batches" ADD CONSTRAINT "job_batches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_batches" ADD CONSTRAINT "job_batches_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_batches" ADD CONSTRAINT "job_batches_commit_id_commits_id_fk" FOREIGN KEY ("commit_id") REFERENCES "public"."commits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "job_batches_workspace_idempotency_key" ON "job_batches" USING btree ("workspace_id","idempotency_key");--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_batch_id_job_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."job_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_batch_idx" ON "jobs" USING btree ("batch_id");
\ No newline at end of file
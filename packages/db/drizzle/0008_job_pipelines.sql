@@ -0,0 +1,36 @@
+CREATE TABLE "pipeline_steps" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pipeline_id" uuid NOT NULL,
+	"step_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"type" text NOT NULL,
+	"depends_on" text[] NOT NULL,
+	"level" integer NOT NULL,
+	"params" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"job_id" uuid,
+	"output" jsonb,
+	"error" jsonb,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "pipelines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text,
+	"status" text DEFAULT 'running' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"idempotency_key" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pipeline_steps" ADD CONSTRAINT "pipeline_steps_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipeline_steps" ADD CONSTRAINT "pipeline_steps_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipelines" ADD CONSTRAINT "pipelines_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipelines" ADD CONSTRAINT "pipelines_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipelines" ADD CONSTRAINT "pipelines_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pipeline_steps_pipeline_step" ON "pipeline_steps" USING btree ("pipeline_id","step_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "pipelines_workspace_idempotency_key" ON "pipelines" USING btree ("workspace_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "pipelines_project_idx" ON "pipelines" USING btree ("project_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "job_batches" ADD COLUMN "commit_error" text;
\ No newline at end of file
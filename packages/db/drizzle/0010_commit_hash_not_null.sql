@@ -0,0 +1,5 @@
+-- Commits stored before content addressing have no hash. commitHash() runs in
+-- the API (sorted-key JSON), so it can't be reproduced here; give each one a
+-- placeholder unique to its row. Later saves never dedupe against them.
+UPDATE "commits" SET "hash" = 'legacy:' || "id" WHERE "hash" IS NULL;--> statement-breakpoint
+ALTER TABLE "commits" ALTER COLUMN "hash" SET NOT NULL;
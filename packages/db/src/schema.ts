@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   integer,
+  boolean,
   primaryKey,
   uniqueIndex,
   index,
@@ -62,20 +63,36 @@ export const projects = pgTable('projects', {
   forkLicense: text('fork_license').default('no_forks'),
   parentProjectId: uuid('parent_project_id'),
   forkedFromCommitId: uuid('forked_from_commit_id'),
+  /**
+   * Where a fork's own history starts: the fork point it shares with its
+   * parent, or the truncated copy of it made at fork time. Null for forks
+   * made before history was shared, which hold copies of the parent's commits.
+   */
+  forkBaseCommitId: uuid('fork_base_commit_id'),
+  defaultBranch: text('default_branch').notNull().default('main'),
 });
 
+// Commits are immutable and shared across a fork family: a fork's history is
+// its own commits plus the parent commits reachable from its fork point.
 export const commits = pgTable('commits', {
   id: uuid('id').defaultRandom().primaryKey(),
+  /** Content hash of project, parents, message, author and snapshot as first committed; identical saves share a row */
+  hash: text('hash').notNull().unique(),
+  /** Project the commit was made in */
   projectId: uuid('project_id')
     .references(() => projects.id)
     .notNull(),
   parentCommitId: uuid('parent_commit_id'),
+  /** Second parent of a merge commit: the merged source commit (usually in a fork) */
+  mergeParentCommitId: uuid('merge_parent_commit_id'),
   message: text('message'),
   createdBy: uuid('created_by').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow(),
   snapshot: jsonb('snapshot').notNull(),
 });
 
+// Legacy single head per project, superseded by `branches`. No longer
+// written; kept so existing heads can be backfilled into `main` branches.
 export const projectHeads = pgTable('project_heads', {
   projectId: uuid('project_id')
     .references(() => projects.id)
@@ -85,6 +102,40 @@ export const projectHeads = pgTable('project_heads', {
     .notNull(),
 });
 
+export const branches = pgTable('branches', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id')
+    .references(() => projects.id)
+    .notNull(),
+  name: text('name').notNull(),
+  headCommitId: uuid('head_commit_id')
+    .references(() => commits.id)
+    .notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  projectNameIdx: uniqueIndex('branches_project_name_idx').on(table.projectId, table.name),
+}));
+
+export const tags = pgTable('tags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id')
+    .references(() => projects.id)
+    .notNull(),
+  name: text('name').notNull(),
+  commitId: uuid('commit_id')
+    .references(() => commits.id)
+    .notNull(),
+  // Protected tags can only be moved or deleted by workspace owners/admins
+  protected: boolean('protected').notNull().default(false),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  projectNameIdx: uniqueIndex('tags_project_name_idx').on(table.projectId, table.name),
+}));
+
 // ──────────────────────────────────────────────
 // Assets
 // ──────────────────────────────────────────────
@@ -123,15 +174,91 @@ export const jobs = pgTable('jobs', {
     .notNull(),
   projectId: uuid('project_id').references(() => projects.id),
   type: text('type').notNull(), // 'gen_image' | 'gen_video' | 'gen_audio' | 'render'
-  status: text('status').default('queued').notNull(), // 'queued' | 'running' | 'succeeded' | 'failed' | 'blocked'
+  status: text('status').default('queued').notNull(), // 'queued' | 'running' | 'succeeded' | 'failed' | 'blocked' | 'cancelled'
   request: jsonb('request').notNull(),
   result: jsonb('result'),
   error: jsonb('error'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
   idempotencyKey: text('idempotency_key').notNull(),
+  batchId: uuid('batch_id').references(() => jobBatches.id),
 }, (table) => ({
   workspaceIdempotencyIdx: uniqueIndex('jobs_workspace_idempotency_key').on(table.workspaceId, table.idempotencyKey),
+  batchIdx: index('jobs_batch_idx').on(table.batchId),
+}));
+
+// Generation jobs queued together for a project's shots (POST /jobs/batch)
+export const jobBatches = pgTable('job_batches', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id)
+    .notNull(),
+  userId: uuid('user_id')
+    .references(() => users.id)
+    .notNull(),
+  projectId: uuid('project_id')
+    .references(() => projects.id)
+    .notNull(),
+  branch: text('branch').notNull(),
+  status: text('status').default('running').notNull(), // 'running' | 'succeeded' | 'partial' | 'failed'
+  autoCommit: boolean('auto_commit').default(false).notNull(),
+  commitMessage: text('commit_message'),
+  commitId: uuid('commit_id').references(() => commits.id),
+  // Shots whose assets could not be placed by the auto-commit (removed from the branch meanwhile)
+  skippedShotIds: text('skipped_shot_ids').array(),
+  // Why the auto-commit placed nothing, when it was on and some jobs succeeded
+  commitError: text('commit_error'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  idempotencyKey: text('idempotency_key').notNull(),
+}, (table) => ({
+  workspaceIdempotencyIdx: uniqueIndex('job_batches_workspace_idempotency_key').on(table.workspaceId, table.idempotencyKey),
+}));
+
+// Declarative chains of steps (POST /pipelines), run level by level as BullMQ flows
+export const pipelines = pgTable('pipelines', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id)
+    .notNull(),
+  userId: uuid('user_id')
+    .references(() => users.id)
+    .notNull(),
+  projectId: uuid('project_id')
+    .references(() => projects.id)
+    .notNull(),
+  name: text('name'),
+  status: text('status').default('running').notNull(), // 'running' | 'succeeded' | 'failed'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  idempotencyKey: text('idempotency_key').notNull(),
+}, (table) => ({
+  workspaceIdempotencyIdx: uniqueIndex('pipelines_workspace_idempotency_key').on(table.workspaceId, table.idempotencyKey),
+  projectIdx: index('pipelines_project_idx').on(table.projectId),
+}));
+
+export const pipelineSteps = pgTable('pipeline_steps', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  pipelineId: uuid('pipeline_id')
+    .references(() => pipelines.id)
+    .notNull(),
+  // Name within the pipeline, used by other steps' dependsOn and $ref
+  stepId: text('step_id').notNull(),
+  // Order the step was declared in
+  position: integer('position').notNull(),
+  type: text('type').notNull(), // 'gen_image' | 'gen_video' | 'gen_audio' | 'commit' | 'render' | 'publish'
+  dependsOn: text('depends_on').array().notNull(),
+  level: integer('level').notNull(),
+  // As declared; $ref values are resolved when the step is queued
+  params: jsonb('params').notNull(),
+  // 'pending' | 'skipped' | job statuses; generation/render steps mirror their job once it settles
+  status: text('status').default('pending').notNull(),
+  jobId: uuid('job_id').references(() => jobs.id),
+  output: jsonb('output'),
+  error: jsonb('error'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  pipelineStepIdx: uniqueIndex('pipeline_steps_pipeline_step').on(table.pipelineId, table.stepId),
 }));
 
 // ──────────────────────────────────────────────
@@ -242,6 +369,29 @@ export const sourceReleaseAssets = pgTable(
   }),
 );
 
+/**
+ * Lets a workspace use an asset it doesn't own: granted to the target
+ * workspace of a cross-workspace fork for each asset in its source release.
+ */
+export const assetGrants = pgTable(
+  'asset_grants',
+  {
+    assetId: uuid('asset_id')
+      .references(() => assets.id)
+      .notNull(),
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id)
+      .notNull(),
+    sourceReleaseId: uuid('source_release_id').references(() => sourceReleases.id),
+    /** The fork whose creation granted the asset */
+    projectId: uuid('project_id').references(() => projects.id),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.assetId, table.workspaceId] }),
+  }),
+);
+
 // ──────────────────────────────────────────────
 // Analytics Events (Phase 2A)
 // ──────────────────────────────────────────────
@@ -257,3 +407,35 @@ export const analyticsEvents = pgTable('analytics_events', {
 }, (table) => ({
   projectEventIdx: index('analytics_project_event_idx').on(table.projectId, table.event),
 }));
+
+// ──────────────────────────────────────────────
+// Merge Requests
+// ──────────────────────────────────────────────
+
+export const mergeRequests = pgTable('merge_requests', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sourceProjectId: uuid('source_project_id')
+    .references(() => projects.id)
+    .notNull(),
+  sourceCommitId: uuid('source_commit_id')
+    .references(() => commits.id)
+    .notNull(),
+  targetProjectId: uuid('target_project_id')
+    .references(() => projects.id)
+    .notNull(),
+  targetBranch: text('target_branch').notNull(),
+  title: text('title').notNull(),
+  description: text('description'),
+  status: text('status').notNull().default('open'), // 'open' | 'merged' | 'closed'
+  createdBy: uuid('created_by')
+    .references(() => users.id)
+    .notNull(),
+  mergedBy: uuid('merged_by').references(() => users.id),
+  mergeCommitId: uuid('merge_commit_id').references(() => commits.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  mergedAt: timestamp('merged_at'),
+}, (table) => ({
+  targetStatusIdx: index('merge_requests_target_status_idx').on(table.targetProjectId, table.status),
+  sourceIdx: index('merge_requests_source_idx').on(table.sourceProjectId),
+}));
@@ -0,0 +1,15 @@
+export const DEFAULT_BRANCH = 'main';
+
+/** Letters, digits, '.', '_' and '-'; must start with a letter or digit. No '/', so names fit in a URL segment. */
+export const BRANCH_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,62}$/;
+
+export function isValidBranchName(name: string): boolean {
+  return BRANCH_NAME_PATTERN.test(name);
+}
+
+/** Tags follow the same naming rules as branches */
+export const TAG_NAME_PATTERN = BRANCH_NAME_PATTERN;
+
+export function isValidTagName(name: string): boolean {
+  return TAG_NAME_PATTERN.test(name);
+}
@@ -0,0 +1,141 @@
+import type {
+  AudioClip, AudioTrackKind, ClipDiff, FieldChange, ShotDiff, ShotSnapshot, SnapshotDiff, TimelineSnapshot,
+} from './types';
+import { AUDIO_TRACK_KINDS } from './snapshot';
+
+/** Shot fields compared by diffSnapshots, in display order */
+export const SHOT_DIFF_FIELDS = [
+  'visual_asset_id', 'audio_asset_id', 'duration_ms', 'trim_in_ms', 'trim_out_ms',
+  'subtitle', 'transition_in', 'motion', 'chapter',
+] as const satisfies readonly (keyof ShotSnapshot)[];
+
+export const CLIP_DIFF_FIELDS = [
+  'asset_id', 'start_ms', 'duration_ms', 'trim_in_ms', 'gain_db', 'fade_in_ms', 'fade_out_ms',
+] as const satisfies readonly (keyof AudioClip)[];
+
+/** Structural equality for snapshot values; missing optional fields equal null */
+export function sameValue(a: unknown, b: unknown): boolean {
+  const x = a === undefined ? null : a;
+  const y = b === undefined ? null : b;
+  if (x === y) return true;
+  if (x === null || y === null || typeof x !== 'object' || typeof y !== 'object') return false;
+  if (Array.isArray(x) !== Array.isArray(y)) return false;
+  const keys = new Set([...Object.keys(x), ...Object.keys(y)]);
+  for (const key of keys) {
+    if (!sameValue((x as any)[key], (y as any)[key])) return false;
+  }
+  return true;
+}
+
+function fieldChanges<T>(from: T, to: T, fields: readonly (keyof T)[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (!sameValue(from[field], to[field])) {
+      changes.push({ field: String(field), from: from[field] ?? null, to: to[field] ?? null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Longest common subsequence of two ID lists. Shots present in both
+ * timelines but outside the LCS are the ones that were reordered.
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+function diffShots(from: ShotSnapshot[], to: ShotSnapshot[]): ShotDiff[] {
+  const fromIndex = new Map(from.map((s, i) => [s.shot_id, i]));
+  const toIndex = new Map(to.map((s, i) => [s.shot_id, i]));
+  const inOrder = longestCommonSubsequence(
+    from.filter((s) => toIndex.has(s.shot_id)).map((s) => s.shot_id),
+    to.filter((s) => fromIndex.has(s.shot_id)).map((s) => s.shot_id),
+  );
+
+  const shots: ShotDiff[] = to.map((shot, i) => {
+    const before = fromIndex.get(shot.shot_id);
+    if (before === undefined) {
+      return { shot_id: shot.shot_id, status: 'added', from_index: null, to_index: i, moved: false, changes: [] };
+    }
+    const changes = fieldChanges(from[before], shot, SHOT_DIFF_FIELDS);
+    return {
+      shot_id: shot.shot_id,
+      status: changes.length > 0 ? 'modified' : 'unchanged',
+      from_index: before,
+      to_index: i,
+      moved: !inOrder.has(shot.shot_id),
+      changes,
+    };
+  });
+
+  from.forEach((shot, i) => {
+    if (!toIndex.has(shot.shot_id)) {
+      shots.push({ shot_id: shot.shot_id, status: 'removed', from_index: i, to_index: null, moved: false, changes: [] });
+    }
+  });
+  return shots;
+}
+
+function diffClips(kind: AudioTrackKind, from: AudioClip[], to: AudioClip[]): ClipDiff[] {
+  const fromById = new Map(from.map((c) => [c.clip_id, c]));
+  const toIds = new Set(to.map((c) => c.clip_id));
+  const clips: ClipDiff[] = [];
+
+  for (const clip of to) {
+    const before = fromById.get(clip.clip_id);
+    if (!before) {
+      clips.push({ kind, clip_id: clip.clip_id, status: 'added', changes: [] });
+      continue;
+    }
+    const changes = fieldChanges(before, clip, CLIP_DIFF_FIELDS);
+    if (changes.length > 0) clips.push({ kind, clip_id: clip.clip_id, status: 'modified', changes });
+  }
+  for (const clip of from) {
+    if (!toIds.has(clip.clip_id)) clips.push({ kind, clip_id: clip.clip_id, status: 'removed', changes: [] });
+  }
+  return clips;
+}
+
+/**
+ * Shot-level diff between two snapshots. Shots are matched by `shot_id` and
+ * listed in `to` order, followed by removed shots. Unchanged shots are
+ * included (status 'unchanged') so callers can render the whole timeline;
+ * audio-lane clips are matched by `clip_id` and only changes are listed.
+ */
+export function diffSnapshots(from: TimelineSnapshot, to: TimelineSnapshot): SnapshotDiff {
+  const shots = diffShots(from.timeline, to.timeline);
+  const clips = AUDIO_TRACK_KINDS.flatMap((kind) => diffClips(kind, from.tracks[kind], to.tracks[kind]));
+
+  return {
+    shots,
+    clips,
+    summary: {
+      added: shots.filter((s) => s.status === 'added').length,
+      removed: shots.filter((s) => s.status === 'removed').length,
+      modified: shots.filter((s) => s.status === 'modified').length,
+      moved: shots.filter((s) => s.moved).length,
+      clipsChanged: clips.length,
+    },
+  };
+}
@@ -1 +1,8 @@
 export * from './types';
+export * from './snapshot';
+export * from './profiles';
+export * from './branches';
+export * from './diff';
+export * from './merge';
+export * from './jobs';
+export * from './pipelines';
@@ -0,0 +1,8 @@
+import type { JobStatus } from './types';
+
+/** Statuses a job never leaves */
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'blocked', 'cancelled'];
+
+export function isTerminalJobStatus(status: string): boolean {
+  return (TERMINAL_JOB_STATUSES as string[]).includes(status);
+}
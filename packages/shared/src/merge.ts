@@ -0,0 +1,223 @@
+import type {
+  AudioClip, AudioTrackKind, MergeConflict, MergeResolution, MergeResult, ShotSnapshot, TimelineSnapshot, TimelineTracks,
+} from './types';
+import { AUDIO_TRACK_KINDS, createSnapshot, emptyTracks } from './snapshot';
+import { CLIP_DIFF_FIELDS, SHOT_DIFF_FIELDS, sameValue } from './diff';
+
+/** Key a conflict is reported and resolved under */
+export function conflictKey(conflict: Pick<MergeConflict, 'target' | 'id' | 'track'>): string {
+  return conflict.target === 'clip' ? `clip:${conflict.track}:${conflict.id}` : `${conflict.target}:${conflict.id}`;
+}
+
+interface ItemMerge<T> {
+  /** Merged item, or null if it is deleted in the result */
+  value: T | null;
+  conflict: Omit<MergeConflict, 'target' | 'id' | 'track'> | null;
+}
+
+/**
+ * Three-way merge of one shot or clip. Fields changed on only one side are
+ * taken from that side; fields changed differently on both sides conflict.
+ * A deletion on one side wins unless the other side modified the item.
+ * Conflicts provisionally keep the target ("ours") version.
+ */
+function mergeItem<T extends object>(
+  base: T | undefined,
+  ours: T | undefined,
+  theirs: T | undefined,
+  fields: readonly (keyof T)[],
+  resolution: MergeResolution | undefined,
+): ItemMerge<T> {
+  const pick = (side: MergeResolution) => ({ value: (side === 'source' ? theirs : ours) ?? null, conflict: null });
+
+  if (!base) {
+    // Added on one or both sides
+    if (!ours) return { value: theirs ?? null, conflict: null };
+    if (!theirs || sameValue(ours, theirs)) return { value: ours, conflict: null };
+    if (resolution) return pick(resolution);
+    const conflicting = fields.filter((f) => !sameValue(ours[f], theirs[f])).map(String);
+    return { value: ours, conflict: { type: 'both_added', fields: conflicting } };
+  }
+
+  if (!ours && !theirs) return { value: null, conflict: null };
+  if (!ours || !theirs) {
+    // Deleted on one side: fine if the other side left it alone
+    const kept = (ours || theirs)!;
+    if (sameValue(kept, base)) return { value: null, conflict: null };
+    if (resolution) return pick(resolution);
+    const changed = fields.filter((f) => !sameValue(kept[f], base[f])).map(String);
+    return { value: ours ?? null, conflict: { type: ours ? 'modify_delete' : 'delete_modify', fields: changed } };
+  }
+
+  const merged = { ...ours } as T;
+  const conflicting: string[] = [];
+  for (const field of fields) {
+    const o = ours[field];
+    const t = theirs[field];
+    if (sameValue(o, t) || sameValue(t, base[field])) continue;
+    if (sameValue(o, base[field])) {
+      merged[field] = t;
+    } else {
+      conflicting.push(String(field));
+    }
+  }
+  if (conflicting.length === 0) return { value: merged, conflict: null };
+  if (resolution) {
+    // Take the chosen side for the conflicting fields; one-sided changes still merge
+    const side = resolution === 'source' ? theirs : ours;
+    for (const field of conflicting) merged[field as keyof T] = side[field as keyof T];
+    return { value: merged, conflict: null };
+  }
+  return { value: merged, conflict: { type: 'both_modified', fields: conflicting } };
+}
+
+/** Order of `ids` restricted to those present in `keep` */
+function relativeOrder(ids: string[], keep: Set<string>): string[] {
+  return ids.filter((id) => keep.has(id));
+}
+
+/**
+ * Merge shot order. If only one side reordered the shots they share with
+ * the base, that side's order wins; if both did, the target's order is kept
+ * and the shots the source moved are reported as order conflicts. Shots
+ * added on the source side are placed after the shot that precedes them
+ * there.
+ */
+function mergeOrder(
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  survivors: Set<string>,
+): { order: string[]; moved: string[] } {
+  const shared = new Set(base.filter((id) => ours.includes(id) && theirs.includes(id) && survivors.has(id)));
+  const baseOrder = relativeOrder(base, shared);
+  const oursOrder = relativeOrder(ours, shared);
+  const theirsOrder = relativeOrder(theirs, shared);
+  const oursMoved = !sameValue(oursOrder, baseOrder);
+  const theirsMoved = !sameValue(theirsOrder, baseOrder);
+
+  let skeleton: string[];
+  let moved: string[] = [];
+  let primary = ours;
+  let secondary = theirs;
+  if (theirsMoved && !oursMoved) {
+    skeleton = [...theirsOrder];
+    primary = theirs;
+    secondary = ours;
+  } else {
+    skeleton = [...oursOrder];
+    if (oursMoved && theirsMoved && !sameValue(oursOrder, theirsOrder)) {
+      moved = theirsOrder.filter((id, i) => oursOrder[i] !== id);
+    }
+  }
+
+  // Insert everything else (one-sided additions, items kept only on one side) by anchor
+  const result = [...skeleton];
+  const place = (list: string[]) => {
+    list.forEach((id, i) => {
+      if (!survivors.has(id) || result.includes(id)) return;
+      let anchorIndex = -1;
+      for (let j = i - 1; j >= 0; j--) {
+        anchorIndex = result.indexOf(list[j]);
+        if (anchorIndex >= 0) break;
+      }
+      result.splice(anchorIndex + 1, 0, id);
+    });
+  };
+  place(primary);
+  place(secondary);
+  return { order: result, moved };
+}
+
+function mergeTimeline(
+  base: ShotSnapshot[],
+  ours: ShotSnapshot[],
+  theirs: ShotSnapshot[],
+  resolutions: Record<string, MergeResolution>,
+  conflicts: MergeConflict[],
+): ShotSnapshot[] {
+  const byId = (shots: ShotSnapshot[]) => new Map(shots.map((s) => [s.shot_id, s]));
+  const baseById = byId(base);
+  const oursById = byId(ours);
+  const theirsById = byId(theirs);
+  const ids = new Set([...base, ...ours, ...theirs].map((s) => s.shot_id));
+
+  const merged = new Map<string, ShotSnapshot>();
+  for (const id of ids) {
+    const key = conflictKey({ target: 'shot', id });
+    const result = mergeItem(baseById.get(id), oursById.get(id), theirsById.get(id), SHOT_DIFF_FIELDS, resolutions[key]);
+    if (result.conflict) conflicts.push({ target: 'shot', id, ...result.conflict });
+    if (result.value) merged.set(id, result.value);
+  }
+
+  const { order, moved } = mergeOrder(
+    base.map((s) => s.shot_id),
+    ours.map((s) => s.shot_id),
+    theirs.map((s) => s.shot_id),
+    new Set(merged.keys()),
+  );
+
+  let timeline = order.map((id) => merged.get(id)!);
+  const orderResolution = resolutions[conflictKey({ target: 'order', id: 'timeline' })];
+  if (moved.length > 0) {
+    if (orderResolution === 'source') {
+      // Treat the target order as the base so the source order wins, with
+      // target-only shots placed by anchor
+      const oursIds = ours.map((s) => s.shot_id);
+      const sourceFirst = mergeOrder(oursIds, oursIds, theirs.map((s) => s.shot_id), new Set(merged.keys()));
+      timeline = sourceFirst.order.map((id) => merged.get(id)!);
+    } else if (!orderResolution) {
+      conflicts.push({ target: 'order', id: 'timeline', type: 'both_reordered', fields: moved });
+    }
+  }
+  return timeline;
+}
+
+function mergeTrack(
+  kind: AudioTrackKind,
+  base: AudioClip[],
+  ours: AudioClip[],
+  theirs: AudioClip[],
+  resolutions: Record<string, MergeResolution>,
+  conflicts: MergeConflict[],
+): AudioClip[] {
+  const byId = (clips: AudioClip[]) => new Map(clips.map((c) => [c.clip_id, c]));
+  const baseById = byId(base);
+  const oursById = byId(ours);
+  const theirsById = byId(theirs);
+
+  // Lane clips are positioned by start_ms, so list order carries no meaning
+  const ids = [...new Set([...ours, ...theirs, ...base].map((c) => c.clip_id))];
+  const result: AudioClip[] = [];
+  for (const id of ids) {
+    const key = conflictKey({ target: 'clip', id, track: kind });
+    const merged = mergeItem(baseById.get(id), oursById.get(id), theirsById.get(id), CLIP_DIFF_FIELDS, resolutions[key]);
+    if (merged.conflict) conflicts.push({ target: 'clip', id, track: kind, ...merged.conflict });
+    if (merged.value) result.push(merged.value);
+  }
+  return result;
+}
+
+/**
+ * Three-way merge of timeline snapshots. `base` is the common ancestor,
+ * `ours` the target branch head and `theirs` the proposed source commit.
+ * The returned snapshot is always complete: unresolved conflicts keep the
+ * target's version and are listed in `conflicts`. Passing a resolution
+ * (keyed by conflictKey) for a conflict picks that side instead.
+ */
+export function mergeSnapshots(
+  base: TimelineSnapshot,
+  ours: TimelineSnapshot,
+  theirs: TimelineSnapshot,
+  resolutions: Record<string, MergeResolution> = {},
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const timeline = mergeTimeline(base.timeline, ours.timeline, theirs.timeline, resolutions, conflicts);
+
+  const tracks: TimelineTracks = emptyTracks();
+  for (const kind of AUDIO_TRACK_KINDS) {
+    tracks[kind] = mergeTrack(kind, base.tracks[kind], ours.tracks[kind], theirs.tracks[kind], resolutions, conflicts);
+  }
+
+  return { snapshot: createSnapshot(timeline, tracks), conflicts };
+}
@@ -0,0 +1,18 @@
+import type { PipelineStepType } from './types';
+
+export const PIPELINE_STEP_TYPES: PipelineStepType[] = ['gen_image', 'gen_video', 'gen_audio', 'commit', 'render', 'publish'];
+
+/** The outputs each step type produces, which later steps may reference */
+export const PIPELINE_STEP_OUTPUTS: Record<PipelineStepType, string[]> = {
+  gen_image: ['assetId'],
+  gen_video: ['assetId'],
+  gen_audio: ['assetId'],
+  commit: ['commitId'],
+  render: ['assetId', 'commitId'],
+  publish: ['publishedRenderId', 'shareToken'],
+};
+
+/** Step types that run as jobs on the generation and render queues */
+export function isJobStep(type: PipelineStepType): boolean {
+  return type !== 'commit' && type !== 'publish';
+}
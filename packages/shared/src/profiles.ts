@@ -0,0 +1,27 @@
+import type { RenderProfile } from './types';
+
+export const DEFAULT_RENDER_PROFILE_ID = 'hd_16x9';
+
+/** EBU R128 broadcast target, used unless a profile is meant for a platform with its own */
+export const EBU_R128_LUFS = -23;
+
+/** Common streaming/social target (YouTube, Spotify, most short-form apps) */
+export const STREAMING_LUFS = -14;
+
+/** True-peak ceiling applied with every loudness target (dBTP) */
+export const TRUE_PEAK_LIMIT_DB = -1;
+
+export const RENDER_PROFILES: RenderProfile[] = [
+  { id: 'hd_16x9', name: '16:9 HD 720p', aspectRatio: '16:9', width: 1280, height: 720, fps: 30, codec: 'h264', loudnessLufs: EBU_R128_LUFS },
+  { id: 'fhd_16x9', name: '16:9 Full HD 1080p', aspectRatio: '16:9', width: 1920, height: 1080, fps: 30, codec: 'h264', loudnessLufs: EBU_R128_LUFS },
+  { id: 'fhd_16x9_24', name: '16:9 1080p Cinema (24 fps)', aspectRatio: '16:9', width: 1920, height: 1080, fps: 24, codec: 'h264', loudnessLufs: EBU_R128_LUFS },
+  { id: 'fhd_16x9_60', name: '16:9 1080p Smooth (60 fps)', aspectRatio: '16:9', width: 1920, height: 1080, fps: 60, codec: 'h264', loudnessLufs: EBU_R128_LUFS },
+  { id: 'uhd_16x9', name: '16:9 4K UHD (H.265)', aspectRatio: '16:9', width: 3840, height: 2160, fps: 30, codec: 'h265', loudnessLufs: EBU_R128_LUFS },
+  { id: 'vertical_9x16', name: '9:16 Vertical 1080x1920', aspectRatio: '9:16', width: 1080, height: 1920, fps: 30, codec: 'h264', loudnessLufs: STREAMING_LUFS },
+  { id: 'square_1x1', name: '1:1 Square 1080x1080', aspectRatio: '1:1', width: 1080, height: 1080, fps: 30, codec: 'h264', loudnessLufs: STREAMING_LUFS },
+  { id: 'web_vp9', name: '16:9 1080p WebM (VP9)', aspectRatio: '16:9', width: 1920, height: 1080, fps: 30, codec: 'vp9', loudnessLufs: STREAMING_LUFS },
+];
+
+export function getRenderProfile(id: string): RenderProfile | undefined {
+  return RENDER_PROFILES.find((p) => p.id === id);
+}
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import type { Chapter, TimelineSnapshot, TimelineTracks, ShotSnapshot, TransitionType } from './types';
+
+export const CURRENT_SNAPSHOT_VERSION = 2;
+
+export const AUDIO_TRACK_KINDS = ['dialogue', 'music', 'sfx'] as const;
+
+export const TRANSITION_TYPES = [
+  'crossfade', 'dip_to_black', 'wipe_left', 'wipe_right', 'slide_left', 'slide_right',
+] as const satisfies readonly TransitionType[];
+
+export const shotSchema = z.object({
+  shot_id: z.string(),
+  visual_asset_id: z.string().nullable(),
+  audio_asset_id: z.string().nullable(),
+  duration_ms: z.number().int().positive(),
+  trim_in_ms: z.number().int().min(0),
+  trim_out_ms: z.number().int().min(0),
+  subtitle: z.string().nullable(),
+  transition_in: z.object({
+    type: z.enum(TRANSITION_TYPES),
+    duration_ms: z.number().int().positive().max(5000),
+  }).nullable().optional(),
+  motion: z.object({
+    keyframes: z.array(z.object({
+      at_ms: z.number().int().min(0),
+      zoom: z.number().min(1).max(5),
+      x: z.number().min(0).max(1),
+      y: z.number().min(0).max(1),
+    })).min(2).max(10),
+  }).nullable().optional(),
+  chapter: z.string().max(100).nullable().optional(),
+});
+
+export const audioClipSchema = z.object({
+  clip_id: z.string(),
+  asset_id: z.string(),
+  start_ms: z.number().int().min(0),
+  duration_ms: z.number().int().positive(),
+  trim_in_ms: z.number().int().min(0).default(0),
+  gain_db: z.number().min(-60).max(12).default(0),
+  fade_in_ms: z.number().int().min(0).default(0),
+  fade_out_ms: z.number().int().min(0).default(0),
+}).refine((c) => c.fade_in_ms + c.fade_out_ms <= c.duration_ms, {
+  message: 'fade_in_ms + fade_out_ms must not exceed duration_ms',
+});
+
+/** A snapshot at CURRENT_SNAPSHOT_VERSION */
+export const snapshotSchema = z.object({
+  schema_version: z.literal(CURRENT_SNAPSHOT_VERSION),
+  timeline: z.array(shotSchema),
+  tracks: z.object({
+    dialogue: z.array(audioClipSchema).default([]),
+    music: z.array(audioClipSchema).default([]),
+    sfx: z.array(audioClipSchema).default([]),
+  }),
+});
+
+/** A v1 snapshot: shots only, written without schema_version */
+export const v1SnapshotSchema = z.object({
+  schema_version: z.literal(1).optional(),
+  timeline: z.array(shotSchema),
+});
+
+export function emptyTracks(): TimelineTracks {
+  return { dialogue: [], music: [], sfx: [] };
+}
+
+export function createSnapshot(timeline: ShotSnapshot[] = [], tracks: TimelineTracks = emptyTracks()): TimelineSnapshot {
+  return { schema_version: CURRENT_SNAPSHOT_VERSION, timeline, tracks };
+}
+
+type SnapshotUpgrade = (snapshot: any) => any;
+
+/**
+ * Upgrade functions keyed by the version they upgrade *from*. Each one takes
+ * a snapshot at version N and returns it at version N + 1. Changing the
+ * snapshot shape means bumping CURRENT_SNAPSHOT_VERSION and registering the
+ * step here; stored commits are never rewritten on the write path.
+ */
+export const SNAPSHOT_UPGRADES: Record<number, SnapshotUpgrade> = {
+  // v1 → v2: add the dialogue, music and SFX lanes
+  1: (snap) => ({ ...snap, schema_version: 2, tracks: emptyTracks() }),
+};
+
+/** Version of a stored snapshot. v1 snapshots were written without the field. */
+export function snapshotVersion(raw: unknown): number {
+  const version = (raw as { schema_version?: unknown } | null)?.schema_version;
+  return version === undefined ? 1 : Number(version);
+}
+
+/**
+ * A snapshot this build can't read: its schema_version is unknown, newer
+ * than CURRENT_SNAPSHOT_VERSION, or has no upgrade path. `statusCode` makes
+ * the API answer 422 instead of 500 wherever a route reads one.
+ */
+export class UnsupportedSnapshotError extends Error {
+  readonly statusCode = 422;
+
+  constructor(readonly schemaVersion: unknown, message: string) {
+    super(message);
+    this.name = 'UnsupportedSnapshotError';
+  }
+}
+
+/**
+ * Bring a stored snapshot (any version) up to the current format by running
+ * the registered upgrades in order. Throws UnsupportedSnapshotError for
+ * versions that are newer than this build or have no upgrade path.
+ */
+export function upgradeSnapshot(raw: unknown): TimelineSnapshot {
+  let snap: any = raw || { timeline: [] };
+  let version = snapshotVersion(snap);
+  if (!Number.isInteger(version) || version < 1 || version > CURRENT_SNAPSHOT_VERSION) {
+    throw new UnsupportedSnapshotError(
+      snap.schema_version,
+      `Unsupported snapshot schema_version: ${snap.schema_version} (this server reads up to ${CURRENT_SNAPSHOT_VERSION})`,
+    );
+  }
+  while (version < CURRENT_SNAPSHOT_VERSION) {
+    const upgrade = SNAPSHOT_UPGRADES[version];
+    if (!upgrade) throw new UnsupportedSnapshotError(version, `No upgrade registered for snapshot schema_version ${version}`);
+    snap = upgrade(snap);
+    version++;
+  }
+  return createSnapshot(snap.timeline || [], { ...emptyTracks(), ...snap.tracks });
+}
+
+/**
+ * Structural check of a current-version snapshot, against the same schema
+ * commits are validated with on write. Returns a list of problems (empty
+ * when valid) rather than throwing, so callers can report them.
+ */
+export function validateSnapshot(snapshot: TimelineSnapshot): string[] {
+  const result = snapshotSchema.safeParse(snapshot);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => `${issue.path.join('.') || 'snapshot'}: ${issue.message}`);
+}
+
+/** Every asset a snapshot references, across shots and audio lanes */
+export function snapshotAssetIds(snapshot: TimelineSnapshot): string[] {
+  const ids = new Set<string>();
+  for (const shot of snapshot.timeline) {
+    if (shot.visual_asset_id) ids.add(shot.visual_asset_id);
+    if (shot.audio_asset_id) ids.add(shot.audio_asset_id);
+  }
+  for (const kind of AUDIO_TRACK_KINDS) {
+    for (const clip of snapshot.tracks[kind]) ids.add(clip.asset_id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * How long each shot overlaps the shot before it. The first shot never
+ * overlaps, and a transition can't be longer than either shot it joins.
+ * Overlaps are capped in timeline order so that the two transitions
+ * touching a shot never add up to more than its duration; otherwise two
+ * long transitions around a short shot would start the next shot before it.
+ */
+export function transitionOverlapsMs(timeline: ShotSnapshot[]): number[] {
+  const overlaps: number[] = [];
+  timeline.forEach((shot, i) => {
+    const transition = shot.transition_in;
+    if (i === 0 || !transition) {
+      overlaps.push(0);
+      return;
+    }
+    const prevRemainingMs = timeline[i - 1].duration_ms - overlaps[i - 1];
+    overlaps.push(Math.max(0, Math.min(transition.duration_ms, prevRemainingMs, shot.duration_ms)));
+  });
+  return overlaps;
+}
+
+/** How long shot `index` overlaps the shot before it; see transitionOverlapsMs */
+export function transitionOverlapMs(timeline: ShotSnapshot[], index: number): number {
+  return transitionOverlapsMs(timeline)[index] ?? 0;
+}
+
+/** When each shot starts on the output timeline, after transition overlaps */
+export function shotStartTimesMs(timeline: ShotSnapshot[]): number[] {
+  const overlaps = transitionOverlapsMs(timeline);
+  const starts: number[] = [];
+  let cursor = 0;
+  timeline.forEach((shot, i) => {
+    cursor -= overlaps[i];
+    starts.push(cursor);
+    cursor += shot.duration_ms;
+  });
+  return starts;
+}
+
+/** Total runtime of the rendered timeline, accounting for transition overlaps */
+export function timelineDurationMs(timeline: ShotSnapshot[]): number {
+  const overlaps = transitionOverlapsMs(timeline);
+  return timeline.reduce((sum, s, i) => sum + s.duration_ms - overlaps[i], 0);
+}
+
+/**
+ * Chapters on the output timeline. Each shot with a non-empty `chapter`
+ * label opens a chapter that runs until the next labelled shot (or the end).
+ * Shots before the first label are not part of any chapter.
+ */
+export function buildChapters(timeline: ShotSnapshot[]): Chapter[] {
+  const starts = shotStartTimesMs(timeline);
+  const chapters: Chapter[] = [];
+  timeline.forEach((shot, i) => {
+    const title = shot.chapter?.trim();
+    if (!title) return;
+    if (chapters.length > 0) chapters[chapters.length - 1].end_ms = starts[i];
+    chapters.push({ title, shot_index: i, start_ms: starts[i], end_ms: 0 });
+  });
+  if (chapters.length > 0) chapters[chapters.length - 1].end_ms = timelineDurationMs(timeline);
+  return chapters;
+}
@@ -1,13 +1,37 @@
 // ── Enums ──
 export type AssetType = 'image' | 'video' | 'audio' | 'render';
 export type JobType = 'gen_image' | 'gen_video' | 'gen_audio' | 'render';
-export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'blocked';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'blocked' | 'cancelled';
 export type WorkspaceRole = 'owner' | 'admin' | 'member';
 export type Visibility = 'private';
 export type ForkLicense = 'no_forks' | 'forks_nc' | 'forks_revshare' | 'sharealike';
 export type SafetyAction = 'blocked' | 'warned';
 
 // ── Timeline Snapshot ──
+export type TransitionType = 'crossfade' | 'dip_to_black' | 'wipe_left' | 'wipe_right' | 'slide_left' | 'slide_right';
+
+/** How a shot enters from the previous one; the two shots overlap for `duration_ms` */
+export interface ShotTransition {
+  type: TransitionType;
+  duration_ms: number;
+}
+
+/**
+ * Pan/zoom keyframe for still-image shots. `x`/`y` are the centre of the
+ * visible frame as 0–1 fractions of the image; `zoom` 1 shows the whole frame.
+ */
+export interface MotionKeyframe {
+  at_ms: number;
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+/** Ken Burns motion, linearly interpolated between keyframes */
+export interface ShotMotion {
+  keyframes: MotionKeyframe[];
+}
+
 export interface ShotSnapshot {
   shot_id: string;
   visual_asset_id: string | null;
@@ -16,10 +40,145 @@ export interface ShotSnapshot {
   trim_in_ms: number;
   trim_out_ms: number;
   subtitle: string | null;
+  transition_in?: ShotTransition | null;
+  motion?: ShotMotion | null;
+  /** Starts a new chapter at this shot, titled with this label */
+  chapter?: string | null;
+}
+
+/** A chapter on the rendered timeline, derived from shot `chapter` labels */
+export interface Chapter {
+  title: string;
+  shot_index: number;
+  start_ms: number;
+  end_ms: number;
+}
+
+/**
+ * A clip on one of the free-floating audio lanes. Unlike shots, clips are
+ * positioned absolutely and may span shot boundaries.
+ */
+export interface AudioClip {
+  clip_id: string;
+  asset_id: string;
+  start_ms: number;
+  duration_ms: number;
+  trim_in_ms: number;
+  gain_db: number;
+  fade_in_ms: number;
+  fade_out_ms: number;
+}
+
+export type AudioTrackKind = 'dialogue' | 'music' | 'sfx';
+
+export type TimelineTracks = Record<AudioTrackKind, AudioClip[]>;
+
+/** v1: a flat list of shots, stored without a version field */
+export interface TimelineSnapshotV1 {
+  schema_version?: 1;
+  timeline: ShotSnapshot[];
 }
 
-export interface TimelineSnapshot {
+/**
+ * v2: `timeline` is the video track (shots play back to back, each with its
+ * own synced narration); `tracks` holds the dialogue, music and SFX lanes.
+ */
+export interface TimelineSnapshotV2 {
+  schema_version: 2;
   timeline: ShotSnapshot[];
+  tracks: TimelineTracks;
+}
+
+/** The current snapshot format. Older stored snapshots go through upgradeSnapshot(). */
+export type TimelineSnapshot = TimelineSnapshotV2;
+
+// ── Diffs ──
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export type ShotDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface ShotDiff {
+  shot_id: string;
+  status: ShotDiffStatus;
+  from_index: number | null;
+  to_index: number | null;
+  /** Present in both snapshots but reordered relative to the other shots */
+  moved: boolean;
+  changes: FieldChange[];
+}
+
+export interface ClipDiff {
+  kind: AudioTrackKind;
+  clip_id: string;
+  status: Exclude<ShotDiffStatus, 'unchanged'>;
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  shots: ShotDiff[];
+  clips: ClipDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    moved: number;
+    clipsChanged: number;
+  };
+}
+
+// ── Blame ──
+/** The commit that last changed a value */
+export interface BlameEntry {
+  commitId: string;
+  message: string;
+  authorId: string | null;
+  authorName: string | null;
+  createdAt: string;
+}
+
+export interface ShotBlame {
+  shot_id: string;
+  /** Keyed by field name (see SHOT_DIFF_FIELDS) */
+  fields: Record<string, BlameEntry>;
+  /** The most recent change to any field */
+  lastChange: BlameEntry;
+}
+
+export interface SnapshotBlame {
+  commitId: string;
+  shots: ShotBlame[];
+}
+
+// ── Render Options ──
+export type VideoCodec = 'h264' | 'h265' | 'vp9';
+
+export interface RenderProfile {
+  id: string;
+  name: string;
+  aspectRatio: string;
+  width: number;
+  height: number;
+  fps: 24 | 30 | 60;
+  codec: VideoCodec;
+  /** Integrated loudness the final mix is normalized to (LUFS) */
+  loudnessLufs: number;
+}
+
+export type SubtitlePosition = 'bottom' | 'middle' | 'top';
+
+/** Burn-in style for rendered subtitles. Colors are '#RRGGBB'. */
+export interface SubtitleStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColor: string;
+  outlineColor: string;
+  outline: number;
+  position: SubtitlePosition;
+  marginV: number;
 }
 
 // ── Provenance ──
@@ -53,10 +212,221 @@ export interface ProvenanceManifest {
   }>;
 }
 
+// ── Job Events ──
+/** How far a running job has got; `percent` is 0–100 across all of its stages */
+export interface JobProgress {
+  stage: string;
+  percent: number;
+}
+
+/** A job status change or progress update, as streamed by `GET /jobs/events` */
+export interface JobEvent {
+  jobId: string;
+  workspaceId: string;
+  projectId: string | null;
+  type: JobType;
+  status: JobStatus;
+  progress: JobProgress | null;
+  result: Record<string, unknown> | null;
+  error: { message: string } | null;
+}
+
+// ── Job Batches ──
+/** `partial`: some jobs succeeded and some did not */
+export type JobBatchStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+/** Which shot field a batch job's asset goes into */
+export type BatchJobField = 'visual' | 'audio';
+
+export interface BatchJob {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  shotId: string;
+  field: BatchJobField;
+  result: Record<string, unknown> | null;
+  error: { message: string } | null;
+}
+
+export interface BatchFailure {
+  jobId: string;
+  shotId: string;
+  field: BatchJobField;
+  status: JobStatus;
+  message: string;
+}
+
+/** Aggregated state of a batch, as returned by `GET /jobs/batch/:id` */
+export interface JobBatch {
+  id: string;
+  workspaceId: string;
+  projectId: string;
+  branch: string;
+  status: JobBatchStatus;
+  autoCommit: boolean;
+  /** Set once the auto-commit has placed the generated assets */
+  commitId: string | null;
+  skippedShotIds: string[];
+  /** Why the auto-commit made no commit, e.g. every shot was removed from the branch */
+  commitError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  jobs: BatchJob[];
+  /** Number of jobs in each status */
+  counts: Partial<Record<JobStatus, number>>;
+  failures: BatchFailure[];
+}
+
+// ── Pipelines ──
+/** Generation and render steps run as credit-charged jobs; commit and publish run in the pipeline worker */
+export type PipelineStepType = 'gen_image' | 'gen_video' | 'gen_audio' | 'commit' | 'render' | 'publish';
+
+/** `pending`: waiting on upstream steps; `skipped`: an upstream step did not succeed, so it never ran */
+export type PipelineStepStatus = 'pending' | 'skipped' | JobStatus;
+
+export type PipelineStatus = 'running' | 'succeeded' | 'failed';
+
+/** A step parameter taken from an earlier step's output, e.g. `{ "$ref": "narrate.assetId" }` */
+export interface StepOutputRef {
+  $ref: string;
+}
+
+export interface PipelineStep {
+  id: string;
+  type: PipelineStepType;
+  /** Explicit dependencies plus every step referenced in `params` */
+  dependsOn: string[];
+  /** Depth in the graph; steps of one level run in parallel */
+  level: number;
+  params: Record<string, unknown>;
+  status: PipelineStepStatus;
+  /** The charged job behind a generation or render step */
+  jobId: string | null;
+  output: Record<string, unknown> | null;
+  error: { message: string } | null;
+}
+
+export interface Pipeline {
+  id: string;
+  workspaceId: string;
+  projectId: string;
+  name: string | null;
+  status: PipelineStatus;
+  createdAt: string;
+  updatedAt: string;
+  steps: PipelineStep[];
+}
+
 // ── Phase 2A Types ──
 export type IncludeMode = 'used_only' | 'used_plus_selected';
 export type AnalyticsEvent = 'viewer_open' | 'fork_click' | 'fork_created' | 'fork_rendered' | 'release_used';
 
+// ── Branches ──
+export interface Branch {
+  id: string;
+  projectId: string;
+  name: string;
+  headCommitId: string;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  isDefault?: boolean;
+}
+
+export interface Tag {
+  id: string;
+  projectId: string;
+  name: string;
+  commitId: string;
+  /** Only workspace owners/admins can move or delete protected tags */
+  protected: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Merges ──
+/** Which side of a merge wins a conflict: the target branch or the proposed source commit */
+export type MergeResolution = 'target' | 'source';
+
+export type MergeConflictType =
+  | 'both_modified'
+  | 'both_added'
+  /** Target modified, source deleted */
+  | 'modify_delete'
+  /** Target deleted, source modified */
+  | 'delete_modify'
+  | 'both_reordered';
+
+export interface MergeConflict {
+  target: 'shot' | 'clip' | 'order';
+  /** shot_id, clip_id, or 'timeline' for order conflicts */
+  id: string;
+  track?: AudioTrackKind;
+  type: MergeConflictType;
+  /** Conflicting fields; for order conflicts, the shot IDs the source moved */
+  fields: string[];
+}
+
+export interface MergeResult {
+  snapshot: TimelineSnapshot;
+  conflicts: MergeConflict[];
+}
+
+export type MergeRequestStatus = 'open' | 'merged' | 'closed';
+
+export interface MergeRequest {
+  id: string;
+  sourceProjectId: string;
+  sourceCommitId: string;
+  targetProjectId: string;
+  targetBranch: string;
+  title: string;
+  description: string | null;
+  status: MergeRequestStatus;
+  createdBy: string;
+  mergedBy: string | null;
+  mergeCommitId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+}
+
+// ── Fork Network ──
+export interface ForkNetworkCommit {
+  id: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface ForkNetworkNode {
+  projectId: string;
+  name: string;
+  parentProjectId: string | null;
+  /** Generations below the root of the lineage */
+  depth: number;
+  relation: 'ancestor' | 'self' | 'descendant';
+  /** Whether the caller belongs to the node's workspace; commit and publish details are omitted otherwise */
+  accessible: boolean;
+  createdAt: string;
+  /** The parent commit this project was forked from (or last synced to) */
+  forkPoint: ForkNetworkCommit | null;
+  /** Head of the default branch */
+  head: ForkNetworkCommit | null;
+  published: { title: string | null; publishedAt: string } | null;
+  /** Succeeded render jobs */
+  renderCount: number;
+  /** Direct forks, including any outside this network view */
+  forkCount: number;
+}
+
+export interface ForkNetwork {
+  projectId: string;
+  rootProjectId: string;
+  /** Ancestors root first, then the project, then its descendants breadth first */
+  nodes: ForkNetworkNode[];
+}
+
 export interface PublishedRender {
   id: string;
   projectId: string;